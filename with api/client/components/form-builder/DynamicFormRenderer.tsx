@@ -2,11 +2,16 @@ import { useState, useRef, useEffect } from "react";
 import {
   FormSchema,
   FormField,
-  FormItem,
+  FormSection,
   isFormField,
   isFormSection,
-  getAllFields,
+  getAllSections,
 } from "@/lib/form-schema";
+import { omitHiddenValues } from "@shared/visibility";
+import { removeBlankEntries } from "@shared/repeatable-sections";
+import { validateForm } from "@shared/form-validation";
+import { EntryLocation, useFormAnswers } from "@/hooks/useFormAnswers";
+import { createSectionRenderer } from "./SectionItems";
 import {
   configService,
   getFieldDefinition,
@@ -51,10 +56,20 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
   mode = "response",
   className,
 }) => {
-  const [formValues, setFormValues] = useState<Record<string, any>>(values);
-  const [validationErrors, setValidationErrors] = useState<
-    Record<string, string>
-  >({});
+  const answers = useFormAnswers({
+    schema,
+    initialValues: values,
+    onValuesChange,
+  });
+  const {
+    values: formValues,
+    errors: validationErrors,
+    hiddenItems,
+    isShown,
+    hasShownFields,
+    getSectionProgress,
+    canSubmit,
+  } = answers;
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [openSections, setOpenSections] = useState<Record<string, boolean>>({});
   const [isSubmitted, setIsSubmitted] = useState(false);
@@ -80,84 +95,39 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
     initializeConfig();
   }, []);
 
-  // Initialize all sections as open by default
+  // Initialize all sections and subsections as open by default
   useEffect(() => {
     const initialOpenState: Record<string, boolean> = {};
-    schema.items.forEach((item) => {
-      if (isFormSection(item)) {
-        initialOpenState[item.id] = true;
-      }
+    getAllSections(schema.items).forEach((section) => {
+      initialOpenState[section.id] = true;
     });
     setOpenSections(initialOpenState);
   }, [schema.items]);
 
-  const updateValue = (fieldId: string, value: any) => {
-    const newValues = { ...formValues, [fieldId]: value };
-    setFormValues(newValues);
-    onValuesChange?.(newValues);
-
-    // Clear validation error for this field
-    if (validationErrors[fieldId]) {
-      setValidationErrors((prev) => {
-        const { [fieldId]: _, ...rest } = prev;
-        return rest;
-      });
-    }
-  };
-
-  const handleClear = () => {
-    setFormValues({});
-    setValidationErrors({});
-    onValuesChange?.({});
-  };
-
-  const validateForm = (): boolean => {
-    const errors: Record<string, string> = {};
-    const allFields = getAllFields(schema.items);
-
-    // Validate required fields
-    allFields.forEach((field) => {
-      if (field.required) {
-        const value = formValues[field.id];
-        if (!value || value === "") {
-          errors[field.id] = `${field.label} is required`;
-        }
-      }
-
-      // Get field definition for custom validation
-      const fieldDef = getFieldDefinition(field.type);
-      if (fieldDef?.validation?.custom && formValues[field.id]) {
-        const customValidation = fieldDef.validation.custom;
-
-        // Handle different validation types
-        if (customValidation === "validateFileSize") {
-          const file = formValues[field.id];
-          if (file && file.size > 2097152) {
-            errors[field.id] = "File size must be less than 2MB";
-          }
-        }
-
-        // Add more custom validations as needed
-      }
-    });
-
-    setValidationErrors(errors);
-    return Object.keys(errors).length === 0;
+  // Same rules as FormRenderer and the server; hidden fields aren't answered
+  const validateAnswers = (): boolean => {
+    const { errors } = validateForm(schema, formValues);
+    answers.showErrors(errors);
+    return errors.length === 0;
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
 
-    if (validateForm()) {
+    if (validateAnswers()) {
+      const submitted = removeBlankEntries(
+        schema,
+        omitHiddenValues(formValues, hiddenItems),
+      );
       const submissionData: SubmittedFormData = {
         schema,
-        values: formValues,
+        values: submitted,
         submittedAt: new Date(),
       };
       setSubmittedData(submissionData);
       setIsSubmitted(true);
-      onSubmit?.(formValues);
+      onSubmit?.(submitted);
     }
 
     setIsSubmitting(false);
@@ -184,31 +154,11 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
     }));
   };
 
-  // Calculate progress for each section
-  const getSectionProgress = (section: any) => {
-    const totalFields = section.fields.length;
-    const answeredFields = section.fields.filter((field: FormField) => {
-      const value = formValues[field.id];
-      return value !== undefined && value !== null && value !== "";
-    }).length;
-    return { answered: answeredFields, total: totalFields };
-  };
-
-  // Check if form can be submitted
-  const canSubmit = () => {
-    const allFields = getAllFields(schema.items);
-    const requiredFields = allFields.filter((field) => field.required);
-
-    return requiredFields.every((field) => {
-      const value = formValues[field.id];
-      return value !== undefined && value !== null && value !== "";
-    });
-  };
-
   const renderField = (
     field: FormField,
     questionNumber?: number,
     disabled = false,
+    entry?: EntryLocation,
   ) => {
     if (!configLoaded) {
       // Show loading placeholder while config loads
@@ -220,8 +170,10 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
       );
     }
 
-    const fieldValue = formValues[field.id];
-    const hasError = !!validationErrors[field.id];
+    const fieldKey = answers.getFieldKey(field, entry);
+    const fieldValue = answers.getFieldValue(field, entry);
+    const setValue = (value: any) => answers.updateValue(field, value, entry);
+    const hasError = !!validationErrors[fieldKey];
     const fieldDef = getFieldDefinition(field.type);
 
     if (!fieldDef) {
@@ -262,7 +214,7 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
           {children}
           {hasError && (
             <p className="text-sm text-red-600 mt-2">
-              {validationErrors[field.id]}
+              {validationErrors[fieldKey]}
             </p>
           )}
         </div>
@@ -273,9 +225,9 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
     const fieldComponent = renderDynamicField(fieldDef, {
       field: fieldDef,
       value: fieldValue,
-      onChange: (value: any) => !disabled && updateValue(field.id, value),
+      onChange: (value: any) => !disabled && setValue(value),
       disabled,
-      error: hasError ? validationErrors[field.id] : undefined,
+      error: hasError ? validationErrors[fieldKey] : undefined,
       placeholder: field.description || fieldDef.defaultProperties?.placeholder,
       required: field.required,
       // Pass through any additional field properties
@@ -286,12 +238,19 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
   };
 
   const sectionsWithFields = schema.items.filter(
-    (item) => isFormSection(item) && item.fields.length > 0,
+    (item): item is FormSection => isFormSection(item) && hasShownFields(item),
   );
   const hasAnySections = sectionsWithFields.length > 0;
-  const standaloneFields = schema.items.filter((item) => isFormField(item));
+  const standaloneFields = schema.items.filter(
+    (item): item is FormField => isFormField(item) && isShown(item),
+  );
 
-  let questionCounter = 1;
+  const questions = createSectionRenderer({
+    answers,
+    renderField,
+    isOpen: (sectionId) => openSections[sectionId] ?? true,
+    onOpenChange: toggleSection,
+  });
 
   // Show submitted view
   if (isSubmitted && submittedData) {
@@ -352,11 +311,7 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
               <div className="space-y-6">
                 {standaloneFields.map((field) => (
                   <div key={field.id}>
-                    {renderField(
-                      field as FormField,
-                      questionCounter++,
-                      submittedData ? true : false,
-                    )}
+                    {questions.renderQuestion(field, !!submittedData)}
                   </div>
                 ))}
               </div>
@@ -367,7 +322,7 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
                   <Button
                     type="button"
                     variant="outline"
-                    onClick={handleClear}
+                    onClick={answers.clear}
                     className="flex items-center gap-2 border-gray-300 text-gray-700 hover:bg-gray-50"
                   >
                     <RotateCcw className="w-4 h-4" />
@@ -441,11 +396,7 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
                   key={field.id}
                   className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
                 >
-                  {renderField(
-                    field as FormField,
-                    questionCounter++,
-                    submittedData ? true : false,
-                  )}
+                  {questions.renderQuestion(field, !!submittedData)}
                 </div>
               ))}
 
@@ -487,15 +438,11 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
 
                     <CollapsibleContent>
                       <div className="p-6 space-y-6">
-                        {section.fields.map((field) => (
-                          <div key={field.id}>
-                            {renderField(
-                              field,
-                              questionCounter++,
-                              submittedData ? true : false,
-                            )}
-                          </div>
-                        ))}
+                        {questions.renderSection(
+                          section,
+                          String(sectionIndex + 1),
+                          !!submittedData,
+                        )}
                       </div>
                     </CollapsibleContent>
                   </Collapsible>
@@ -510,7 +457,7 @@ export const DynamicFormRenderer: React.FC<DynamicFormRendererProps> = ({
                   <Button
                     type="button"
                     variant="outline"
-                    onClick={handleClear}
+                    onClick={answers.clear}
                     className="flex items-center gap-2 border-gray-300 text-gray-700 hover:bg-gray-50"
                   >
                     <RotateCcw className="w-4 h-4" />
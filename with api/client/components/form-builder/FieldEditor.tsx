@@ -3,9 +3,21 @@ import {
   FormField,
   DropdownProperties,
   DatePickerProperties,
+  DateTimeProperties,
+  DateFormat,
+  TimeFormat,
+  TimeProperties,
+  CalculatedProperties,
   generateId,
 } from "@/lib/form-schema";
+import {
+  DEFAULT_DATE_FORMAT,
+  DEFAULT_MINUTE_STEP,
+  DEFAULT_TIME_FORMAT,
+} from "@shared/dates";
 import { useDragAndDrop, createDragItem } from "@/hooks/useDragAndDrop";
+import { VisibilityRuleEditor } from "./VisibilityRuleEditor";
+import { ValidationRulesEditor } from "./ValidationRulesEditor";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
@@ -22,8 +34,25 @@ interface FieldEditorProps {
   onUpdate: (updates: Partial<FormField>) => void;
   onDelete: () => void;
   onClone: () => void;
+  // Other questions this one's visibility, or formula, can depend on
+  conditionFields?: FormField[];
+  // Why a calculated field's formula can't be computed
+  formulaError?: string;
 }
 
+const DATE_FORMATS: DateFormat[] = ["DD/MM/YYYY", "MM/DD/YYYY", "YYYY/MM/DD"];
+
+const TIME_FORMATS: { value: TimeFormat; label: string }[] = [
+  { value: "12h", label: "12-hour" },
+  { value: "24h", label: "24-hour" },
+];
+
+// Minutes between the times a time field offers
+const MINUTE_STEPS = [5, 10, 15, 30, 60];
+
+// Answers a formula can do arithmetic on
+const FORMULA_SOURCE_TYPES = ["number", "dropdown", "calculated"];
+
 export const FieldEditor: React.FC<FieldEditorProps> = ({
   field,
   isSelected,
@@ -31,6 +60,8 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
   onUpdate,
   onDelete,
   onClone,
+  conditionFields = [],
+  formulaError,
 }) => {
   const [editingLabel, setEditingLabel] = useState(false);
   const [editingDescription, setEditingDescription] = useState(false);
@@ -86,6 +117,93 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
   };
 
   const isUDFField = field.type.startsWith("udf-");
+  const isCalculated = field.type === "calculated";
+
+  // Formulas reference fields by id; show them by label instead
+  const describeFormula = (expression: string) =>
+    expression.replace(/\{([^}]*)\}/g, (reference, id) => {
+      const source = conditionFields.find((f) => f.id === id.trim());
+      return source ? `{${source.label || "Untitled Question"}}` : reference;
+    });
+
+  const renderDateFormat = () => (
+    <div>
+      <Label className="text-sm font-medium text-gray-700 mb-2 block">
+        Date Format:
+      </Label>
+      <RadioGroup
+        value={
+          (field.properties as DatePickerProperties).dateFormat ||
+          DEFAULT_DATE_FORMAT
+        }
+        onValueChange={(value) => handlePropertyUpdate("dateFormat", value)}
+        className="flex gap-4"
+      >
+        {DATE_FORMATS.map((dateFormat) => {
+          const id = `${dateFormat.toLowerCase().replace(/\//g, "-")}-${field.id}`;
+          return (
+            <div key={dateFormat} className="flex items-center space-x-2">
+              <RadioGroupItem value={dateFormat} id={id} />
+              <Label htmlFor={id} className="text-sm">
+                {dateFormat}
+              </Label>
+            </div>
+          );
+        })}
+      </RadioGroup>
+    </div>
+  );
+
+  const renderTimeOptions = () => {
+    const timeProps = field.properties as TimeProperties;
+    return (
+      <>
+        <div>
+          <Label className="text-sm font-medium text-gray-700 mb-2 block">
+            Time Format:
+          </Label>
+          <RadioGroup
+            value={timeProps.timeFormat || DEFAULT_TIME_FORMAT}
+            onValueChange={(value) => handlePropertyUpdate("timeFormat", value)}
+            className="flex gap-4"
+          >
+            {TIME_FORMATS.map(({ value, label }) => (
+              <div key={value} className="flex items-center space-x-2">
+                <RadioGroupItem value={value} id={`${value}-${field.id}`} />
+                <Label htmlFor={`${value}-${field.id}`} className="text-sm">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+        <div>
+          <Label className="text-sm font-medium text-gray-700 mb-2 block">
+            Times Offered Every:
+          </Label>
+          <RadioGroup
+            value={String(timeProps.minuteStep || DEFAULT_MINUTE_STEP)}
+            onValueChange={(value) =>
+              handlePropertyUpdate("minuteStep", Number(value))
+            }
+            className="flex flex-wrap gap-4"
+          >
+            {MINUTE_STEPS.map((step) => (
+              <div key={step} className="flex items-center space-x-2">
+                <RadioGroupItem
+                  value={String(step)}
+                  id={`step-${step}-${field.id}`}
+                />
+                <Label htmlFor={`step-${step}-${field.id}`} className="text-sm">
+                  {step === 60 ? "Hour" : `${step} min`}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      </>
+    );
+  };
 
   const renderFieldSpecificControls = () => {
     if (isUDFField) {
@@ -100,34 +218,17 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
 
     switch (field.type) {
       case "date-picker":
-        const dateProps = field.properties as DatePickerProperties;
+      case "date-range":
+        return <div className="space-y-4">{renderDateFormat()}</div>;
+
+      case "time":
+        return <div className="space-y-4">{renderTimeOptions()}</div>;
+
+      case "datetime":
         return (
           <div className="space-y-4">
-            <div>
-              <Label className="text-sm font-medium text-gray-700 mb-2 block">
-                Date Format:
-              </Label>
-              <RadioGroup
-                value={dateProps.dateFormat || "DD/MM/YYYY"}
-                onValueChange={(value) =>
-                  handlePropertyUpdate("dateFormat", value)
-                }
-                className="flex gap-4"
-              >
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="DD/MM/YYYY" id="dd-mm-yyyy" />
-                  <Label htmlFor="dd-mm-yyyy" className="text-sm">
-                    DD/MM/YYYY
-                  </Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="MM/DD/YYYY" id="mm-dd-yyyy" />
-                  <Label htmlFor="mm-dd-yyyy" className="text-sm">
-                    MM/DD/YYYY
-                  </Label>
-                </div>
-              </RadioGroup>
-            </div>
+            {renderDateFormat()}
+            {renderTimeOptions()}
           </div>
         );
 
@@ -233,6 +334,97 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
                 </div>
               </RadioGroup>
             </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={!!dropdownProps.allowOther}
+                onCheckedChange={(checked) =>
+                  handlePropertyUpdate("allowOther", checked)
+                }
+                id={`other-${field.id}`}
+              />
+              <Label htmlFor={`other-${field.id}`} className="text-sm">
+                Allow "Other" with a text answer
+              </Label>
+            </div>
+          </div>
+        );
+
+      case "calculated":
+        const calculatedProps = field.properties as CalculatedProperties;
+        const sourceFields = conditionFields.filter((f) =>
+          FORMULA_SOURCE_TYPES.includes(f.type),
+        );
+        return (
+          <div className="space-y-4">
+            <div>
+              <Label className="text-sm font-medium text-gray-700 mb-2 block">
+                Formula:
+              </Label>
+              <Input
+                value={calculatedProps.expression || ""}
+                onChange={(e) =>
+                  handlePropertyUpdate("expression", e.target.value)
+                }
+                placeholder="e.g. {hours} * {rate} or sum({q1}, {q2})"
+                className={cn(
+                  "font-mono text-sm",
+                  formulaError && "border-red-300",
+                )}
+              />
+              {formulaError ? (
+                <p className="text-xs text-red-600 mt-1">{formulaError}</p>
+              ) : (
+                <p className="text-xs text-gray-500 mt-1">
+                  Use + - * / %, parentheses and sum, avg, min, max, count, abs,
+                  round
+                </p>
+              )}
+            </div>
+            {sourceFields.length > 0 && (
+              <div>
+                <Label className="text-sm font-medium text-gray-700 mb-2 block">
+                  Insert field:
+                </Label>
+                <div className="flex flex-wrap gap-2">
+                  {sourceFields.map((source) => (
+                    <Button
+                      key={source.id}
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        handlePropertyUpdate(
+                          "expression",
+                          `${calculatedProps.expression || ""}{${source.id}}`,
+                        )
+                      }
+                      className="h-7 text-xs"
+                    >
+                      {source.label || "Untitled Question"}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Label className="text-sm font-medium text-gray-700">
+                Decimal places:
+              </Label>
+              <Input
+                type="number"
+                min={0}
+                max={10}
+                value={calculatedProps.decimals ?? ""}
+                onChange={(e) =>
+                  handlePropertyUpdate(
+                    "decimals",
+                    e.target.value === ""
+                      ? undefined
+                      : Math.min(10, Math.max(0, Number(e.target.value))),
+                  )
+                }
+                className="w-20 h-8"
+              />
+            </div>
           </div>
         );
 
@@ -271,19 +463,35 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
           />
         );
       case "date-picker":
+      case "date-range":
+      case "datetime":
+      case "time": {
+        const dateProps = field.properties as DateTimeProperties;
+        const formats = [
+          field.type !== "time" &&
+            (dateProps.dateFormat || DEFAULT_DATE_FORMAT),
+          (field.type === "time" || field.type === "datetime") &&
+            (dateProps.timeFormat || DEFAULT_TIME_FORMAT),
+        ].filter(Boolean);
         return (
           <div>
             <Input
-              placeholder="Select the date"
+              placeholder={
+                field.type === "date-range"
+                  ? "Select the dates"
+                  : field.type === "time"
+                    ? "Select the time"
+                    : field.type === "datetime"
+                      ? "Select the date and time"
+                      : "Select the date"
+              }
               disabled
               className="bg-gray-50"
             />
-            <p className="text-xs text-gray-500 mt-1">
-              {(field.properties as DatePickerProperties).dateFormat ||
-                "DD/MM/YYYY"}
-            </p>
+            <p className="text-xs text-gray-500 mt-1">{formats.join(", ")}</p>
           </div>
         );
+      }
       case "dropdown":
         return (
           <div className="space-y-2">
@@ -306,6 +514,18 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
             className="bg-gray-50"
           />
         );
+      case "calculated":
+        const expression = (field.properties as CalculatedProperties)
+          .expression;
+        return (
+          <Input
+            placeholder={
+              expression ? `= ${describeFormula(expression)}` : "No formula yet"
+            }
+            disabled
+            className="bg-gray-50 font-mono"
+          />
+        );
       case "file-upload":
         return (
           <div className="border-2 border-dashed border-gray-200 rounded-lg p-6 text-center bg-gray-50">
@@ -407,6 +627,27 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
           <div className="mb-4">{renderFieldSpecificControls()}</div>
         )}
 
+        {/* Validation Rules (UDF and calculated fields aren't answered) */}
+        {isSelected && !isUDFField && !isCalculated && (
+          <div className="mb-4">
+            <ValidationRulesEditor
+              field={field}
+              onChange={(properties) => onUpdate({ properties })}
+            />
+          </div>
+        )}
+
+        {/* Visibility Rule */}
+        {isSelected && (
+          <div className="mb-4">
+            <VisibilityRuleEditor
+              rule={field.visibleWhen}
+              fields={conditionFields}
+              onChange={(visibleWhen) => onUpdate({ visibleWhen })}
+            />
+          </div>
+        )}
+
         {/* Controls */}
         {isSelected && (
           <div className="flex items-center justify-between pt-3 border-t border-gray-100">
@@ -451,16 +692,21 @@ export const FieldEditor: React.FC<FieldEditorProps> = ({
                 </Label>
               </div>
 
-              <div className="flex items-center gap-2">
-                <Switch
-                  checked={field.required}
-                  onCheckedChange={(checked) => onUpdate({ required: checked })}
-                  id={`req-${field.id}`}
-                />
-                <Label htmlFor={`req-${field.id}`} className="text-xs">
-                  Required
-                </Label>
-              </div>
+              {/* Calculated fields aren't answered, so can't be required */}
+              {!isCalculated && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={field.required}
+                    onCheckedChange={(checked) =>
+                      onUpdate({ required: checked })
+                    }
+                    id={`req-${field.id}`}
+                  />
+                  <Label htmlFor={`req-${field.id}`} className="text-xs">
+                    Required
+                  </Label>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -9,9 +9,13 @@ import {
   Type,
   FileText,
   Calendar,
+  CalendarClock,
+  CalendarRange,
+  Clock,
   ChevronDown,
   Paperclip,
   Hash,
+  Calculator,
   Briefcase,
   Building,
   MapPin,
@@ -29,9 +33,13 @@ const FIELD_ICONS: Record<FieldType, React.ComponentType<any>> = {
   "short-text": Type,
   "long-text": FileText,
   "date-picker": Calendar,
+  time: Clock,
+  datetime: CalendarClock,
+  "date-range": CalendarRange,
   dropdown: ChevronDown,
   "file-upload": Paperclip,
   number: Hash,
+  calculated: Calculator,
   "udf-designation": Briefcase,
   "udf-department": Building,
   "udf-location": MapPin,
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import {
   FormSchema,
   FieldType,
@@ -9,21 +10,38 @@ import {
 import { FieldsSidebar } from "./FieldsSidebar";
 import { FormCanvas } from "./FormCanvas";
 import { FormRenderer } from "./FormRenderer";
+import { VersionHistory } from "./VersionHistory";
+import { addField } from "@/lib/schema-ops";
+import { UndoableChangeOptions, useUndoHistory } from "@/hooks/useUndoHistory";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Eye, Settings, Save, FileText, MessageSquare } from "lucide-react";
+import {
+  Eye,
+  Settings,
+  Save,
+  FileText,
+  MessageSquare,
+  History,
+  Undo2,
+  Redo2,
+} from "lucide-react";
 import styles from "./FormBuilder.module.scss";
 
 interface FormBuilderProps {
+  // Saved form being edited; version history is only available once saved
+  formId?: string | null;
   initialSchema?: FormSchema;
   onSave?: (schema: FormSchema) => void;
   onPublish?: (schema: FormSchema) => void;
+  isSaving?: boolean;
 }
 
 export const FormBuilder: React.FC<FormBuilderProps> = ({
+  formId,
   initialSchema,
   onSave,
   onPublish,
+  isSaving = false,
 }) => {
   const createDemoForm = (): FormSchema => {
     const form = createDefaultForm();
@@ -34,32 +52,63 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({
     return form;
   };
 
-  const [schema, setSchema] = useState<FormSchema>(
-    initialSchema || createDemoForm(),
-  );
+  const {
+    state: schema,
+    set: setSchema,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+  } = useUndoHistory<FormSchema>(() => initialSchema || createDemoForm());
   const [selectedField, setSelectedField] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<
     "configuration" | "preview" | "response"
   >("configuration");
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) while editing the form
+  useEffect(() => {
+    if (activeTab !== "configuration" || historyOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      // Text being typed keeps the browser's own undo
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable ||
+          ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+      ) {
+        return;
+      }
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [activeTab, historyOpen, undo, redo]);
 
   const handleFieldAdd = (fieldType: FieldType) => {
-    const defaultField = createDefaultField(fieldType);
     const newField = {
-      ...defaultField,
+      ...createDefaultField(fieldType),
       id: generateId(),
       order: schema.items.length,
     };
 
-    const updatedSchema = { ...schema };
-    updatedSchema.items.push(newField);
-    updatedSchema.updatedAt = new Date();
-
-    setSchema(updatedSchema);
+    setSchema({ ...addField(schema, newField), updatedAt: new Date() });
     setSelectedField(newField.id);
   };
 
-  const handleSchemaChange = (updatedSchema: FormSchema) => {
-    setSchema(updatedSchema);
+  const handleSchemaChange = (
+    updatedSchema: FormSchema,
+    options?: UndoableChangeOptions,
+  ) => {
+    setSchema(updatedSchema, options);
   };
 
   const handleSave = () => {
@@ -70,6 +119,11 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({
     onPublish?.(schema);
   };
 
+  const handleRestore = (restoredSchema: FormSchema) => {
+    setSchema(restoredSchema);
+    setSelectedField(null);
+  };
+
   const handleFormSubmit = (values: Record<string, any>, validation: any) => {
     console.log("Form Schema:", JSON.stringify(schema, null, 2));
     console.log("Form Response:", JSON.stringify(values, null, 2));
@@ -82,24 +136,59 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({
       <div className={styles.header}>
         <div className={styles.headerContent}>
           <div className={styles.brandSection}>
-            <div className={styles.brandIcon}>
+            <Link to="/forms" className={styles.brandIcon}>
               <FileText className="w-5 h-5 text-indigo-600" />
               <span className={styles.brandText}>Form Builder</span>
-            </div>
+            </Link>
             <span className={styles.breadcrumbSeparator}>→</span>
-            <span className={styles.breadcrumbText}>Create Form</span>
+            <span className={styles.breadcrumbText}>
+              {initialSchema ? "Edit Form" : "Create Form"}
+            </span>
           </div>
 
           <div className={styles.actionButtons}>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={undo}
+              disabled={!canUndo}
+              title="Undo (Ctrl+Z)"
+              aria-label="Undo"
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={redo}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z)"
+              aria-label="Redo"
+            >
+              <Redo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => setHistoryOpen(true)}
+              disabled={!formId}
+            >
+              <History className="w-4 h-4 mr-2" />
+              History
+            </Button>
             <Button
               variant="outline"
               onClick={handleSave}
+              disabled={isSaving}
               className={styles.saveButton}
             >
               <Save className="w-4 h-4 mr-2" />
               Save as draft
             </Button>
-            <Button onClick={handlePublish} className={styles.publishButton}>
+            <Button
+              onClick={handlePublish}
+              disabled={isSaving}
+              className={styles.publishButton}
+            >
               <Eye className="w-4 h-4 mr-2" />
               Publish Form
             </Button>
@@ -193,15 +282,29 @@ export const FormBuilder: React.FC<FormBuilderProps> = ({
           </Button>
 
           <div className={styles.bottomActionButtons}>
-            <Button variant="outline" onClick={handleSave}>
+            <Button variant="outline" onClick={handleSave} disabled={isSaving}>
               Save as draft
             </Button>
-            <Button className={styles.publishButton} onClick={handlePublish}>
+            <Button
+              className={styles.publishButton}
+              onClick={handlePublish}
+              disabled={isSaving}
+            >
               Publish Form
             </Button>
           </div>
         </div>
       </div>
+
+      {formId && (
+        <VersionHistory
+          formId={formId}
+          currentSchema={schema}
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          onRestore={handleRestore}
+        />
+      )}
     </div>
   );
 };
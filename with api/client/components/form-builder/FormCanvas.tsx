@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from "react";
 import {
+  CrossFieldRule,
   FormSchema,
   FormSection,
   FormField,
@@ -7,11 +8,33 @@ import {
   generateId,
   createDefaultField,
   createDefaultSection,
+  getAllFields,
   isFormField,
   isFormSection,
 } from "@/lib/form-schema";
+import {
+  addField,
+  addSection,
+  cloneField,
+  deleteField,
+  deleteSection,
+  findField,
+  findFieldLocation,
+  moveField,
+  moveSection,
+  updateField,
+  updateSection,
+} from "@/lib/schema-ops";
+import { getRepeatableSections } from "@shared/repeatable-sections";
+import { buildFormulaGraph } from "@shared/formula";
+import { format } from "date-fns";
 import { useDragAndDrop } from "@/hooks/useDragAndDrop";
+import { UndoableChangeOptions } from "@/hooks/useUndoHistory";
 import { FieldEditor } from "./FieldEditor";
+import { VisibilityRuleEditor } from "./VisibilityRuleEditor";
+import { SectionNavigationEditor } from "./SectionNavigationEditor";
+import { SectionRepeatEditor } from "./SectionRepeatEditor";
+import { FormRulesEditor } from "./FormRulesEditor";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -49,11 +72,32 @@ import styles from "./FormCanvas.module.scss";
 
 interface FormCanvasProps {
   schema: FormSchema;
-  onSchemaChange: (schema: FormSchema) => void;
+  onSchemaChange: (schema: FormSchema, options?: UndoableChangeOptions) => void;
   selectedField: string | null;
   onFieldSelect: (fieldId: string | null) => void;
 }
 
+// Typing into one text box changes a single string value per keystroke; those
+// edits share a key so undo reverts the whole word rather than one letter
+const textEditKey = (
+  field: FormField,
+  updates: Partial<FormField>,
+): string | undefined => {
+  const { properties, ...rest } = updates;
+  const changes: Array<[string, unknown]> = Object.entries(rest);
+  if (properties) {
+    changes.push(
+      ...Object.entries(properties).filter(
+        ([key, value]) => value !== field.properties?.[key],
+      ),
+    );
+  }
+
+  return changes.length === 1 && typeof changes[0][1] === "string"
+    ? `field:${field.id}:${changes[0][0]}`
+    : undefined;
+};
+
 export const FormCanvas: React.FC<FormCanvasProps> = ({
   schema,
   onSchemaChange,
@@ -85,7 +129,11 @@ export const FormCanvas: React.FC<FormCanvasProps> = ({
       } else if (item.type === "field-reorder") {
         handleReorderField(item.data.fieldId, result.targetId, result.position);
       } else if (item.type === "section-reorder") {
-        handleReorderSection(item.data.sectionId, result.position);
+        handleReorderSection(
+          item.data.sectionId,
+          result.targetId,
+          result.position,
+        );
       } else if (item.type === "section-dialog-reorder") {
         handleDialogSectionReorder(item.data.sectionId, result.position);
       }
@@ -100,47 +148,27 @@ export const FormCanvas: React.FC<FormCanvasProps> = ({
     scrollContainer: () => canvasRef.current,
   });
 
-  const getDropZonePosition = (e: React.DragEvent, targetId?: string) => {
-    if (!targetId) {
-      // Dropping in main area
-      const mouseY = e.clientY;
-      const container = e.currentTarget as HTMLElement;
-      const itemElements = container.querySelectorAll("[data-item-id]");
-
-      for (let i = 0; i < itemElements.length; i++) {
-        const element = itemElements[i] as HTMLElement;
-        const rect = element.getBoundingClientRect();
-        const elementMiddle = rect.top + rect.height / 2;
-
-        if (mouseY < elementMiddle) {
-          return i;
-        }
-      }
+  // Index among the drop zone's own items, not those of sections nested in it
+  const getDropZonePosition = (e: React.DragEvent) => {
+    const mouseY = e.clientY;
+    const container = e.currentTarget as HTMLElement;
+    const itemElements = Array.from(
+      container.querySelectorAll<HTMLElement>("[data-item-id]"),
+    ).filter(
+      (element) =>
+        element.parentElement?.closest("[data-drop-target]") === container,
+    );
 
-      return schema.items.length;
-    } else {
-      // Dropping in a section
-      const section = schema.items.find(
-        (item) => isFormSection(item) && item.id === targetId,
-      ) as FormSection;
-      if (!section) return 0;
-
-      const mouseY = e.clientY;
-      const container = e.currentTarget as HTMLElement;
-      const fieldElements = container.querySelectorAll("[data-field-id]");
-
-      for (let i = 0; i < fieldElements.length; i++) {
-        const element = fieldElements[i] as HTMLElement;
-        const rect = element.getBoundingClientRect();
-        const elementMiddle = rect.top + rect.height / 2;
-
-        if (mouseY < elementMiddle) {
-          return i;
-        }
-      }
+    for (let i = 0; i < itemElements.length; i++) {
+      const rect = itemElements[i].getBoundingClientRect();
+      const elementMiddle = rect.top + rect.height / 2;
 
-      return section.fields.length;
+      if (mouseY < elementMiddle) {
+        return i;
+      }
     }
+
+    return itemElements.length;
   };
 
   const handleAddField = (
@@ -148,44 +176,13 @@ export const FormCanvas: React.FC<FormCanvasProps> = ({
     targetId?: string,
     position?: number,
   ) => {
-    const defaultField = createDefaultField(fieldType);
     const newField: FormField = {
-      ...defaultField,
+      ...createDefaultField(fieldType),
       id: generateId(),
       order: 0,
     };
 
-    const updatedSchema = { ...schema };
-
-    if (targetId) {
-      // Adding to a specific section
-      const sectionIndex = updatedSchema.items.findIndex(
-        (item) => isFormSection(item) && item.id === targetId,
-      );
-      if (sectionIndex >= 0) {
-        const section = updatedSchema.items[sectionIndex] as FormSection;
-        const insertPosition = position ?? section.fields.length;
-        section.fields.splice(insertPosition, 0, newField);
-
-        section.fields.forEach((field, index) => {
-          field.order = index;
-        });
-      }
-    } else {
-      // Adding to main form area
-      const insertPosition = position ?? updatedSchema.items.length;
-      updatedSchema.items.splice(insertPosition, 0, newField);
-
-      updatedSchema.items.forEach((item, index) => {
-        if (isFormField(item)) {
-          item.order = index;
-        } else {
-          item.order = index;
-        }
-      });
-    }
-
-    onSchemaChange(updatedSchema);
+    onSchemaChange(addField(schema, newField, targetId, position));
     onFieldSelect(newField.id);
   };
 
@@ -194,97 +191,16 @@ export const FormCanvas: React.FC<FormCanvasProps> = ({
     targetId?: string,
     position?: number,
   ) => {
-    const updatedSchema = { ...schema };
-    let sourceField: FormField | null = null;
-    let sourceLocation: {
-      type: "main" | "section";
-      index: number;
-      sectionId?: string;
-    } | null = null;
-
-    // Find and remove the field
-    for (let i = 0; i < updatedSchema.items.length; i++) {
-      const item = updatedSchema.items[i];
-      if (isFormField(item) && item.id === fieldId) {
-        sourceField = item;
-        sourceLocation = { type: "main", index: i };
-        updatedSchema.items.splice(i, 1);
-        break;
-      } else if (isFormSection(item)) {
-        const fieldIndex = item.fields.findIndex((f) => f.id === fieldId);
-        if (fieldIndex >= 0) {
-          sourceField = item.fields[fieldIndex];
-          sourceLocation = {
-            type: "section",
-            index: fieldIndex,
-            sectionId: item.id,
-          };
-          item.fields.splice(fieldIndex, 1);
-          break;
-        }
-      }
-    }
-
-    if (!sourceField || !sourceLocation) return;
-
-    // Add field to new position
-    if (targetId) {
-      const sectionIndex = updatedSchema.items.findIndex(
-        (item) => isFormSection(item) && item.id === targetId,
-      );
-      if (sectionIndex >= 0) {
-        const section = updatedSchema.items[sectionIndex] as FormSection;
-        const insertPosition = position ?? section.fields.length;
-        section.fields.splice(insertPosition, 0, sourceField);
-
-        section.fields.forEach((field, index) => {
-          field.order = index;
-        });
-      }
-    } else {
-      const insertPosition = position ?? updatedSchema.items.length;
-      updatedSchema.items.splice(insertPosition, 0, sourceField);
-
-      updatedSchema.items.forEach((item, index) => {
-        if (isFormField(item)) {
-          item.order = index;
-        } else {
-          item.order = index;
-        }
-      });
-    }
-
-    // Reorder source location if it was a section
-    if (sourceLocation.type === "section" && sourceLocation.sectionId) {
-      const sourceSection = updatedSchema.items.find(
-        (item) => isFormSection(item) && item.id === sourceLocation.sectionId,
-      ) as FormSection;
-      if (sourceSection) {
-        sourceSection.fields.forEach((field, index) => {
-          field.order = index;
-        });
-      }
-    }
-
-    onSchemaChange(updatedSchema);
+    onSchemaChange(moveField(schema, fieldId, targetId, position));
   };
 
-  const handleReorderSection = (sectionId: string, newPosition?: number) => {
-    const updatedSchema = { ...schema };
-    const sectionIndex = updatedSchema.items.findIndex(
-      (item) => isFormSection(item) && item.id === sectionId,
-    );
-
-    if (sectionIndex >= 0 && newPosition !== undefined) {
-      const [section] = updatedSchema.items.splice(sectionIndex, 1);
-      updatedSchema.items.splice(newPosition, 0, section);
-
-      // Reorder all items
-      updatedSchema.items.forEach((item, index) => {
-        item.order = index;
-      });
-
-      onSchemaChange(updatedSchema);
+  const handleReorderSection = (
+    sectionId: string,
+    targetId?: string,
+    newPosition?: number,
+  ) => {
+    if (newPosition !== undefined) {
+      onSchemaChange(moveSection(schema, sectionId, newPosition, targetId));
     }
   };
 
@@ -292,187 +208,59 @@ export const FormCanvas: React.FC<FormCanvasProps> = ({
     draggedSectionId: string,
     targetPosition?: number,
   ) => {
-    const updatedSchema = { ...schema };
-    const draggedIndex = updatedSchema.items.findIndex(
-      (item) => isFormSection(item) && item.id === draggedSectionId,
-    );
-
-    if (draggedIndex !== -1 && targetPosition !== undefined) {
-      const [draggedSection] = updatedSchema.items.splice(draggedIndex, 1);
-      updatedSchema.items.splice(targetPosition, 0, draggedSection);
-
-      // Reorder all items
-      updatedSchema.items.forEach((item, index) => {
-        item.order = index;
-      });
-
-      onSchemaChange(updatedSchema);
-    }
-  };
-
-  const handleMoveSectionUp = (sectionId: string) => {
-    const updatedSchema = { ...schema };
-    const currentIndex = updatedSchema.items.findIndex(
-      (item) => isFormSection(item) && item.id === sectionId,
-    );
-
-    if (currentIndex > 0) {
-      // Find the previous section or field
-      let targetIndex = currentIndex - 1;
-
-      // Move the section
-      const [section] = updatedSchema.items.splice(currentIndex, 1);
-      updatedSchema.items.splice(targetIndex, 0, section);
-
-      // Reorder all items
-      updatedSchema.items.forEach((item, index) => {
-        item.order = index;
-      });
-
-      onSchemaChange(updatedSchema);
+    if (targetPosition !== undefined) {
+      onSchemaChange(moveSection(schema, draggedSectionId, targetPosition));
     }
   };
 
-  const handleMoveSectionDown = (sectionId: string) => {
-    const updatedSchema = { ...schema };
-    const currentIndex = updatedSchema.items.findIndex(
-      (item) => isFormSection(item) && item.id === sectionId,
+  // Sections move among the items of their own container
+  const handleMoveSection = (sectionId: string, offset: number) => {
+    const location = findFieldLocation(schema, sectionId);
+    if (!location || location.index + offset < 0) return;
+
+    onSchemaChange(
+      moveSection(
+        schema,
+        sectionId,
+        location.index + offset,
+        location.sectionId ?? undefined,
+      ),
     );
-
-    if (currentIndex < updatedSchema.items.length - 1) {
-      // Find the next section or field
-      let targetIndex = currentIndex + 1;
-
-      // Move the section
-      const [section] = updatedSchema.items.splice(currentIndex, 1);
-      updatedSchema.items.splice(targetIndex, 0, section);
-
-      // Reorder all items
-      updatedSchema.items.forEach((item, index) => {
-        item.order = index;
-      });
-
-      onSchemaChange(updatedSchema);
-    }
   };
 
   const handleUpdateField = (fieldId: string, updates: Partial<FormField>) => {
-    const updatedSchema = { ...schema };
-
-    for (const item of updatedSchema.items) {
-      if (isFormField(item) && item.id === fieldId) {
-        Object.assign(item, updates);
-        break;
-      } else if (isFormSection(item)) {
-        const field = item.fields.find((f) => f.id === fieldId);
-        if (field) {
-          Object.assign(field, updates);
-          break;
-        }
-      }
-    }
+    const field = findField(schema, fieldId);
+    if (!field) return;
 
-    onSchemaChange(updatedSchema);
+    onSchemaChange(updateField(schema, fieldId, updates), {
+      coalesceKey: textEditKey(field, updates),
+    });
   };
 
   const handleDeleteField = (fieldId: string) => {
-    const updatedSchema = { ...schema };
-
-    for (let i = 0; i < updatedSchema.items.length; i++) {
-      const item = updatedSchema.items[i];
-      if (isFormField(item) && item.id === fieldId) {
-        updatedSchema.items.splice(i, 1);
-        break;
-      } else if (isFormSection(item)) {
-        const fieldIndex = item.fields.findIndex((f) => f.id === fieldId);
-        if (fieldIndex >= 0) {
-          item.fields.splice(fieldIndex, 1);
-          item.fields.forEach((field, index) => {
-            field.order = index;
-          });
-          break;
-        }
-      }
-    }
-
-    updatedSchema.items.forEach((item, index) => {
-      if (isFormField(item)) {
-        item.order = index;
-      } else {
-        item.order = index;
-      }
-    });
-
-    onSchemaChange(updatedSchema);
+    onSchemaChange(deleteField(schema, fieldId));
     if (selectedField === fieldId) {
       onFieldSelect(null);
     }
   };
 
   const handleCloneField = (fieldId: string) => {
-    const updatedSchema = { ...schema };
-
-    for (let i = 0; i < updatedSchema.items.length; i++) {
-      const item = updatedSchema.items[i];
-      if (isFormField(item) && item.id === fieldId) {
-        const clonedField: FormField = {
-          ...item,
-          id: generateId(),
-          label: `${item.label} (Copy)`,
-          order: i + 1,
-        };
-        updatedSchema.items.splice(i + 1, 0, clonedField);
-        break;
-      } else if (isFormSection(item)) {
-        const fieldIndex = item.fields.findIndex((f) => f.id === fieldId);
-        if (fieldIndex >= 0) {
-          const originalField = item.fields[fieldIndex];
-          const clonedField: FormField = {
-            ...originalField,
-            id: generateId(),
-            label: `${originalField.label} (Copy)`,
-            order: fieldIndex + 1,
-          };
-          item.fields.splice(fieldIndex + 1, 0, clonedField);
-          item.fields.forEach((field, index) => {
-            field.order = index;
-          });
-          break;
-        }
-      }
-    }
-
-    onSchemaChange(updatedSchema);
+    onSchemaChange(cloneField(schema, fieldId));
   };
 
-  const handleAddSection = () => {
+  const handleAddSection = (parentId?: string) => {
     const newSection = createDefaultSection();
-    newSection.order = schema.items.length;
-
-    const updatedSchema = {
-      ...schema,
-      items: [...schema.items, newSection],
-    };
 
-    setOpenSections((prev) => ({ ...prev, [newSection.id]: true }));
-    onSchemaChange(updatedSchema);
+    setOpenSections((prev) => ({
+      ...prev,
+      [newSection.id]: true,
+      ...(parentId && { [parentId]: true }),
+    }));
+    onSchemaChange(addSection(schema, newSection, undefined, parentId));
   };
 
   const handleDeleteSection = (sectionId: string) => {
-    const updatedSchema = { ...schema };
-    const sectionIndex = updatedSchema.items.findIndex(
-      (item) => isFormSection(item) && item.id === sectionId,
-    );
-
-    if (sectionIndex >= 0) {
-      updatedSchema.items.splice(sectionIndex, 1);
-
-      updatedSchema.items.forEach((item, index) => {
-        item.order = index;
-      });
-
-      onSchemaChange(updatedSchema);
-    }
+    onSchemaChange(deleteSection(schema, sectionId));
   };
 
   const handleHeaderUpdate = (
@@ -484,22 +272,42 @@ export const FormCanvas: React.FC<FormCanvasProps> = ({
       [field]: value,
       updatedAt: new Date(),
     };
+    onSchemaChange(updatedSchema, { coalesceKey: `header:${field}` });
+  };
+
+  // Responses are accepted until the end of the chosen day
+  const handleClosesAtChange = (value: string) => {
+    const updatedSchema = {
+      ...schema,
+      closesAt: value ? new Date(`${value}T23:59:59.999`) : undefined,
+      updatedAt: new Date(),
+    };
     onSchemaChange(updatedSchema);
   };
 
+  const handleRulesChange = (rules: CrossFieldRule[] | undefined) => {
+    onSchemaChange({ ...schema, rules, updatedAt: new Date() });
+  };
+
   const handleSectionUpdate = (
     sectionId: string,
     field: "title" | "description",
     value: string,
   ) => {
-    const updatedSchema = { ...schema };
-    const section = updatedSchema.items.find(
-      (item) => isFormSection(item) && item.id === sectionId,
-    ) as FormSection;
-    if (section) {
-      section[field] = value;
-      onSchemaChange(updatedSchema);
-    }
+    onSchemaChange(updateSection(schema, sectionId, { [field]: value }), {
+      coalesceKey: `section:${sectionId}:${field}`,
+    });
+  };
+
+  // Visibility and branching rules are edited as a whole per change
+  const handleSectionRulesChange = (
+    sectionId: string,
+    updates: Pick<
+      Partial<FormSection>,
+      "visibleWhen" | "navigation" | "repeat"
+    >,
+  ) => {
+    onSchemaChange(updateSection(schema, sectionId, updates));
   };
 
   const toggleSectionEditing = (
@@ -526,6 +334,282 @@ export const FormCanvas: React.FC<FormCanvasProps> = ({
   // Calculate section numbering - only count sections, not standalone fields
   const sections = schema.items.filter((item) => isFormSection(item));
   const totalSections = sections.length;
+  const allFields = getAllFields(schema.items);
+  // Fields of repeatable sections are answered per entry, the form's rules
+  // only compare fields answered once
+  const repeatedFieldIds = new Set(
+    getRepeatableSections(schema).flatMap((section) =>
+      getAllFields(section.fields).map((field) => field.id),
+    ),
+  );
+  const ruleFields = allFields.filter((f) => !repeatedFieldIds.has(f.id));
+  // Invalid and circular formulas of calculated fields
+  const formulaErrors = buildFormulaGraph(schema).errors;
+
+  const renderField = (field: FormField) => (
+    <div data-field-id={field.id}>
+      <FieldEditor
+        field={field}
+        isSelected={selectedField === field.id}
+        onSelect={() => onFieldSelect(field.id)}
+        onUpdate={(updates) => handleUpdateField(field.id, updates)}
+        onDelete={() => handleDeleteField(field.id)}
+        onClone={() => handleCloneField(field.id)}
+        conditionFields={allFields.filter((f) => f.id !== field.id)}
+        formulaError={formulaErrors[field.id]}
+      />
+    </div>
+  );
+
+  // Fields and sections of one container; subsections are numbered after
+  // their parent, e.g. 2.1
+  const renderItems = (
+    items: FormItem[],
+    parentNumber?: string,
+    insideRepeat = false,
+  ) => {
+    const siblingSections = items.filter(isFormSection);
+
+    return items.map((item) => {
+      const number = `${parentNumber ? `${parentNumber}.` : ""}${
+        siblingSections.indexOf(item as FormSection) + 1
+      }`;
+
+      return (
+        <div key={item.id} data-item-id={item.id}>
+          {isFormField(item)
+            ? renderField(item)
+            : renderSection(item, number, items, insideRepeat)}
+        </div>
+      );
+    });
+  };
+
+  const renderSection = (
+    section: FormSection,
+    number: string,
+    siblings: FormItem[],
+    insideRepeat: boolean,
+  ) => {
+    const isTopLevel = siblings === schema.items;
+    const siblingIndex = siblings.indexOf(section);
+    const ownFieldIds = new Set(
+      getAllFields(section.fields).map((field) => field.id),
+    );
+
+    return (
+      <Collapsible
+        open={openSections[section.id] ?? true}
+        onOpenChange={() => toggleSection(section.id)}
+      >
+        <div className={styles.formSection}>
+          {/* Section Header, dragged to move the section into another one */}
+          <div
+            className={styles.sectionHeader}
+            draggable
+            onDragStart={(e) =>
+              onDragStart(e, {
+                id: section.id,
+                type: "section-reorder",
+                data: { sectionId: section.id },
+              })
+            }
+            onDragEnd={onDragEnd}
+          >
+            <div className={styles.sectionHeaderLeft}>
+              <GripVertical className="w-4 h-4 cursor-grab" />
+              <CollapsibleTrigger>
+                {openSections[section.id] ? (
+                  <ChevronDown className="w-4 h-4" />
+                ) : (
+                  <ChevronRight className="w-4 h-4" />
+                )}
+              </CollapsibleTrigger>
+              <span className={styles.sectionBadge}>
+                Section {number}
+                {isTopLevel && ` of ${totalSections}`}
+              </span>
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-white hover:bg-indigo-700"
+                >
+                  <MoreHorizontal className="w-4 h-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent>
+                <DropdownMenuItem
+                  onClick={() => handleMoveSection(section.id, -1)}
+                  disabled={siblingIndex === 0}
+                >
+                  <ArrowUp className="w-4 h-4 mr-2" />
+                  Move Up
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => handleMoveSection(section.id, 1)}
+                  disabled={siblingIndex === siblings.length - 1}
+                >
+                  <ArrowDown className="w-4 h-4 mr-2" />
+                  Move Down
+                </DropdownMenuItem>
+                {isTopLevel && (
+                  <DropdownMenuItem
+                    onClick={() => setShowSectionMoveDialog(true)}
+                  >
+                    <Move className="w-4 h-4 mr-2" />
+                    Rearrange Sections
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem onClick={() => handleAddSection(section.id)}>
+                  <Folder className="w-4 h-4 mr-2" />
+                  Add Subsection
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => handleDeleteSection(section.id)}
+                  className="text-red-600"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete Section
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+
+          <CollapsibleContent>
+            {/* Section Details */}
+            <div className={styles.sectionDetails}>
+              {editingSections[section.id]?.title ? (
+                <Input
+                  value={section.title}
+                  onChange={(e) =>
+                    handleSectionUpdate(section.id, "title", e.target.value)
+                  }
+                  onBlur={() =>
+                    toggleSectionEditing(section.id, "title", false)
+                  }
+                  onKeyPress={(e) =>
+                    e.key === "Enter" &&
+                    toggleSectionEditing(section.id, "title", false)
+                  }
+                  className="text-lg font-semibold border-2 border-indigo-300 rounded px-2 py-1"
+                  autoFocus
+                />
+              ) : (
+                <h3
+                  className={styles.sectionTitle}
+                  onClick={() =>
+                    toggleSectionEditing(section.id, "title", true)
+                  }
+                >
+                  {section.title}
+                </h3>
+              )}
+
+              {editingSections[section.id]?.description ? (
+                <Textarea
+                  value={section.description || ""}
+                  onChange={(e) =>
+                    handleSectionUpdate(
+                      section.id,
+                      "description",
+                      e.target.value,
+                    )
+                  }
+                  onBlur={() =>
+                    toggleSectionEditing(section.id, "description", false)
+                  }
+                  className="text-sm border-2 border-indigo-300 rounded px-2 py-1 resize-none"
+                  placeholder="Section description"
+                  rows={2}
+                  autoFocus
+                />
+              ) : (
+                <p
+                  className={styles.sectionDescription}
+                  onClick={() =>
+                    toggleSectionEditing(section.id, "description", true)
+                  }
+                >
+                  {section.description || ""}
+                </p>
+              )}
+
+              <VisibilityRuleEditor
+                rule={section.visibleWhen}
+                fields={allFields.filter((f) => !ownFieldIds.has(f.id))}
+                onChange={(visibleWhen) =>
+                  handleSectionRulesChange(section.id, { visibleWhen })
+                }
+              />
+              {/* Subsections of a repeatable section repeat with it */}
+              {!insideRepeat && (
+                <SectionRepeatEditor
+                  section={section}
+                  onChange={(repeat) =>
+                    handleSectionRulesChange(section.id, { repeat })
+                  }
+                />
+              )}
+            </div>
+
+            {/* Section Drop Zone */}
+            <div
+              className={cn(
+                styles.sectionDropZone,
+                dropTarget === section.id && styles.active,
+              )}
+              data-drop-target={section.id}
+              onDragOver={onDragOver}
+              onDragEnter={onDragEnter}
+              onDragLeave={onDragLeave}
+              onDrop={(e) => {
+                const position = getDropZonePosition(e);
+                onDrop(e, section.id, position);
+              }}
+            >
+              {section.fields.length === 0 ? (
+                <div className={styles.emptyDropZone}>
+                  <div className={styles.emptyContent}>
+                    <GripVertical className={styles.emptyIcon} />
+                    <p className={styles.emptyText}>Drop fields here</p>
+                  </div>
+                </div>
+              ) : (
+                <div className={styles.fieldsContainer}>
+                  {renderItems(
+                    section.fields,
+                    number,
+                    insideRepeat || !!section.repeat,
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Section Branching, between the top level sections only */}
+            {isTopLevel &&
+              getAllFields(section.fields).some(
+                (f) => f.type === "dropdown",
+              ) && (
+                <div className={styles.sectionBranching}>
+                  <SectionNavigationEditor
+                    section={section}
+                    laterSections={sections
+                      .slice(sections.indexOf(section) + 1)
+                      .filter(isFormSection)}
+                    onChange={(navigation) =>
+                      handleSectionRulesChange(section.id, { navigation })
+                    }
+                  />
+                </div>
+              )}
+          </CollapsibleContent>
+        </div>
+      </Collapsible>
+    );
+  };
 
   return (
     <div ref={canvasRef} className={styles.canvas}>
@@ -571,6 +655,25 @@ export const FormCanvas: React.FC<FormCanvasProps> = ({
                 </p>
               </div>
             )}
+            <div className={styles.headerSettings}>
+              <label htmlFor="form-closes-at">Accept responses until</label>
+              <Input
+                id="form-closes-at"
+                type="date"
+                value={
+                  schema.closesAt ? format(schema.closesAt, "yyyy-MM-dd") : ""
+                }
+                onChange={(e) => handleClosesAtChange(e.target.value)}
+                className={styles.closesAtInput}
+              />
+            </div>
+            <div className={styles.formRules}>
+              <FormRulesEditor
+                rules={schema.rules}
+                fields={ruleFields}
+                onChange={handleRulesChange}
+              />
+            </div>
           </div>
         </div>
 
@@ -600,217 +703,7 @@ export const FormCanvas: React.FC<FormCanvasProps> = ({
             </div>
           ) : (
             <div className={styles.fieldsContainer}>
-              {schema.items.map((item, index) => (
-                <div key={item.id} data-item-id={item.id}>
-                  {isFormField(item) ? (
-                    <div data-field-id={item.id}>
-                      <FieldEditor
-                        field={item}
-                        isSelected={selectedField === item.id}
-                        onSelect={() => onFieldSelect(item.id)}
-                        onUpdate={(updates) =>
-                          handleUpdateField(item.id, updates)
-                        }
-                        onDelete={() => handleDeleteField(item.id)}
-                        onClone={() => handleCloneField(item.id)}
-                      />
-                    </div>
-                  ) : (
-                    <Collapsible
-                      open={openSections[item.id] ?? true}
-                      onOpenChange={() => toggleSection(item.id)}
-                    >
-                      <div className={styles.formSection}>
-                        {/* Section Header */}
-                        <div className={styles.sectionHeader}>
-                          <div className={styles.sectionHeaderLeft}>
-                            <CollapsibleTrigger>
-                              {openSections[item.id] ? (
-                                <ChevronDown className="w-4 h-4" />
-                              ) : (
-                                <ChevronRight className="w-4 h-4" />
-                              )}
-                            </CollapsibleTrigger>
-                            <span className={styles.sectionBadge}>
-                              Section{" "}
-                              {sections.findIndex((s) => s.id === item.id) + 1}{" "}
-                              of {totalSections}
-                            </span>
-                          </div>
-                          <DropdownMenu>
-                            <DropdownMenuTrigger asChild>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                className="text-white hover:bg-indigo-700"
-                              >
-                                <MoreHorizontal className="w-4 h-4" />
-                              </Button>
-                            </DropdownMenuTrigger>
-                            <DropdownMenuContent>
-                              <DropdownMenuItem
-                                onClick={() => handleMoveSectionUp(item.id)}
-                                disabled={
-                                  sections.findIndex(
-                                    (s) => s.id === item.id,
-                                  ) === 0
-                                }
-                              >
-                                <ArrowUp className="w-4 h-4 mr-2" />
-                                Move Up
-                              </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => handleMoveSectionDown(item.id)}
-                                disabled={
-                                  sections.findIndex(
-                                    (s) => s.id === item.id,
-                                  ) ===
-                                  sections.length - 1
-                                }
-                              >
-                                <ArrowDown className="w-4 h-4 mr-2" />
-                                Move Down
-                              </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => setShowSectionMoveDialog(true)}
-                              >
-                                <Move className="w-4 h-4 mr-2" />
-                                Rearrange Sections
-                              </DropdownMenuItem>
-                              <DropdownMenuItem
-                                onClick={() => handleDeleteSection(item.id)}
-                                className="text-red-600"
-                              >
-                                <Trash2 className="w-4 h-4 mr-2" />
-                                Delete Section
-                              </DropdownMenuItem>
-                            </DropdownMenuContent>
-                          </DropdownMenu>
-                        </div>
-
-                        <CollapsibleContent>
-                          {/* Section Details */}
-                          <div className={styles.sectionDetails}>
-                            {editingSections[item.id]?.title ? (
-                              <Input
-                                value={item.title}
-                                onChange={(e) =>
-                                  handleSectionUpdate(
-                                    item.id,
-                                    "title",
-                                    e.target.value,
-                                  )
-                                }
-                                onBlur={() =>
-                                  toggleSectionEditing(item.id, "title", false)
-                                }
-                                onKeyPress={(e) =>
-                                  e.key === "Enter" &&
-                                  toggleSectionEditing(item.id, "title", false)
-                                }
-                                className="text-lg font-semibold border-2 border-indigo-300 rounded px-2 py-1"
-                                autoFocus
-                              />
-                            ) : (
-                              <h3
-                                className={styles.sectionTitle}
-                                onClick={() =>
-                                  toggleSectionEditing(item.id, "title", true)
-                                }
-                              >
-                                {item.title}
-                              </h3>
-                            )}
-
-                            {editingSections[item.id]?.description ? (
-                              <Textarea
-                                value={item.description || ""}
-                                onChange={(e) =>
-                                  handleSectionUpdate(
-                                    item.id,
-                                    "description",
-                                    e.target.value,
-                                  )
-                                }
-                                onBlur={() =>
-                                  toggleSectionEditing(
-                                    item.id,
-                                    "description",
-                                    false,
-                                  )
-                                }
-                                className="text-sm border-2 border-indigo-300 rounded px-2 py-1 resize-none"
-                                placeholder="Section description"
-                                rows={2}
-                                autoFocus
-                              />
-                            ) : (
-                              <p
-                                className={styles.sectionDescription}
-                                onClick={() =>
-                                  toggleSectionEditing(
-                                    item.id,
-                                    "description",
-                                    true,
-                                  )
-                                }
-                              >
-                                {item.description || ""}
-                              </p>
-                            )}
-                          </div>
-
-                          {/* Section Drop Zone */}
-                          <div
-                            className={cn(
-                              styles.sectionDropZone,
-                              dropTarget === item.id && styles.active,
-                            )}
-                            data-drop-target={item.id}
-                            onDragOver={onDragOver}
-                            onDragEnter={onDragEnter}
-                            onDragLeave={onDragLeave}
-                            onDrop={(e) => {
-                              const position = getDropZonePosition(e, item.id);
-                              onDrop(e, item.id, position);
-                            }}
-                          >
-                            {item.fields.length === 0 ? (
-                              <div className={styles.emptyDropZone}>
-                                <div className={styles.emptyContent}>
-                                  <GripVertical className={styles.emptyIcon} />
-                                  <p className={styles.emptyText}>
-                                    Drop fields here
-                                  </p>
-                                </div>
-                              </div>
-                            ) : (
-                              <div className={styles.fieldsContainer}>
-                                {item.fields.map((field) => (
-                                  <div key={field.id} data-field-id={field.id}>
-                                    <FieldEditor
-                                      field={field}
-                                      isSelected={selectedField === field.id}
-                                      onSelect={() => onFieldSelect(field.id)}
-                                      onUpdate={(updates) =>
-                                        handleUpdateField(field.id, updates)
-                                      }
-                                      onDelete={() =>
-                                        handleDeleteField(field.id)
-                                      }
-                                      onClone={() => handleCloneField(field.id)}
-                                    />
-                                  </div>
-                                ))}
-                              </div>
-                            )}
-                          </div>
-                        </CollapsibleContent>
-                      </div>
-                    </Collapsible>
-                  )}
-                </div>
-              ))}
+              {renderItems(schema.items)}
             </div>
           )}
         </div>
@@ -819,7 +712,7 @@ export const FormCanvas: React.FC<FormCanvasProps> = ({
         <div className={styles.addSectionContainer}>
           <Button
             variant="outline"
-            onClick={handleAddSection}
+            onClick={() => handleAddSection()}
             className={styles.addSectionButton}
           >
             <Folder className="w-4 h-4" />
@@ -887,7 +780,7 @@ export const FormCanvas: React.FC<FormCanvasProps> = ({
                       {section.title}
                     </div>
                     <div className="text-xs text-gray-500">
-                      {section.fields.length} field(s)
+                      {getAllFields(section.fields).length} field(s)
                     </div>
                   </div>
                 </div>
@@ -1,16 +1,53 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef } from "react";
 import {
   FormSchema,
   FormField,
-  FormItem,
+  FormSection,
   DropdownProperties,
   DatePickerProperties,
+  DateRangeProperties,
+  DateTimeProperties,
   FileUploadProperties,
+  TimeFormat,
+  TimeProperties,
+  getAllFields,
+  getAllSections,
+  isDateRangeAnswer,
   isFormField,
   isFormSection,
-  getAllFields,
+  isOtherAnswer,
+  OtherAnswer,
 } from "@/lib/form-schema";
-import { validateForm, ValidationResult } from "@/lib/form-validation";
+import { omitHiddenValues } from "@shared/visibility";
+import {
+  DEFAULT_DATE_FORMAT,
+  DEFAULT_TIME_FORMAT,
+  formatDateAnswer,
+  formatTime,
+  getAnswerTime,
+  getDateLimits,
+  getTimeSlots,
+  isDayAllowed,
+  parseDateAnswer,
+  parseDateInput,
+  parseDateTimeAnswer,
+  toDateTimeAnswer,
+  toIsoDay,
+} from "@shared/dates";
+import { removeBlankEntries } from "@shared/repeatable-sections";
+import {
+  validateEntries,
+  validateField,
+  validateForm,
+  ValidationError,
+  ValidationResult,
+} from "@shared/form-validation";
+import { validateCrossFieldRules } from "@shared/cross-field-rules";
+import { ApiError } from "@/lib/api-client";
+import { hasAsyncValidation } from "@/lib/async-validation";
+import { useAsyncValidation } from "@/hooks/useAsyncValidation";
+import { EntryLocation, useFormAnswers } from "@/hooks/useFormAnswers";
+import { createSectionRenderer } from "./SectionItems";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
@@ -30,32 +67,33 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import {
-  Collapsible,
-  CollapsibleContent,
-  CollapsibleTrigger,
-} from "@/components/ui/collapsible";
 import {
   CalendarIcon,
+  CalendarClock,
+  CalendarRange,
+  Clock,
   Upload,
   ChevronRight,
-  ChevronDown,
+  ChevronLeft,
   RotateCcw,
   CheckCircle2,
   Download,
   Trash2,
+  Loader2,
 } from "lucide-react";
-import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 
 interface FormRendererProps {
   schema: FormSchema;
+  // The published version being filled in, for the server's answer checks
+  formVersionId?: string;
   values?: Record<string, any>;
   onValuesChange?: (values: Record<string, any>) => void;
+  // The thank-you view waits for a returned promise and is skipped if it rejects
   onSubmit?: (
     values: Record<string, any>,
     validation: ValidationResult,
-  ) => void;
+  ) => void | Promise<void>;
   mode?: "preview" | "response";
   className?: string;
 }
@@ -66,96 +104,153 @@ interface SubmittedFormData {
   submittedAt: Date;
 }
 
+// The select item for "Other"; the answer itself is stored as { other: text }
+const OTHER_OPTION = "__other__";
+
 export const FormRenderer: React.FC<FormRendererProps> = ({
   schema,
+  formVersionId,
   values = {},
   onValuesChange,
   onSubmit,
   mode = "response",
   className,
 }) => {
-  const [formValues, setFormValues] = useState<Record<string, any>>(values);
-  const [validationErrors, setValidationErrors] = useState<
-    Record<string, string>
-  >({});
+  const answers = useFormAnswers({
+    schema,
+    initialValues: values,
+    onValuesChange,
+  });
+  const {
+    values: formValues,
+    errors: validationErrors,
+    hiddenItems,
+    isShown,
+    hasShownFields,
+    repeatableSections,
+    repeatedFieldIds,
+    showErrors,
+    getSectionProgress,
+    canSubmit,
+  } = answers;
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [openSections, setOpenSections] = useState<Record<string, boolean>>({});
+  // Next waits for the answer checks of the current step
+  const [isCheckingStep, setIsCheckingStep] = useState(false);
+  // Forms with sections are filled in one section at a time
+  const [currentSectionId, setCurrentSectionId] = useState<string | null>(null);
+  const [collapsedSections, setCollapsedSections] = useState<
+    Record<string, boolean>
+  >({});
+  // Dates as typed, until they're complete and the field loses focus
+  const [dateDrafts, setDateDrafts] = useState<Record<string, string>>({});
   const [isSubmitted, setIsSubmitted] = useState(false);
   const [submittedData, setSubmittedData] = useState<SubmittedFormData | null>(
     null,
   );
   const contentRef = useRef<HTMLDivElement>(null);
+  // Server-backed checks, e.g. an email that has already responded
+  const asyncValidation = useAsyncValidation(schema.id, formVersionId);
+  const asyncErrors = Object.fromEntries(
+    asyncValidation.errors.map((error) => [error.fieldId, error.message]),
+  );
 
-  // Initialize all sections as open by default
-  useEffect(() => {
-    const initialOpenState: Record<string, boolean> = {};
-    schema.items.forEach((item) => {
-      if (isFormSection(item)) {
-        initialOpenState[item.id] = true;
-      }
-    });
-    setOpenSections(initialOpenState);
-  }, [schema.items]);
-
-  const updateValue = (fieldId: string, value: any) => {
-    const newValues = { ...formValues, [fieldId]: value };
-    setFormValues(newValues);
-    onValuesChange?.(newValues);
-
-    // Clear validation error for this field
-    if (validationErrors[fieldId]) {
-      setValidationErrors((prev) => {
-        const { [fieldId]: _, ...rest } = prev;
-        return rest;
-      });
+  // Skipped sections are hidden, so this is the respondent's path
+  const sectionsWithFields = schema.items.filter(
+    (item): item is FormSection => isFormSection(item) && hasShownFields(item),
+  );
+  const hasAnySections = sectionsWithFields.length > 0;
+  const standaloneFields = schema.items.filter(
+    (item): item is FormField => isFormField(item) && isShown(item),
+  );
+
+  const currentStep = Math.max(
+    0,
+    sectionsWithFields.findIndex((section) => section.id === currentSectionId),
+  );
+  const currentSection = sectionsWithFields[currentStep];
+  const isLastStep = currentStep >= sectionsWithFields.length - 1;
+  const visitedSections = sectionsWithFields.slice(0, currentStep + 1);
+  // Top level fields are asked together with the first section, subsections
+  // together with their parent; fields of a repeatable section are validated
+  // per entry instead
+  const stepFields = [
+    ...(currentStep === 0 ? standaloneFields : []),
+    ...(currentSection ? getAllFields(currentSection.fields) : []),
+  ].filter((field) => isShown(field) && !repeatedFieldIds.has(field.id));
+  const stepRepeatables = currentSection
+    ? [currentSection, ...getAllSections(currentSection.fields)].filter(
+        (section) => isShown(section) && repeatableSections.includes(section),
+      )
+    : [];
+
+  const updateValue = (field: FormField, value: any, entry?: EntryLocation) => {
+    answers.updateValue(field, value, entry);
+    // Answer checks run for fields answered once, and the preview doesn't
+    // belong to a published form to check against
+    if (!entry && mode === "response" && hasAsyncValidation(field)) {
+      asyncValidation.schedule(field, value);
     }
   };
 
   const handleClear = () => {
-    setFormValues({});
-    setValidationErrors({});
-    onValuesChange?.({});
+    answers.clear();
+    asyncValidation.cancelAll();
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    // Enter in a field moves on rather than submitting part of the form
+    if (hasAnySections && !isLastStep) {
+      handleNext();
+      return;
+    }
     setIsSubmitting(true);
 
-    // Create a temporary schema with sections for validation
-    const tempSchema = {
-      ...schema,
-      sections: [
-        {
-          id: "temp",
-          title: "Form",
-          description: "",
-          fields: getAllFields(schema.items),
-          order: 0,
-        },
-      ],
-    };
-
-    const validation = validateForm(tempSchema, formValues);
+    let validation = validateForm(schema, formValues);
+    // Submitting waits for the answer checks still running
+    if (validation.isValid) {
+      const asyncErrors = await settleAsyncErrors(
+        getAllFields(schema.items).filter(isShown),
+      );
+      if (asyncErrors.length > 0) {
+        validation = { isValid: false, errors: asyncErrors };
+      }
+    }
+    // Answers left behind in questions that are now hidden aren't submitted,
+    // nor are entries of repeatable sections that were left blank
+    const submitted = removeBlankEntries(
+      schema,
+      omitHiddenValues(formValues, hiddenItems),
+    );
 
     if (!validation.isValid) {
-      const errorMap: Record<string, string> = {};
-      validation.errors.forEach((error) => {
-        errorMap[error.fieldId] = error.message;
-      });
-      setValidationErrors(errorMap);
-    } else {
-      setValidationErrors({});
-      // Save submitted data
-      const submissionData: SubmittedFormData = {
-        schema,
-        values: formValues,
-        submittedAt: new Date(),
-      };
-      setSubmittedData(submissionData);
-      setIsSubmitted(true);
+      showErrors(validation.errors);
+      onSubmit?.(submitted, validation);
+      setIsSubmitting(false);
+      return;
     }
 
-    onSubmit?.(formValues, validation);
+    showErrors([]);
+    try {
+      await onSubmit?.(submitted, validation);
+    } catch (error) {
+      // The caller reports the failure, keep the answers so they can retry.
+      // Answers the server rejected are marked like the ones checked here
+      if (error instanceof ApiError && error.errors) {
+        showErrors(error.errors);
+      }
+      setIsSubmitting(false);
+      return;
+    }
+
+    // Save submitted data
+    const submissionData: SubmittedFormData = {
+      schema,
+      values: submitted,
+      submittedAt: new Date(),
+    };
+    setSubmittedData(submissionData);
+    setIsSubmitted(true);
     setIsSubmitting(false);
   };
 
@@ -163,51 +258,98 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
     setIsSubmitted(false);
   };
 
-  const scrollToSection = (sectionId: string) => {
-    const element = document.getElementById(`section-${sectionId}`);
-    if (element && contentRef.current) {
-      element.scrollIntoView({
-        behavior: "smooth",
-        block: "start",
-      });
-    }
+  const goToStep = (index: number) => {
+    setCurrentSectionId(sectionsWithFields[index].id);
+    contentRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
   };
 
-  const toggleSection = (sectionId: string) => {
-    setOpenSections((prev) => ({
-      ...prev,
-      [sectionId]: !prev[sectionId],
-    }));
+  // The form's rules are checked once none of their fields are still to come,
+  // and only report fields of the current step
+  const validateStepRules = (): ValidationError[] => {
+    const laterFieldIds = new Set(
+      sectionsWithFields
+        .slice(currentStep + 1)
+        .flatMap((section) => getAllFields(section.fields))
+        .map((field) => field.id),
+    );
+    const rules = (schema.rules || []).filter(
+      (rule) => !rule.fieldIds.some((id) => laterFieldIds.has(id)),
+    );
+    return validateCrossFieldRules(
+      { ...schema, rules },
+      formValues,
+      hiddenItems,
+    ).filter((error) => stepFields.some((field) => field.id === error.fieldId));
   };
 
-  // Calculate progress for each section
-  const getSectionProgress = (section: any) => {
-    const totalFields = section.fields.length;
-    const answeredFields = section.fields.filter((field: FormField) => {
-      const value = formValues[field.id];
-      return value !== undefined && value !== null && value !== "";
-    }).length;
-    return { answered: answeredFields, total: totalFields };
+  // Errors of the answer checks still running for the given fields, once
+  // they're done
+  const settleAsyncErrors = async (fields: FormField[]) => {
+    const errors = await asyncValidation.settle();
+    return errors.filter((error) =>
+      fields.some((field) => field.id === error.fieldId),
+    );
   };
 
-  // Check if form can be submitted
-  const canSubmit = () => {
-    const allFields = getAllFields(schema.items);
-    const requiredFields = allFields.filter((field) => field.required);
-
-    return requiredFields.every((field) => {
-      const value = formValues[field.id];
-      return value !== undefined && value !== null && value !== "";
-    });
+  const handleNext = async () => {
+    // The preview lets the author page through without answering
+    const fieldErrors =
+      mode === "preview"
+        ? []
+        : [
+            ...stepFields.flatMap((field) =>
+              validateField(field, formValues[field.id]),
+            ),
+            ...stepRepeatables.flatMap((section) =>
+              validateEntries(section, formValues, hiddenItems),
+            ),
+          ];
+    let errors =
+      mode === "preview" || fieldErrors.length > 0
+        ? fieldErrors
+        : validateStepRules();
+    if (mode === "response" && errors.length === 0) {
+      setIsCheckingStep(true);
+      errors = await settleAsyncErrors(stepFields);
+      setIsCheckingStep(false);
+    }
+    if (errors.length > 0) {
+      showErrors(errors);
+      return;
+    }
+    goToStep(currentStep + 1);
   };
 
+  const submitLabel = !isSubmitting
+    ? "Submit"
+    : asyncValidation.pending.length > 0
+      ? "Checking answers..."
+      : "Submitting...";
+
+  // Sections further down the path haven't been seen yet and don't count
+  const getVisitedProgress = () =>
+    visitedSections.map(getSectionProgress).reduce(
+      (sum, progress) => ({
+        answered: sum.answered + progress.answered,
+        total: sum.total + progress.total,
+      }),
+      { answered: 0, total: 0 },
+    );
+
   const renderField = (
     field: FormField,
     questionNumber?: number,
     disabled = false,
+    entry?: EntryLocation,
   ) => {
-    const fieldValue = formValues[field.id];
-    const hasError = !!validationErrors[field.id];
+    const fieldKey = answers.getFieldKey(field, entry);
+    const fieldValue = answers.getFieldValue(field, entry);
+    const setValue = (value: any) => updateValue(field, value, entry);
+    // Answer checks only run for fields answered once, not per entry
+    const error =
+      validationErrors[fieldKey] || (!entry && asyncErrors[fieldKey]);
+    const isChecking = !entry && asyncValidation.pending.includes(field.id);
+    const hasError = !!error;
     const isUDF = field.type.startsWith("udf-");
 
     const fieldWrapper = (children: React.ReactNode) => (
@@ -232,15 +374,51 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         </div>
         <div className="ml-6">
           {children}
-          {hasError && (
-            <p className="text-sm text-red-600 mt-2">
-              {validationErrors[field.id]}
+          {isChecking ? (
+            <p className="text-sm text-gray-500 mt-2 flex items-center gap-1.5">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              Checking...
             </p>
+          ) : (
+            hasError && <p className="text-sm text-red-600 mt-2">{error}</p>
           )}
         </div>
       </div>
     );
 
+    // The trigger of the popover pickers, muted until there's an answer
+    const pickerButtonClass = (isEmpty: boolean) =>
+      cn(
+        "w-full justify-start text-left font-normal border-gray-300 hover:border-gray-400",
+        isEmpty && "text-gray-500",
+        hasError && "border-red-300",
+        disabled && "bg-gray-50 cursor-not-allowed",
+      );
+
+    // The times a time or date-time field offers, as a scrolling list
+    const timeSlotList = (
+      slots: string[],
+      selected: string | null,
+      timeFormat: TimeFormat,
+      onPick: (time: string) => void,
+      isDisabled = false,
+    ) => (
+      <div className="max-h-72 w-32 overflow-y-auto p-2 space-y-1">
+        {slots.map((slot) => (
+          <Button
+            key={slot}
+            variant={slot === selected ? "default" : "ghost"}
+            size="sm"
+            disabled={isDisabled}
+            onClick={() => onPick(slot)}
+            className="w-full justify-start font-normal"
+          >
+            {formatTime(slot, timeFormat)}
+          </Button>
+        ))}
+      </div>
+    );
+
     if (isUDF) {
       return fieldWrapper(
         <Input
@@ -257,7 +435,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         return fieldWrapper(
           <Input
             value={fieldValue || ""}
-            onChange={(e) => !disabled && updateValue(field.id, e.target.value)}
+            onChange={(e) => !disabled && setValue(e.target.value)}
             placeholder="Your Answer"
             disabled={disabled}
             className={cn(
@@ -273,7 +451,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         return fieldWrapper(
           <Textarea
             value={fieldValue || ""}
-            onChange={(e) => !disabled && updateValue(field.id, e.target.value)}
+            onChange={(e) => !disabled && setValue(e.target.value)}
             placeholder="Your Answer"
             rows={4}
             disabled={disabled}
@@ -291,7 +469,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
           <Input
             type="number"
             value={fieldValue || ""}
-            onChange={(e) => !disabled && updateValue(field.id, e.target.value)}
+            onChange={(e) => !disabled && setValue(e.target.value)}
             placeholder="Your Answer"
             min={(field.properties as any).min}
             max={(field.properties as any).max}
@@ -306,108 +484,358 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
           />,
         );
 
-      case "date-picker":
+      case "calculated":
+        return fieldWrapper(
+          <Input
+            value={fieldValue ?? ""}
+            readOnly
+            tabIndex={-1}
+            placeholder="Calculated from your answers"
+            className="bg-gray-50 text-gray-900 border-gray-200"
+          />,
+        );
+
+      case "date-picker": {
+        const dateProps = field.properties as DatePickerProperties;
+        const dateFormat = dateProps.dateFormat || DEFAULT_DATE_FORMAT;
+        const limits = getDateLimits(dateProps);
+        const selectedDate = parseDateAnswer(fieldValue);
+        // Text that isn't a date yet is kept, so validation can report it
+        const handleDateInput = (text: string) => {
+          if (disabled) return;
+          setDateDrafts((drafts) => ({ ...drafts, [fieldKey]: text }));
+          setValue(
+            parseDateInput(text, dateFormat) ?? (text.trim() || undefined),
+          );
+        };
+        const clearDraft = () =>
+          setDateDrafts(({ [fieldKey]: _, ...drafts }) => drafts);
+
+        return fieldWrapper(
+          <div className="flex gap-2">
+            <Input
+              value={
+                dateDrafts[fieldKey] ?? formatDateAnswer(fieldValue, dateFormat)
+              }
+              onChange={(e) => handleDateInput(e.target.value)}
+              onBlur={clearDraft}
+              placeholder={dateFormat}
+              aria-label={field.label}
+              disabled={disabled}
+              className={cn(
+                "border-gray-300 focus:border-blue-500 focus:ring-blue-500",
+                hasError &&
+                  "border-red-300 focus:border-red-500 focus:ring-red-500",
+                disabled && "bg-gray-50",
+              )}
+            />
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  disabled={disabled}
+                  aria-label="Pick a date"
+                  className={cn(
+                    "px-3 border-gray-300 hover:border-gray-400",
+                    hasError && "border-red-300",
+                    disabled && "bg-gray-50 cursor-not-allowed",
+                  )}
+                >
+                  <CalendarIcon className="h-4 w-4" />
+                </Button>
+              </PopoverTrigger>
+              {!disabled && (
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={selectedDate ?? undefined}
+                    defaultMonth={selectedDate ?? undefined}
+                    onSelect={(date) => {
+                      clearDraft();
+                      setValue(date ? toIsoDay(date) : undefined);
+                    }}
+                    disabled={(date) => !isDayAllowed(toIsoDay(date), limits)}
+                    initialFocus
+                  />
+                </PopoverContent>
+              )}
+            </Popover>
+          </div>,
+        );
+      }
+
+      case "time": {
+        const timeProps = field.properties as TimeProperties;
+        const timeFormat = timeProps.timeFormat || DEFAULT_TIME_FORMAT;
+        const time = getAnswerTime(fieldValue);
         return fieldWrapper(
           <Popover>
             <PopoverTrigger asChild>
               <Button
                 variant="outline"
                 disabled={disabled}
-                className={cn(
-                  "w-full justify-start text-left font-normal border-gray-300 hover:border-gray-400",
-                  !fieldValue && "text-gray-500",
-                  hasError && "border-red-300",
-                  disabled && "bg-gray-50 cursor-not-allowed",
+                className={pickerButtonClass(!time)}
+              >
+                <Clock className="mr-2 h-4 w-4" />
+                {time
+                  ? formatTime(time, timeFormat)
+                  : timeProps.placeholder || "Select a time"}
+              </Button>
+            </PopoverTrigger>
+            {!disabled && (
+              <PopoverContent className="w-auto p-0">
+                {timeSlotList(
+                  getTimeSlots(timeProps),
+                  time,
+                  timeFormat,
+                  setValue,
                 )}
+              </PopoverContent>
+            )}
+          </Popover>,
+        );
+      }
+
+      case "datetime": {
+        const dateTimeProps = field.properties as DateTimeProperties;
+        const dateFormat = dateTimeProps.dateFormat || DEFAULT_DATE_FORMAT;
+        const timeFormat = dateTimeProps.timeFormat || DEFAULT_TIME_FORMAT;
+        const limits = getDateLimits(dateTimeProps);
+        const slots = getTimeSlots(dateTimeProps);
+        const parts = parseDateTimeAnswer(fieldValue);
+        const selectedDay = parseDateAnswer(parts?.day) ?? undefined;
+        return fieldWrapper(
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                disabled={disabled}
+                className={pickerButtonClass(!parts)}
               >
-                <CalendarIcon className="mr-2 h-4 w-4" />
-                {fieldValue
-                  ? format(new Date(fieldValue), "PPP")
-                  : "Select a date"}
+                <CalendarClock className="mr-2 h-4 w-4" />
+                {parts
+                  ? `${formatDateAnswer(parts.day, dateFormat)} ${formatTime(parts.time, timeFormat)}`
+                  : dateTimeProps.placeholder || "Select a date and time"}
+              </Button>
+            </PopoverTrigger>
+            {!disabled && (
+              <PopoverContent className="w-auto p-0">
+                <div className="flex">
+                  <Calendar
+                    mode="single"
+                    selected={selectedDay}
+                    defaultMonth={selectedDay}
+                    onSelect={(date) =>
+                      // A new day keeps the time picked, or starts in the morning
+                      setValue(
+                        date
+                          ? toDateTimeAnswer(
+                              toIsoDay(date),
+                              parts?.time ??
+                                slots.find((slot) => slot >= "09:00") ??
+                                slots[0] ??
+                                "09:00",
+                            )
+                          : undefined,
+                      )
+                    }
+                    disabled={(date) => !isDayAllowed(toIsoDay(date), limits)}
+                    initialFocus
+                  />
+                  <div className="border-l border-gray-200">
+                    {timeSlotList(
+                      slots,
+                      parts?.time ?? null,
+                      timeFormat,
+                      (slot) => setValue(toDateTimeAnswer(parts.day, slot)),
+                      !parts,
+                    )}
+                  </div>
+                </div>
+              </PopoverContent>
+            )}
+          </Popover>,
+        );
+      }
+
+      case "date-range": {
+        const rangeProps = field.properties as DateRangeProperties;
+        const dateFormat = rangeProps.dateFormat || DEFAULT_DATE_FORMAT;
+        const limits = getDateLimits(rangeProps);
+        const range = isDateRangeAnswer(fieldValue) ? fieldValue : {};
+        const from = parseDateAnswer(range.start) ?? undefined;
+        const to = parseDateAnswer(range.end) ?? undefined;
+        return fieldWrapper(
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                disabled={disabled}
+                className={pickerButtonClass(!from)}
+              >
+                <CalendarRange className="mr-2 h-4 w-4" />
+                {from
+                  ? `${formatDateAnswer(range.start, dateFormat)} – ${
+                      to ? formatDateAnswer(range.end, dateFormat) : "…"
+                    }`
+                  : rangeProps.placeholder || "Select dates"}
               </Button>
             </PopoverTrigger>
             {!disabled && (
               <PopoverContent className="w-auto p-0">
                 <Calendar
-                  mode="single"
-                  selected={fieldValue ? new Date(fieldValue) : undefined}
-                  onSelect={(date) =>
-                    updateValue(field.id, date?.toISOString())
+                  mode="range"
+                  numberOfMonths={2}
+                  selected={from ? { from, to } : undefined}
+                  defaultMonth={from}
+                  onSelect={(selected) =>
+                    setValue(
+                      selected?.from
+                        ? {
+                            start: toIsoDay(selected.from),
+                            end: selected.to
+                              ? toIsoDay(selected.to)
+                              : undefined,
+                          }
+                        : undefined,
+                    )
                   }
+                  disabled={(date) => !isDayAllowed(toIsoDay(date), limits)}
                   initialFocus
                 />
               </PopoverContent>
             )}
           </Popover>,
         );
+      }
 
       case "dropdown":
         const dropdownProps = field.properties as DropdownProperties;
+        const otherInput = (
+          answer: OtherAnswer,
+          onChange: (text: string) => void,
+        ) => (
+          <Input
+            value={answer.other}
+            onChange={(e) => !disabled && onChange(e.target.value)}
+            placeholder="Please specify"
+            aria-label={`${field.label || "Answer"}, other`}
+            disabled={disabled}
+            className={cn(
+              "border-gray-300 focus:border-blue-500 focus:ring-blue-500",
+              hasError &&
+                "border-red-300 focus:border-red-500 focus:ring-red-500",
+              disabled && "bg-gray-50",
+            )}
+          />
+        );
 
         if (dropdownProps.selectionType === "multi") {
+          const currentValues: unknown[] = Array.isArray(fieldValue)
+            ? fieldValue
+            : [];
+          const otherAnswer = currentValues.find(isOtherAnswer);
           return fieldWrapper(
             <div className="space-y-3">
               {dropdownProps.options?.map((option) => (
                 <div key={option.id} className="flex items-center space-x-3">
                   <Checkbox
-                    id={`${field.id}-${option.id}`}
+                    id={`${fieldKey}-${option.id}`}
                     disabled={disabled}
-                    checked={
-                      Array.isArray(fieldValue) &&
-                      fieldValue.includes(option.value)
-                    }
+                    checked={currentValues.includes(option.value)}
                     onCheckedChange={(checked) => {
                       if (disabled) return;
-                      const currentValues = Array.isArray(fieldValue)
-                        ? fieldValue
-                        : [];
                       if (checked) {
-                        updateValue(field.id, [...currentValues, option.value]);
+                        setValue([...currentValues, option.value]);
                       } else {
-                        updateValue(
-                          field.id,
+                        setValue(
                           currentValues.filter((v) => v !== option.value),
                         );
                       }
                     }}
                   />
                   <Label
-                    htmlFor={`${field.id}-${option.id}`}
+                    htmlFor={`${fieldKey}-${option.id}`}
                     className="text-sm font-normal text-gray-700"
                   >
                     {option.label}
                   </Label>
                 </div>
               ))}
+              {dropdownProps.allowOther && (
+                <>
+                  <div className="flex items-center space-x-3">
+                    <Checkbox
+                      id={`${fieldKey}-other`}
+                      disabled={disabled}
+                      checked={!!otherAnswer}
+                      onCheckedChange={(checked) => {
+                        if (disabled) return;
+                        const options = currentValues.filter(
+                          (v) => !isOtherAnswer(v),
+                        );
+                        setValue(
+                          checked ? [...options, { other: "" }] : options,
+                        );
+                      }}
+                    />
+                    <Label
+                      htmlFor={`${fieldKey}-other`}
+                      className="text-sm font-normal text-gray-700"
+                    >
+                      Other
+                    </Label>
+                  </div>
+                  {otherAnswer &&
+                    otherInput(otherAnswer, (other) =>
+                      setValue(
+                        currentValues.map((v) =>
+                          isOtherAnswer(v) ? { other } : v,
+                        ),
+                      ),
+                    )}
+                </>
+              )}
             </div>,
           );
         } else {
           return fieldWrapper(
-            <Select
-              value={fieldValue || ""}
-              onValueChange={(value) =>
-                !disabled && updateValue(field.id, value)
-              }
-              disabled={disabled}
-            >
-              <SelectTrigger
-                className={cn(
-                  "border-gray-300 focus:border-blue-500 focus:ring-blue-500",
-                  hasError &&
-                    "border-red-300 focus:border-red-500 focus:ring-red-500",
-                  disabled && "bg-gray-50",
-                )}
+            <div className="space-y-3">
+              <Select
+                value={
+                  isOtherAnswer(fieldValue) ? OTHER_OPTION : fieldValue || ""
+                }
+                onValueChange={(value) =>
+                  !disabled &&
+                  setValue(value === OTHER_OPTION ? { other: "" } : value)
+                }
+                disabled={disabled}
               >
-                <SelectValue placeholder="Select" />
-              </SelectTrigger>
-              <SelectContent>
-                {dropdownProps.options?.map((option) => (
-                  <SelectItem key={option.id} value={option.value}>
-                    {option.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>,
+                <SelectTrigger
+                  className={cn(
+                    "border-gray-300 focus:border-blue-500 focus:ring-blue-500",
+                    hasError &&
+                      "border-red-300 focus:border-red-500 focus:ring-red-500",
+                    disabled && "bg-gray-50",
+                  )}
+                >
+                  <SelectValue placeholder="Select" />
+                </SelectTrigger>
+                <SelectContent>
+                  {dropdownProps.options?.map((option) => (
+                    <SelectItem key={option.id} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                  {dropdownProps.allowOther && (
+                    <SelectItem value={OTHER_OPTION}>Other</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              {dropdownProps.allowOther &&
+                isOtherAnswer(fieldValue) &&
+                otherInput(fieldValue, (other) => setValue({ other }))}
+            </div>,
           );
         }
 
@@ -428,7 +856,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               return;
             }
 
-            updateValue(field.id, file); // Only single file upload now
+            setValue(file); // Only single file upload now
           }
         };
 
@@ -446,7 +874,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
 
         // Handle file delete (when in response mode)
         const handleDelete = () => {
-          updateValue(field.id, null);
+          setValue(null);
         };
 
         return fieldWrapper(
@@ -455,14 +883,14 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center transition-colors hover:border-gray-400">
                 <input
                   type="file"
-                  id={`file-${field.id}`}
+                  id={`file-${fieldKey}`}
                   accept={fileProps.acceptedTypes?.join(",")}
                   disabled={disabled}
                   onChange={handleFileChange}
                   className="hidden"
                 />
                 <Label
-                  htmlFor={`file-${field.id}`}
+                  htmlFor={`file-${fieldKey}`}
                   className={cn(
                     "cursor-pointer flex flex-col items-center",
                     disabled && "cursor-not-allowed",
@@ -535,7 +963,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
         return fieldWrapper(
           <Input
             value={fieldValue || ""}
-            onChange={(e) => !disabled && updateValue(field.id, e.target.value)}
+            onChange={(e) => !disabled && setValue(e.target.value)}
             placeholder="Your Answer"
             disabled={disabled}
             className={cn(
@@ -547,13 +975,18 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
     }
   };
 
-  const sectionsWithFields = schema.items.filter(
-    (item) => isFormSection(item) && item.fields.length > 0,
-  );
-  const hasAnySections = sectionsWithFields.length > 0;
-  const standaloneFields = schema.items.filter((item) => isFormField(item));
-
-  let questionCounter = 1;
+  // Subsections start open; respondents can fold away the ones they're done with
+  const sectionRenderer = (firstQuestionNumber: number) =>
+    createSectionRenderer(
+      {
+        answers,
+        renderField,
+        isOpen: (sectionId) => !collapsedSections[sectionId],
+        onOpenChange: (sectionId, open) =>
+          setCollapsedSections((prev) => ({ ...prev, [sectionId]: !open })),
+      },
+      firstQuestionNumber,
+    );
 
   // Show submitted view
   if (isSubmitted && submittedData) {
@@ -585,6 +1018,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
 
   // Layout 1: No sections - Clean single column (Image 1)
   if (!hasAnySections) {
+    const questions = sectionRenderer(1);
     return (
       <div className={cn("min-h-screen bg-gray-50", className)}>
         <div className="max-w-2xl mx-auto py-8 px-6">
@@ -602,11 +1036,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
               <div className="space-y-6">
                 {standaloneFields.map((field) => (
                   <div key={field.id}>
-                    {renderField(
-                      field as FormField,
-                      questionCounter++,
-                      submittedData ? true : false,
-                    )}
+                    {questions.renderQuestion(field, !!submittedData)}
                   </div>
                 ))}
               </div>
@@ -628,7 +1058,7 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
                     disabled={isSubmitting || !canSubmit()}
                     className="bg-blue-600 hover:bg-blue-700 px-8"
                   >
-                    {isSubmitting ? "Submitting..." : "Submit"}
+                    {submitLabel}
                   </Button>
                 </div>
               )}
@@ -639,29 +1069,59 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
     );
   }
 
-  // Layout 2: With sections - Sidebar layout (Image 2)
+  // Layout 2: With sections - Sidebar with the path and one section per step
+  const visitedProgress = getVisitedProgress();
+  // Keep numbering continuous across steps
+  const questions = sectionRenderer(
+    1 +
+      (currentStep > 0 ? standaloneFields.length : 0) +
+      visitedSections
+        .slice(0, currentStep)
+        .reduce(
+          (count, section) =>
+            count + getAllFields(section.fields).filter(isShown).length,
+          0,
+        ),
+  );
+
   return (
     <div className={cn("flex h-screen bg-gray-50", className)}>
       {/* Left Sidebar */}
       <div className="w-64 bg-white border-r border-gray-200 flex flex-col">
         <div className="p-4 border-b border-gray-200">
           <h3 className="font-semibold text-gray-900 text-sm">Form Sections</h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {visitedProgress.answered} of {visitedProgress.total} answered so
+            far
+          </p>
         </div>
         <div className="flex-1 overflow-y-auto p-3 space-y-2">
           {sectionsWithFields.map((section, index) => {
-            const progress = getSectionProgress(section);
+            const isVisited = index <= currentStep;
+            const progress = isVisited ? getSectionProgress(section) : null;
             return (
               <button
                 key={section.id}
-                onClick={() => scrollToSection(section.id)}
-                className="w-full text-left p-3 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors text-sm"
+                type="button"
+                onClick={() => goToStep(index)}
+                disabled={!isVisited}
+                className={cn(
+                  "w-full text-left p-3 rounded-lg transition-colors text-sm",
+                  index === currentStep
+                    ? "bg-blue-600 text-white"
+                    : isVisited
+                      ? "bg-blue-50 text-blue-900 hover:bg-blue-100"
+                      : "bg-gray-50 text-gray-400 cursor-not-allowed",
+                )}
               >
                 <div className="flex items-start gap-2">
                   <ChevronRight className="w-4 h-4 mt-0.5 flex-shrink-0" />
                   <div className="flex-1 min-w-0">
                     <div className="font-medium">{section.title}</div>
                     <div className="text-xs opacity-90 mt-1">
-                      {progress.answered} of {progress.total} answered
+                      {progress
+                        ? `${progress.answered} of ${progress.total} answered`
+                        : "Not started"}
                     </div>
                   </div>
                 </div>
@@ -686,93 +1146,95 @@ export const FormRenderer: React.FC<FormRendererProps> = ({
             {/* Form Content */}
             <div className="space-y-6">
               {/* Standalone Fields */}
-              {standaloneFields.map((field) => (
-                <div
-                  key={field.id}
-                  className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
-                >
-                  {renderField(
-                    field as FormField,
-                    questionCounter++,
-                    submittedData ? true : false,
+              {currentStep === 0 &&
+                standaloneFields.map((field) => (
+                  <div
+                    key={field.id}
+                    className="bg-white rounded-lg shadow-sm border border-gray-200 p-6"
+                  >
+                    {questions.renderQuestion(field, !!submittedData)}
+                  </div>
+                ))}
+
+              {/* Current Section */}
+              <div
+                id={`section-${currentSection.id}`}
+                className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden"
+              >
+                <div className="bg-blue-600 text-white p-4">
+                  <div className="text-sm font-medium text-blue-200 mb-1">
+                    <span className="bg-blue-700 px-2 py-1 rounded text-xs font-semibold">
+                      SECTION {currentStep + 1} OF {sectionsWithFields.length}
+                    </span>
+                  </div>
+                  <h2 className="text-xl font-bold">{currentSection.title}</h2>
+                  {currentSection.description && (
+                    <p className="text-blue-100 text-sm mt-1">
+                      {currentSection.description}
+                    </p>
                   )}
                 </div>
-              ))}
 
-              {/* Sections */}
-              {sectionsWithFields.map((section, sectionIndex) => (
-                <div
-                  key={section.id}
-                  id={`section-${section.id}`}
-                  className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden"
-                >
-                  <Collapsible
-                    open={openSections[section.id] ?? true}
-                    onOpenChange={() => toggleSection(section.id)}
-                  >
-                    {/* Section Header */}
-                    <div className="bg-blue-600 text-white">
-                      <CollapsibleTrigger className="flex items-center gap-3 w-full p-4 text-left hover:bg-blue-700 transition-colors">
-                        {openSections[section.id] ? (
-                          <ChevronDown className="w-5 h-5 flex-shrink-0" />
-                        ) : (
-                          <ChevronRight className="w-5 h-5 flex-shrink-0" />
-                        )}
-                        <div className="flex-1">
-                          <div className="text-sm font-medium text-blue-200 mb-1">
-                            <span className="bg-blue-700 px-2 py-1 rounded text-xs font-semibold">
-                              SECTION {sectionIndex + 1} OF{" "}
-                              {sectionsWithFields.length}
-                            </span>
-                          </div>
-                          <h2 className="text-xl font-bold">{section.title}</h2>
-                          {section.description && (
-                            <p className="text-blue-100 text-sm mt-1">
-                              {section.description}
-                            </p>
-                          )}
-                        </div>
-                      </CollapsibleTrigger>
-                    </div>
-
-                    <CollapsibleContent>
-                      <div className="p-6 space-y-6">
-                        {section.fields.map((field) => (
-                          <div key={field.id}>
-                            {renderField(
-                              field,
-                              questionCounter++,
-                              submittedData ? true : false,
-                            )}
-                          </div>
-                        ))}
-                      </div>
-                    </CollapsibleContent>
-                  </Collapsible>
+                <div className="p-6 space-y-6">
+                  {questions.renderSection(
+                    currentSection,
+                    String(currentStep + 1),
+                    !!submittedData,
+                  )}
                 </div>
-              ))}
+              </div>
             </div>
 
             {/* Action Buttons */}
-            {mode === "response" && !submittedData && (
+            {!submittedData && (
               <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
                 <div className="flex justify-between items-center">
-                  <Button
-                    type="button"
-                    variant="outline"
-                    onClick={handleClear}
-                    className="flex items-center gap-2 border-gray-300 text-gray-700 hover:bg-gray-50"
-                  >
-                    <RotateCcw className="w-4 h-4" />
-                    Clear form
-                  </Button>
-                  <Button
-                    type="submit"
-                    disabled={isSubmitting || !canSubmit()}
-                    className="bg-blue-600 hover:bg-blue-700 px-8"
-                  >
-                    {isSubmitting ? "Submitting..." : "Submit"}
-                  </Button>
+                  {mode === "response" ? (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleClear}
+                      className="flex items-center gap-2 border-gray-300 text-gray-700 hover:bg-gray-50"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Clear form
+                    </Button>
+                  ) : (
+                    <span />
+                  )}
+                  <div className="flex items-center gap-3">
+                    {currentStep > 0 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => goToStep(currentStep - 1)}
+                        className="flex items-center gap-1"
+                      >
+                        <ChevronLeft className="w-4 h-4" />
+                        Back
+                      </Button>
+                    )}
+                    {!isLastStep ? (
+                      <Button
+                        type="button"
+                        onClick={handleNext}
+                        disabled={isCheckingStep}
+                        className="bg-blue-600 hover:bg-blue-700 px-8"
+                      >
+                        {isCheckingStep ? "Checking..." : "Next"}
+                      </Button>
+                    ) : (
+                      mode === "response" && (
+                        <Button
+                          type="submit"
+                          disabled={isSubmitting || !canSubmit()}
+                          className="bg-blue-600 hover:bg-blue-700 px-8"
+                        >
+                          {submitLabel}
+                        </Button>
+                      )
+                    )}
+                  </div>
                 </div>
               </div>
             )}
@@ -0,0 +1,254 @@
+import {
+  CrossFieldRule,
+  CrossFieldRuleKind,
+  FormField,
+  generateId,
+} from "@/lib/form-schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ListChecks, Plus, X } from "lucide-react";
+
+interface FormRulesEditorProps {
+  rules?: CrossFieldRule[];
+  // Fields the rules can compare, excluding those of repeatable sections
+  fields: FormField[];
+  onChange: (rules: CrossFieldRule[] | undefined) => void;
+}
+
+const KIND_LABELS: Record<CrossFieldRuleKind, string> = {
+  equal: "Answers match",
+  after: "Date is after another",
+  atLeastOne: "At least one is answered",
+  sumEquals: "Numbers add up to",
+};
+
+const KINDS = Object.keys(KIND_LABELS) as CrossFieldRuleKind[];
+
+// equal and after compare two fields, the others any number of them
+const isPair = (kind: CrossFieldRuleKind) =>
+  kind === "equal" || kind === "after";
+
+const fieldsFor = (kind: CrossFieldRuleKind, fields: FormField[]) => {
+  switch (kind) {
+    case "after":
+      return fields.filter(
+        (field) => field.type === "date-picker" || field.type === "datetime",
+      );
+    case "sumEquals":
+      return fields.filter(
+        (field) => field.type === "number" || field.type === "calculated",
+      );
+    default:
+      return fields;
+  }
+};
+
+export const FormRulesEditor: React.FC<FormRulesEditorProps> = ({
+  rules = [],
+  fields,
+  onChange,
+}) => {
+  const setRules = (next: CrossFieldRule[]) => {
+    onChange(next.length > 0 ? next : undefined);
+  };
+
+  const updateRule = (index: number, updates: Partial<CrossFieldRule>) => {
+    setRules(
+      rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)),
+    );
+  };
+
+  const addRule = () => {
+    setRules([...rules, { id: generateId(), kind: "equal", fieldIds: [] }]);
+  };
+
+  // Keep the chosen fields the new kind can use
+  const handleKindChange = (index: number, kind: CrossFieldRuleKind) => {
+    const allowed = fieldsFor(kind, fields).map((field) => field.id);
+    const fieldIds = rules[index].fieldIds.filter((id) => allowed.includes(id));
+    updateRule(index, {
+      kind,
+      fieldIds: isPair(kind) ? fieldIds.slice(0, 2) : fieldIds,
+      total: kind === "sumEquals" ? (rules[index].total ?? 100) : undefined,
+    });
+  };
+
+  const renderPairSelects = (rule: CrossFieldRule, index: number) => {
+    const options = fieldsFor(rule.kind, fields);
+    // Unchosen slots are kept as "" so the second can be picked first
+    const setFieldId = (slot: number, fieldId: string) => {
+      const fieldIds = [rule.fieldIds[0] ?? "", rule.fieldIds[1] ?? ""];
+      fieldIds[slot] = fieldId;
+      updateRule(index, { fieldIds });
+    };
+
+    return [0, 1].map((slot) => {
+      const fieldId = rule.fieldIds[slot];
+      const exists = options.some((field) => field.id === fieldId);
+      return (
+        <Select
+          key={slot}
+          value={exists ? fieldId : undefined}
+          onValueChange={(value) => setFieldId(slot, value)}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue
+              placeholder={
+                fieldId
+                  ? "Deleted question"
+                  : slot === 0
+                    ? "First question"
+                    : "Second question"
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((field) => (
+              <SelectItem key={field.id} value={field.id}>
+                {field.label || "Untitled Question"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    });
+  };
+
+  const renderFieldChecklist = (rule: CrossFieldRule, index: number) => {
+    const options = fieldsFor(rule.kind, fields);
+    if (options.length === 0) {
+      return (
+        <p className="text-xs text-gray-500">
+          {rule.kind === "sumEquals"
+            ? "Add number questions to use this rule"
+            : "Add questions to use this rule"}
+        </p>
+      );
+    }
+
+    return (
+      <div className="flex flex-wrap gap-3">
+        {options.map((field) => (
+          <label key={field.id} className="flex items-center gap-1.5 text-sm">
+            <Checkbox
+              checked={rule.fieldIds.includes(field.id)}
+              onCheckedChange={(checked) =>
+                updateRule(index, {
+                  fieldIds: checked
+                    ? [...rule.fieldIds, field.id]
+                    : rule.fieldIds.filter((id) => id !== field.id),
+                })
+              }
+            />
+            {field.label || "Untitled Question"}
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  if (fields.length === 0) return null;
+
+  if (rules.length === 0) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={addRule}
+        className="h-8 text-xs text-blue-600 hover:text-blue-700"
+      >
+        <ListChecks className="w-3 h-3 mr-1" />
+        Add a rule across questions
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border border-gray-200 bg-gray-50 p-3">
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <ListChecks className="w-4 h-4 text-gray-500" />
+        <span>Responses are only accepted when</span>
+      </div>
+
+      {rules.map((rule, index) => (
+        <div key={rule.id} className="flex items-start gap-2">
+          <div className="flex-1 space-y-2">
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+              <Select
+                value={rule.kind}
+                onValueChange={(kind: CrossFieldRuleKind) =>
+                  handleKindChange(index, kind)
+                }
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {KINDS.map((kind) => (
+                    <SelectItem key={kind} value={kind}>
+                      {KIND_LABELS[kind]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {isPair(rule.kind) && renderPairSelects(rule, index)}
+              {rule.kind === "sumEquals" && (
+                <Input
+                  type="number"
+                  value={rule.total ?? ""}
+                  onChange={(e) =>
+                    updateRule(index, {
+                      total:
+                        e.target.value === ""
+                          ? undefined
+                          : Number(e.target.value),
+                    })
+                  }
+                  placeholder="100"
+                  className="h-8"
+                  aria-label="Total"
+                />
+              )}
+            </div>
+            {!isPair(rule.kind) && renderFieldChecklist(rule, index)}
+            <Input
+              value={rule.message || ""}
+              onChange={(e) =>
+                updateRule(index, { message: e.target.value || undefined })
+              }
+              placeholder="Error message (optional)"
+              className="h-8"
+            />
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setRules(rules.filter((_, i) => i !== index))}
+            className="h-8 w-8 p-0"
+            aria-label="Remove rule"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={addRule}
+        className="h-8 text-xs text-blue-600 hover:text-blue-700"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Add rule
+      </Button>
+    </div>
+  );
+};
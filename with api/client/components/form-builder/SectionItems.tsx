@@ -0,0 +1,204 @@
+import {
+  FormField,
+  FormItem,
+  FormSection,
+  isFormField,
+  isFormSection,
+} from "@/lib/form-schema";
+import {
+  getEntryCount,
+  getMaxEntries,
+  getMinEntries,
+  isRepeatable,
+} from "@shared/repeatable-sections";
+import { EntryLocation, UseFormAnswersResult } from "@/hooks/useFormAnswers";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { ChevronRight, ChevronDown, Plus, X } from "lucide-react";
+
+export interface SectionRendererOptions {
+  answers: UseFormAnswersResult;
+  // One question as the renderer shows it
+  renderField: (
+    field: FormField,
+    questionNumber: number,
+    disabled: boolean,
+    entry?: EntryLocation,
+  ) => React.ReactNode;
+  isOpen: (sectionId: string) => boolean;
+  onOpenChange: (sectionId: string, open: boolean) => void;
+}
+
+export interface SectionRenderer {
+  // A question outside any section
+  renderQuestion: (field: FormField, disabled: boolean) => React.ReactNode;
+  // A top level section's fields and subsections, or its entries
+  renderSection: (
+    section: FormSection,
+    sectionNumber: string,
+    disabled: boolean,
+  ) => React.ReactNode;
+}
+
+/**
+ * Renders questions and sections the way both renderers show them, numbering
+ * questions from `firstQuestionNumber` in the order they're rendered.
+ * Subsections are numbered after their parent, e.g. 2.1, and fold away;
+ * repeatable sections show their questions once per entry.
+ */
+export const createSectionRenderer = (
+  { answers, renderField, isOpen, onOpenChange }: SectionRendererOptions,
+  firstQuestionNumber = 1,
+): SectionRenderer => {
+  let questionCounter = firstQuestionNumber;
+
+  const renderQuestion = (
+    field: FormField,
+    disabled: boolean,
+    entry?: EntryLocation,
+  ) => renderField(field, questionCounter++, disabled, entry);
+
+  // A section's fields and subsections in order. Inside an entry of a
+  // repeatable section their answers belong to that entry
+  const renderItems = (
+    items: FormItem[],
+    sectionNumber: string,
+    disabled: boolean,
+    entry?: EntryLocation,
+  ): React.ReactNode => {
+    const subsections = items.filter(
+      (item): item is FormSection =>
+        isFormSection(item) && answers.hasShownFields(item),
+    );
+
+    return items.map((item) => {
+      if (isFormField(item)) {
+        return (
+          answers.isShown(item) && (
+            <div key={item.id}>{renderQuestion(item, disabled, entry)}</div>
+          )
+        );
+      }
+      return (
+        subsections.includes(item) && (
+          <div key={item.id}>
+            {renderSubsection(
+              item,
+              `${sectionNumber}.${subsections.indexOf(item) + 1}`,
+              disabled,
+              entry,
+            )}
+          </div>
+        )
+      );
+    });
+  };
+
+  const renderSubsection = (
+    section: FormSection,
+    sectionNumber: string,
+    disabled: boolean,
+    entry?: EntryLocation,
+  ) => {
+    const open = isOpen(section.id);
+
+    return (
+      <Collapsible
+        open={open}
+        onOpenChange={(next) => onOpenChange(section.id, next)}
+        className="rounded-lg border border-gray-200"
+      >
+        <CollapsibleTrigger className="flex w-full items-center gap-2 p-4 text-left">
+          {open ? (
+            <ChevronDown className="w-4 h-4 text-gray-500" />
+          ) : (
+            <ChevronRight className="w-4 h-4 text-gray-500" />
+          )}
+          <span className="text-sm font-semibold text-gray-500">
+            {sectionNumber}
+          </span>
+          <span className="font-semibold text-gray-900">{section.title}</span>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="px-4 pb-4 space-y-6">
+          {section.description && (
+            <p className="text-sm text-gray-600">{section.description}</p>
+          )}
+          {isRepeatable(section) && !entry
+            ? renderEntries(section, sectionNumber, disabled)
+            : renderItems(section.fields, sectionNumber, disabled, entry)}
+        </CollapsibleContent>
+      </Collapsible>
+    );
+  };
+
+  // A repeatable section's questions, once per entry, numbered alike
+  const renderEntries = (
+    section: FormSection,
+    sectionNumber: string,
+    disabled: boolean,
+  ) => {
+    const firstNumber = questionCounter;
+    const count = getEntryCount(answers.values, section);
+    const canRemove = !disabled && count > Math.max(getMinEntries(section), 1);
+    const canAdd = !disabled && count < getMaxEntries(section);
+
+    return (
+      <div className="space-y-4">
+        {Array.from({ length: count }, (_, index) => {
+          questionCounter = firstNumber;
+          return (
+            <div key={index} className="rounded-lg border border-gray-200 p-4">
+              <div className="flex items-center justify-between mb-4">
+                <span className="text-sm font-semibold text-gray-700">
+                  Entry {index + 1}
+                </span>
+                {canRemove && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => answers.removeEntry(section, index)}
+                    className="h-8 w-8 p-0 text-gray-500 hover:text-red-600"
+                    aria-label={`Remove entry ${index + 1}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+              {renderItems(section.fields, sectionNumber, disabled, {
+                section,
+                index,
+              })}
+            </div>
+          );
+        })}
+        {answers.errors[section.id] && (
+          <p className="text-sm text-red-600">{answers.errors[section.id]}</p>
+        )}
+        {canAdd && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => answers.addEntry(section)}
+            className="flex items-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add another
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return {
+    renderQuestion: (field, disabled) => renderQuestion(field, disabled),
+    renderSection: (section, sectionNumber, disabled) =>
+      isRepeatable(section)
+        ? renderEntries(section, sectionNumber, disabled)
+        : renderItems(section.fields, sectionNumber, disabled),
+  };
+};
@@ -0,0 +1,129 @@
+import {
+  DropdownProperties,
+  FormSection,
+  SUBMIT_FORM,
+  SectionNavigation,
+  getAllFields,
+} from "@/lib/form-schema";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GitBranch, X } from "lucide-react";
+
+interface SectionNavigationEditorProps {
+  section: FormSection;
+  // Sections after this one, the only ones a route may jump to
+  laterSections: FormSection[];
+  onChange: (navigation: SectionNavigation | undefined) => void;
+}
+
+// Select value for "no route", answers continue with the next section
+const NEXT_SECTION = "__next__";
+
+export const SectionNavigationEditor: React.FC<
+  SectionNavigationEditorProps
+> = ({ section, laterSections, onChange }) => {
+  const dropdownFields = getAllFields(section.fields).filter(
+    (field) => field.type === "dropdown",
+  );
+  const navigation = section.navigation;
+
+  if (dropdownFields.length === 0) return null;
+
+  if (!navigation) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onChange({ fieldId: dropdownFields[0].id, routes: [] })}
+        className="h-8 text-xs text-blue-600 hover:text-blue-700"
+      >
+        <GitBranch className="w-3 h-3 mr-1" />
+        Branch on an answer
+      </Button>
+    );
+  }
+
+  const field = dropdownFields.find((f) => f.id === navigation.fieldId);
+  const options = field
+    ? (field.properties as DropdownProperties).options || []
+    : [];
+
+  const setRoute = (optionValue: string, goTo: string) => {
+    const routes = navigation.routes.filter(
+      (route) => route.optionValue !== optionValue,
+    );
+    onChange({
+      ...navigation,
+      routes:
+        goTo === NEXT_SECTION ? routes : [...routes, { optionValue, goTo }],
+    });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-gray-200 bg-gray-50 p-3">
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <GitBranch className="w-4 h-4 text-gray-500" />
+        <span>After this section, go by the answer to</span>
+        <Select
+          value={field ? navigation.fieldId : undefined}
+          onValueChange={(fieldId) => onChange({ fieldId, routes: [] })}
+        >
+          <SelectTrigger className="h-8 flex-1">
+            <SelectValue placeholder="Deleted question" />
+          </SelectTrigger>
+          <SelectContent>
+            {dropdownFields.map((f) => (
+              <SelectItem key={f.id} value={f.id}>
+                {f.label || "Untitled Question"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(undefined)}
+          className="h-8 w-8 p-0"
+          aria-label="Remove branching"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {options.map((option) => {
+        const route = navigation.routes.find(
+          (r) => r.optionValue === option.value,
+        );
+        return (
+          <div key={option.id} className="flex items-center gap-2 text-sm">
+            <span className="w-1/3 truncate text-gray-700">{option.label}</span>
+            <span className="text-gray-400">→</span>
+            <Select
+              value={route?.goTo || NEXT_SECTION}
+              onValueChange={(goTo) => setRoute(option.value, goTo)}
+            >
+              <SelectTrigger className="h-8 flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NEXT_SECTION}>Next section</SelectItem>
+                {laterSections.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.title || "Untitled section"}
+                  </SelectItem>
+                ))}
+                <SelectItem value={SUBMIT_FORM}>Submit form</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
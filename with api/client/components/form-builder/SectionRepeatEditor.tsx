@@ -0,0 +1,86 @@
+import { FormSection, RepeatSettings } from "@/lib/form-schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Repeat, X } from "lucide-react";
+
+interface SectionRepeatEditorProps {
+  section: FormSection;
+  onChange: (repeat: RepeatSettings | undefined) => void;
+}
+
+// Empty input means no limit
+const parseCount = (value: string): number | undefined =>
+  value === "" ? undefined : Math.max(0, Math.floor(Number(value)));
+
+export const SectionRepeatEditor: React.FC<SectionRepeatEditorProps> = ({
+  section,
+  onChange,
+}) => {
+  const repeat = section.repeat;
+
+  if (!repeat) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onChange({ min: 1 })}
+        className="h-8 text-xs text-blue-600 hover:text-blue-700"
+      >
+        <Repeat className="w-3 h-3 mr-1" />
+        Let respondents add entries
+      </Button>
+    );
+  }
+
+  const invalid =
+    repeat.min !== undefined &&
+    repeat.max !== undefined &&
+    repeat.min > repeat.max;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <Repeat className="w-4 h-4 text-gray-500" />
+        <span>Respondents add between</span>
+        <Input
+          type="number"
+          min={0}
+          value={repeat.min ?? ""}
+          onChange={(e) =>
+            onChange({ ...repeat, min: parseCount(e.target.value) })
+          }
+          placeholder="0"
+          className="h-8 w-16"
+          aria-label="Minimum entries"
+        />
+        <span>and</span>
+        <Input
+          type="number"
+          min={1}
+          value={repeat.max ?? ""}
+          onChange={(e) =>
+            onChange({ ...repeat, max: parseCount(e.target.value) })
+          }
+          placeholder="any"
+          className="h-8 w-16"
+          aria-label="Maximum entries"
+        />
+        <span>entries</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(undefined)}
+          className="h-8 w-8 p-0"
+          aria-label="Stop repeating"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      {invalid && (
+        <p className="text-xs text-red-600">
+          The minimum is more than the maximum
+        </p>
+      )}
+    </div>
+  );
+};
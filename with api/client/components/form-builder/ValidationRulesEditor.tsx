@@ -0,0 +1,548 @@
+import { useState } from "react";
+import {
+  BaseFieldProperties,
+  DateBound,
+  DatePickerProperties,
+  FieldProperties,
+  FieldValidation,
+  FileUploadProperties,
+  FormField,
+  NumberProperties,
+  TimeProperties,
+  ValidationRuleKind,
+} from "@/lib/form-schema";
+import {
+  getDefaultMessage,
+  getFieldRules,
+  getFieldValidation,
+} from "@shared/form-validation";
+import { toIsoDay } from "@shared/dates";
+import {
+  PATTERN_PRESETS,
+  findPatternPreset,
+  testPattern,
+} from "@/lib/validation-presets";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronDown, ChevronRight, ShieldCheck } from "lucide-react";
+
+interface ValidationRulesEditorProps {
+  field: FormField;
+  onChange: (properties: FieldProperties) => void;
+}
+
+const RULE_LABELS: Record<ValidationRuleKind, string> = {
+  required: "Required",
+  text: "Text",
+  minLength: "Minimum length",
+  maxLength: "Maximum length",
+  pattern: "Format",
+  number: "Number",
+  min: "Minimum",
+  max: "Maximum",
+  date: "Date",
+  minDate: "Earliest date",
+  maxDate: "Latest date",
+  weekday: "Weekdays only",
+  time: "Time",
+  minTime: "Earliest time",
+  maxTime: "Latest time",
+  dateRange: "Date range",
+  selection: "Selection",
+  option: "Listed options",
+  other: "Other answer",
+  file: "File",
+  fileType: "File type",
+  fileSize: "File size",
+  fileCount: "Number of files",
+  custom: "Custom check",
+  async: "Server check",
+};
+
+// Field types whose answers are free text
+const TEXT_TYPES = ["short-text", "long-text"];
+
+const NO_PATTERN = "none";
+const CUSTOM_PATTERN = "custom";
+
+const MB = 1024 * 1024;
+
+const NO_BOUND = "none";
+
+// Empty input means no limit
+const parseNumber = (value: string): number | undefined =>
+  value === "" ? undefined : Number(value);
+
+export const ValidationRulesEditor: React.FC<ValidationRulesEditorProps> = ({
+  field,
+  onChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [sample, setSample] = useState("");
+  // Accepted file types are kept as typed while the input has focus
+  const [typesDraft, setTypesDraft] = useState<string | null>(null);
+  // Shown when "Custom" is picked, before a pattern is typed
+  const [isCustomPattern, setIsCustomPattern] = useState(false);
+
+  const properties = field.properties as BaseFieldProperties;
+  const validation: FieldValidation = properties.validation || {};
+  // What applies when the field doesn't set its own limits
+  const defaults = getFieldValidation({ ...field, properties: {} });
+
+  const updateProperties = (updates: Record<string, any>) => {
+    onChange({ ...field.properties, ...updates } as FieldProperties);
+  };
+
+  const updateValidation = (updates: Partial<FieldValidation>) => {
+    updateProperties({ validation: { ...validation, ...updates } });
+  };
+
+  const setMessage = (kind: ValidationRuleKind, message: string) => {
+    updateValidation({
+      messages: { ...validation.messages, [kind]: message || undefined },
+    });
+  };
+
+  const renderNumberInput = (
+    id: string,
+    label: string,
+    value: number | undefined,
+    onValueChange: (value: number | undefined) => void,
+    placeholder = "",
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={`${id}-${field.id}`} className="text-xs text-gray-600">
+        {label}
+      </Label>
+      <Input
+        id={`${id}-${field.id}`}
+        type="number"
+        value={value ?? ""}
+        onChange={(e) => onValueChange(parseNumber(e.target.value))}
+        placeholder={placeholder}
+        className="h-8"
+      />
+    </div>
+  );
+
+  const renderDateBound = (
+    id: string,
+    label: string,
+    bound: DateBound | undefined,
+    onBoundChange: (bound: DateBound | undefined) => void,
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={`${id}-${field.id}`} className="text-xs text-gray-600">
+        {label}
+      </Label>
+      <Select
+        value={bound?.type || NO_BOUND}
+        onValueChange={(type) =>
+          onBoundChange(
+            type === "date"
+              ? { type, date: toIsoDay(new Date()) }
+              : type === "relative"
+                ? { type, days: 0 }
+                : undefined,
+          )
+        }
+      >
+        <SelectTrigger id={`${id}-${field.id}`} className="h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_BOUND}>No limit</SelectItem>
+          <SelectItem value="date">A fixed date</SelectItem>
+          <SelectItem value="relative">Days from today</SelectItem>
+        </SelectContent>
+      </Select>
+      {bound?.type === "date" && (
+        <Input
+          type="date"
+          value={bound.date}
+          onChange={(e) =>
+            e.target.value &&
+            onBoundChange({ type: "date", date: e.target.value })
+          }
+          className="h-8"
+          aria-label={label}
+        />
+      )}
+      {bound?.type === "relative" && (
+        <Input
+          type="number"
+          step={1}
+          value={bound.days}
+          onChange={(e) =>
+            onBoundChange({
+              type: "relative",
+              days: Math.trunc(Number(e.target.value)) || 0,
+            })
+          }
+          placeholder="e.g. 30, or -30 for the past"
+          className="h-8"
+          aria-label={`${label}, days from today`}
+        />
+      )}
+    </div>
+  );
+
+  const renderTimeLimits = () => {
+    const timeProps = field.properties as TimeProperties;
+    const renderTimeInput = (
+      id: string,
+      label: string,
+      value: string | undefined,
+      onValueChange: (value: string | undefined) => void,
+    ) => (
+      <div className="space-y-1">
+        <Label htmlFor={`${id}-${field.id}`} className="text-xs text-gray-600">
+          {label}
+        </Label>
+        <Input
+          id={`${id}-${field.id}`}
+          type="time"
+          value={value || ""}
+          onChange={(e) => onValueChange(e.target.value || undefined)}
+          className="h-8"
+        />
+      </div>
+    );
+
+    return (
+      <div className="grid grid-cols-2 gap-3">
+        {renderTimeInput(
+          "min-time",
+          "Earliest time",
+          timeProps.minTime,
+          (minTime) => updateProperties({ minTime }),
+        )}
+        {renderTimeInput(
+          "max-time",
+          "Latest time",
+          timeProps.maxTime,
+          (maxTime) => updateProperties({ maxTime }),
+        )}
+      </div>
+    );
+  };
+
+  const renderSwitch = (
+    id: string,
+    label: string,
+    checked: boolean,
+    onCheckedChange: (checked: boolean) => void,
+  ) => (
+    <div className="flex items-center gap-2">
+      <Switch
+        checked={checked}
+        onCheckedChange={onCheckedChange}
+        id={`${id}-${field.id}`}
+      />
+      <Label htmlFor={`${id}-${field.id}`} className="text-xs">
+        {label}
+      </Label>
+    </div>
+  );
+
+  const renderPatternControls = () => {
+    const pattern = validation.pattern || "";
+    const preset = findPatternPreset(pattern);
+    const selected = preset
+      ? preset.id
+      : pattern || isCustomPattern
+        ? CUSTOM_PATTERN
+        : NO_PATTERN;
+    const matches = pattern && sample ? testPattern(pattern, sample) : null;
+    const isInvalid = !!pattern && testPattern(pattern, "") === null;
+
+    const handlePresetChange = (id: string) => {
+      const next = PATTERN_PRESETS.find((p) => p.id === id);
+      setIsCustomPattern(id === CUSTOM_PATTERN);
+      // A message suggested by the previous preset goes with it
+      const message = validation.messages?.pattern;
+      const keepMessage = message && message !== preset?.message;
+      updateValidation({
+        pattern: next?.pattern ?? (id === CUSTOM_PATTERN ? pattern : undefined),
+        messages: {
+          ...validation.messages,
+          pattern: keepMessage ? message : next?.message,
+        },
+      });
+    };
+
+    return (
+      <div className="space-y-2">
+        <Label className="text-xs text-gray-600">Format</Label>
+        <Select value={selected} onValueChange={handlePresetChange}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PATTERN}>Any text</SelectItem>
+            {PATTERN_PRESETS.map((p) => (
+              <SelectItem key={p.id} value={p.id}>
+                {p.label}
+              </SelectItem>
+            ))}
+            <SelectItem value={CUSTOM_PATTERN}>Custom pattern</SelectItem>
+          </SelectContent>
+        </Select>
+        {selected === CUSTOM_PATTERN && (
+          <div>
+            <Input
+              value={pattern}
+              onChange={(e) =>
+                updateValidation({ pattern: e.target.value || undefined })
+              }
+              placeholder="e.g. ^\d{4}$"
+              className="h-8 font-mono text-sm"
+              aria-label="Regular expression"
+            />
+            {isInvalid && (
+              <p className="text-xs text-red-600 mt-1">
+                This isn't a valid regular expression, so it isn't checked
+              </p>
+            )}
+          </div>
+        )}
+        {selected !== NO_PATTERN && (
+          <div className="flex items-center gap-2">
+            <Input
+              value={sample}
+              onChange={(e) => setSample(e.target.value)}
+              placeholder="Try an answer"
+              className="h-8 flex-1"
+              aria-label="Sample answer"
+            />
+            {matches !== null && (
+              <span
+                className={
+                  matches ? "text-xs text-green-600" : "text-xs text-red-600"
+                }
+              >
+                {matches ? "Matches" : "Doesn't match"}
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderTypeControls = () => {
+    if (TEXT_TYPES.includes(field.type)) {
+      return (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            {renderNumberInput(
+              "min-length",
+              "Minimum length",
+              validation.minLength,
+              (minLength) => updateValidation({ minLength }),
+            )}
+            {renderNumberInput(
+              "max-length",
+              "Maximum length",
+              validation.maxLength,
+              (maxLength) => updateValidation({ maxLength }),
+              defaults.maxLength ? String(defaults.maxLength) : "",
+            )}
+          </div>
+          {renderPatternControls()}
+          {renderSwitch(
+            "unique",
+            "Each answer can only be given once",
+            validation.asyncCheck === "unique",
+            (checked) =>
+              updateValidation({ asyncCheck: checked ? "unique" : undefined }),
+          )}
+        </>
+      );
+    }
+
+    switch (field.type) {
+      case "number": {
+        const numberProps = field.properties as NumberProperties;
+        return (
+          <div className="grid grid-cols-3 gap-3">
+            {renderNumberInput("min", "Minimum", numberProps.min, (min) =>
+              updateProperties({ min }),
+            )}
+            {renderNumberInput("max", "Maximum", numberProps.max, (max) =>
+              updateProperties({ max }),
+            )}
+            {renderNumberInput(
+              "step",
+              "Step",
+              numberProps.step,
+              (step) => updateProperties({ step }),
+              "1",
+            )}
+          </div>
+        );
+      }
+
+      case "time":
+        return renderTimeLimits();
+
+      case "date-picker":
+      case "datetime":
+      case "date-range": {
+        const dateProps = field.properties as DatePickerProperties;
+        return (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              {renderDateBound(
+                "min-date",
+                "Earliest date",
+                dateProps.minDate,
+                (minDate) => updateProperties({ minDate }),
+              )}
+              {renderDateBound(
+                "max-date",
+                "Latest date",
+                dateProps.maxDate,
+                (maxDate) => updateProperties({ maxDate }),
+              )}
+            </div>
+            {renderSwitch(
+              "no-past",
+              "No dates in the past",
+              !!dateProps.disallowPast,
+              (disallowPast) => updateProperties({ disallowPast }),
+            )}
+            {renderSwitch(
+              "no-future",
+              "No dates in the future",
+              !!dateProps.disallowFuture,
+              (disallowFuture) => updateProperties({ disallowFuture }),
+            )}
+            {renderSwitch(
+              "weekdays",
+              "Weekdays only",
+              !!dateProps.weekdaysOnly,
+              (weekdaysOnly) => updateProperties({ weekdaysOnly }),
+            )}
+            {field.type === "datetime" && renderTimeLimits()}
+          </>
+        );
+      }
+
+      case "file-upload": {
+        const fileProps = field.properties as FileUploadProperties;
+        const types = (fileProps.acceptedTypes || []).join(", ");
+        return (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label
+                  htmlFor={`types-${field.id}`}
+                  className="text-xs text-gray-600"
+                >
+                  Accepted types
+                </Label>
+                <Input
+                  id={`types-${field.id}`}
+                  value={typesDraft ?? types}
+                  onFocus={() => setTypesDraft(types)}
+                  onChange={(e) => {
+                    setTypesDraft(e.target.value);
+                    updateProperties({
+                      acceptedTypes: e.target.value
+                        .split(",")
+                        .map((type) => type.trim())
+                        .filter(Boolean),
+                    });
+                  }}
+                  onBlur={() => setTypesDraft(null)}
+                  placeholder="Any type"
+                  className="h-8"
+                />
+              </div>
+              {renderNumberInput(
+                "max-size",
+                "Maximum size (MB)",
+                fileProps.maxSize ? fileProps.maxSize / MB : undefined,
+                (size) =>
+                  updateProperties({
+                    maxSize: size ? Math.round(size * MB) : undefined,
+                  }),
+                "No limit",
+              )}
+            </div>
+            {renderSwitch(
+              "multiple",
+              "Allow several files",
+              !!fileProps.multiple,
+              (multiple) => updateProperties({ multiple }),
+            )}
+          </>
+        );
+      }
+
+      default:
+        return null;
+    }
+  };
+
+  // Every rule the answer goes through can have its own message
+  const renderMessages = () => {
+    const rules = getFieldRules(field);
+    if (rules.length === 0) return null;
+
+    return (
+      <div className="space-y-2">
+        <Label className="text-xs text-gray-600">Error messages</Label>
+        {rules.map((rule) => (
+          <div key={rule.kind} className="flex items-center gap-2">
+            <span className="w-28 shrink-0 text-xs text-gray-500">
+              {RULE_LABELS[rule.kind]}
+            </span>
+            <Input
+              value={validation.messages?.[rule.kind] || ""}
+              onChange={(e) => setMessage(rule.kind, e.target.value)}
+              placeholder={getDefaultMessage(rule, field.label || "Answer")}
+              className="h-8 flex-1"
+              aria-label={`${RULE_LABELS[rule.kind]} message`}
+            />
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setIsOpen(!isOpen)}
+        className="h-8 text-xs text-blue-600 hover:text-blue-700"
+      >
+        <ShieldCheck className="w-3 h-3 mr-1" />
+        Validation rules
+        {isOpen ? (
+          <ChevronDown className="w-3 h-3 ml-1" />
+        ) : (
+          <ChevronRight className="w-3 h-3 ml-1" />
+        )}
+      </Button>
+      {isOpen && (
+        <div className="mt-2 space-y-4 rounded-md border border-gray-200 bg-gray-50 p-3">
+          {renderTypeControls()}
+          {renderMessages()}
+        </div>
+      )}
+    </div>
+  );
+};
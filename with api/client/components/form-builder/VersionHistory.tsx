@@ -0,0 +1,260 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { FormSchema } from "@/lib/form-schema";
+import { SchemaChange, diffFormSchemas } from "@/lib/schema-diff";
+import {
+  FormVersionSummary,
+  useFormVersion,
+  useFormVersions,
+  useRestoreFormVersion,
+} from "@/lib/api-client";
+import { toast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+
+interface VersionHistoryProps {
+  formId: string;
+  currentSchema: FormSchema;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestore: (schema: FormSchema) => void;
+}
+
+type CompareTarget = "previous" | "current";
+
+const CHANGE_STYLES: Record<SchemaChange["type"], string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  moved: "bg-blue-100 text-blue-800",
+  changed: "bg-amber-100 text-amber-800",
+};
+
+const ChangeList = ({ changes }: { changes: SchemaChange[] }) => {
+  if (changes.length === 0) {
+    return <p className="text-sm text-gray-500">No differences.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {changes.map((change, index) => (
+        <li
+          key={`${change.type}-${change.itemId}-${index}`}
+          className="text-sm"
+        >
+          <div className="flex items-center gap-2">
+            <span
+              className={cn(
+                "rounded px-1.5 py-0.5 text-xs font-medium capitalize",
+                CHANGE_STYLES[change.type],
+              )}
+            >
+              {change.type}
+            </span>
+            <span className="text-gray-500">{change.itemKind}</span>
+            <span className="font-medium text-gray-900 truncate">
+              {change.label}
+            </span>
+          </div>
+          {change.details.length > 0 && (
+            <ul className="mt-1 ml-4 list-disc text-gray-600">
+              {change.details.map((detail) => (
+                <li key={detail}>{detail}</li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({
+  formId,
+  currentSchema,
+  open,
+  onOpenChange,
+  onRestore,
+}) => {
+  const { data: versions = [], isLoading } = useFormVersions(
+    open ? formId : null,
+  );
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<CompareTarget>("previous");
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const restoreVersion = useRestoreFormVersion();
+
+  // Versions are listed newest first, so the previous one comes next
+  const selectedIndex = versions.findIndex((v) => v.id === selectedId);
+  const previousId =
+    selectedIndex >= 0 ? versions[selectedIndex + 1]?.id : undefined;
+
+  const selected = useFormVersion(formId, selectedId);
+  const previous = useFormVersion(
+    formId,
+    compareTo === "previous" ? previousId : null,
+  );
+
+  const changes = useMemo(() => {
+    if (!selected.data) return null;
+    if (compareTo === "current") {
+      return diffFormSchemas(selected.data.schema, currentSchema);
+    }
+    if (!previousId) return null;
+    return previous.data
+      ? diffFormSchemas(previous.data.schema, selected.data.schema)
+      : null;
+  }, [selected.data, previous.data, previousId, compareTo, currentSchema]);
+
+  const handleRestore = () => {
+    const version = selected.data;
+    if (!version) return;
+
+    restoreVersion.mutate(
+      { formId, versionId: version.id },
+      {
+        onSuccess: () => {
+          onRestore(version.schema);
+          toast({
+            title: "Version restored",
+            description: `Version ${version.versionNumber} is now your draft.`,
+          });
+          onOpenChange(false);
+        },
+      },
+    );
+    setConfirmRestore(false);
+  };
+
+  const renderVersion = (version: FormVersionSummary) => (
+    <button
+      key={version.id}
+      type="button"
+      onClick={() => setSelectedId(version.id)}
+      className={cn(
+        "w-full text-left rounded-md border px-3 py-2 transition-colors",
+        version.id === selectedId
+          ? "border-indigo-500 bg-indigo-50"
+          : "border-gray-200 hover:bg-gray-50",
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-900">
+          Version {version.versionNumber}
+        </span>
+        <Badge variant={version.kind === "published" ? "default" : "secondary"}>
+          {version.kind === "published" ? "Published" : "Saved"}
+        </Badge>
+      </div>
+      <div className="text-xs text-gray-500 mt-1">
+        {format(version.createdAt, "MMM dd, yyyy HH:mm")}
+      </div>
+    </button>
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Version history
+          </SheetTitle>
+          <SheetDescription>
+            Every save and publish of this form. Restoring a version makes it
+            your draft; respondents see it once you publish again.
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          {isLoading ? (
+            <p className="text-sm text-gray-500 py-4">Loading history...</p>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4">No saved versions yet.</p>
+          ) : (
+            <div className="space-y-2 py-4">{versions.map(renderVersion)}</div>
+          )}
+
+          {selectedId && (
+            <div className="border-t border-gray-200 py-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant={compareTo === "previous" ? "secondary" : "ghost"}
+                    onClick={() => setCompareTo("previous")}
+                  >
+                    Changes in this version
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={compareTo === "current" ? "secondary" : "ghost"}
+                    onClick={() => setCompareTo("current")}
+                  >
+                    Compare to current
+                  </Button>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!selected.data || restoreVersion.isPending}
+                  onClick={() => setConfirmRestore(true)}
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Restore
+                </Button>
+              </div>
+
+              {compareTo === "previous" && !previousId ? (
+                <p className="text-sm text-gray-500">
+                  This is the first version of the form.
+                </p>
+              ) : changes ? (
+                <ChangeList changes={changes} />
+              ) : (
+                <p className="text-sm text-gray-500">Loading changes...</p>
+              )}
+            </div>
+          )}
+        </ScrollArea>
+
+        <AlertDialog open={confirmRestore} onOpenChange={setConfirmRestore}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Restore this version?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Your current draft, including unsaved changes, will be replaced.
+                It stays available in the history if it was saved.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRestore}>
+                Restore
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </SheetContent>
+    </Sheet>
+  );
+};
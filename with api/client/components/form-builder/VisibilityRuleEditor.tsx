@@ -0,0 +1,301 @@
+import {
+  ConditionOperator,
+  DropdownProperties,
+  FormField,
+  VisibilityCondition,
+  VisibilityRule,
+} from "@/lib/form-schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Eye, Plus, X } from "lucide-react";
+
+interface VisibilityRuleEditorProps {
+  rule?: VisibilityRule;
+  // Fields the conditions can refer to, excluding the item being edited
+  fields: FormField[];
+  onChange: (rule: VisibilityRule | undefined) => void;
+}
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: "is",
+  notEquals: "is not",
+  in: "is any of",
+  contains: "contains",
+  gt: "is greater than",
+  lt: "is less than",
+  isEmpty: "is empty",
+  isNotEmpty: "is answered",
+};
+
+const operatorsFor = (field?: FormField): ConditionOperator[] => {
+  switch (field?.type) {
+    case "number":
+      return ["equals", "notEquals", "gt", "lt", "isEmpty", "isNotEmpty"];
+    case "date-picker":
+    case "datetime":
+      return ["gt", "lt", "isEmpty", "isNotEmpty"];
+    case "dropdown":
+      return (field.properties as DropdownProperties).selectionType === "multi"
+        ? ["contains", "in", "equals", "isEmpty", "isNotEmpty"]
+        : ["equals", "notEquals", "in", "isEmpty", "isNotEmpty"];
+    case "file-upload":
+    case "time":
+    case "date-range":
+      return ["isEmpty", "isNotEmpty"];
+    default:
+      return ["equals", "notEquals", "contains", "in", "isEmpty", "isNotEmpty"];
+  }
+};
+
+const operatorLabel = (operator: ConditionOperator, field?: FormField) => {
+  if (field?.type !== "date-picker" && field?.type !== "datetime") {
+    return OPERATOR_LABELS[operator];
+  }
+  if (operator === "gt") return "is after";
+  if (operator === "lt") return "is before";
+  return OPERATOR_LABELS[operator];
+};
+
+const needsValue = (operator: ConditionOperator) =>
+  operator !== "isEmpty" && operator !== "isNotEmpty";
+
+export const VisibilityRuleEditor: React.FC<VisibilityRuleEditorProps> = ({
+  rule,
+  fields,
+  onChange,
+}) => {
+  const conditions = rule?.conditions || [];
+
+  const setConditions = (next: VisibilityCondition[]) => {
+    onChange(
+      next.length > 0
+        ? { combinator: rule?.combinator || "and", conditions: next }
+        : undefined,
+    );
+  };
+
+  const updateCondition = (
+    index: number,
+    updates: Partial<VisibilityCondition>,
+  ) => {
+    setConditions(
+      conditions.map((condition, i) =>
+        i === index ? { ...condition, ...updates } : condition,
+      ),
+    );
+  };
+
+  const addCondition = () => {
+    const field = fields[0];
+    setConditions([
+      ...conditions,
+      { fieldId: field.id, operator: operatorsFor(field)[0], value: "" },
+    ]);
+  };
+
+  const handleFieldChange = (index: number, fieldId: string) => {
+    const field = fields.find((f) => f.id === fieldId);
+    // Keep the operator when the new field supports it, the old value rarely fits
+    const operators = operatorsFor(field);
+    const operator = operators.includes(conditions[index].operator)
+      ? conditions[index].operator
+      : operators[0];
+    updateCondition(index, { fieldId, operator, value: "" });
+  };
+
+  const renderValueInput = (condition: VisibilityCondition, index: number) => {
+    const field = fields.find((f) => f.id === condition.fieldId);
+
+    if (field?.type === "dropdown") {
+      const options = (field.properties as DropdownProperties).options || [];
+
+      if (condition.operator === "in") {
+        const selected = Array.isArray(condition.value) ? condition.value : [];
+        return (
+          <div className="flex flex-wrap gap-3">
+            {options.map((option) => (
+              <label
+                key={option.id}
+                className="flex items-center gap-1.5 text-sm"
+              >
+                <Checkbox
+                  checked={selected.includes(option.value)}
+                  onCheckedChange={(checked) =>
+                    updateCondition(index, {
+                      value: checked
+                        ? [...selected, option.value]
+                        : selected.filter((value) => value !== option.value),
+                    })
+                  }
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+      }
+
+      return (
+        <Select
+          value={typeof condition.value === "string" ? condition.value : ""}
+          onValueChange={(value) => updateCondition(index, { value })}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue placeholder="Select an option" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option.id} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    // Free text lists are entered comma separated; spaces are ignored when
+    // the rule is evaluated, so they're kept here to not fight the typing
+    const value = Array.isArray(condition.value)
+      ? condition.value.join(",")
+      : condition.value || "";
+    return (
+      <Input
+        type={
+          field?.type === "number"
+            ? "number"
+            : field?.type === "date-picker" || field?.type === "datetime"
+              ? "date"
+              : "text"
+        }
+        value={value}
+        onChange={(e) =>
+          updateCondition(index, {
+            value:
+              condition.operator === "in"
+                ? e.target.value.split(",")
+                : e.target.value,
+          })
+        }
+        placeholder={condition.operator === "in" ? "Yes, Maybe" : "Value"}
+        className="h-8"
+      />
+    );
+  };
+
+  if (fields.length === 0) return null;
+
+  if (conditions.length === 0) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={addCondition}
+        className="h-8 text-xs text-blue-600 hover:text-blue-700"
+      >
+        <Eye className="w-3 h-3 mr-1" />
+        Show conditionally
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border border-gray-200 bg-gray-50 p-3">
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <Eye className="w-4 h-4 text-gray-500" />
+        <span>Show only when</span>
+        <Select
+          value={rule.combinator}
+          onValueChange={(combinator: "and" | "or") =>
+            onChange({ ...rule, combinator })
+          }
+        >
+          <SelectTrigger className="h-8 w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">all</SelectItem>
+            <SelectItem value="or">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>of these are true</span>
+      </div>
+
+      {conditions.map((condition, index) => {
+        const field = fields.find((f) => f.id === condition.fieldId);
+        return (
+          <div key={index} className="flex items-start gap-2">
+            <div className="grid flex-1 grid-cols-1 gap-2 sm:grid-cols-3">
+              <Select
+                value={field ? condition.fieldId : undefined}
+                onValueChange={(fieldId) => handleFieldChange(index, fieldId)}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Deleted question" />
+                </SelectTrigger>
+                <SelectContent>
+                  {fields.map((f) => (
+                    <SelectItem key={f.id} value={f.id}>
+                      {f.label || "Untitled Question"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={condition.operator}
+                onValueChange={(operator: ConditionOperator) =>
+                  updateCondition(index, {
+                    operator,
+                    value: needsValue(operator) ? condition.value : undefined,
+                  })
+                }
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {operatorsFor(field).map((operator) => (
+                    <SelectItem key={operator} value={operator}>
+                      {operatorLabel(operator, field)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {needsValue(condition.operator) &&
+                renderValueInput(condition, index)}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                setConditions(conditions.filter((_, i) => i !== index))
+              }
+              className="h-8 w-8 p-0"
+              aria-label="Remove condition"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        );
+      })}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={addCondition}
+        className="h-8 text-xs text-blue-600 hover:text-blue-700"
+      >
+        <Plus className="w-3 h-3 mr-1" />
+        Add condition
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+import {
+  AsyncValidation,
+  AsyncValidationState,
+  createAsyncValidation,
+} from "@/lib/async-validation";
+
+export interface UseAsyncValidationResult
+  extends AsyncValidation,
+    AsyncValidationState {}
+
+/**
+ * Debounced, cancellable async checks of a form's answers (see
+ * `async-validation`), with the fields still being checked and the errors
+ * found as state. Checks still running are cancelled on unmount. Server
+ * checks run against `formVersionId`, or the published version without one.
+ */
+export const useAsyncValidation = (
+  formId: string,
+  formVersionId?: string,
+): UseAsyncValidationResult => {
+  const [state, setState] = useState<AsyncValidationState>({
+    pending: [],
+    errors: [],
+  });
+  const [validation] = useState(() =>
+    createAsyncValidation({ formId, formVersionId, onChange: setState }),
+  );
+
+  useEffect(() => () => validation.cancelAll(), [validation]);
+
+  return { ...validation, ...state };
+};
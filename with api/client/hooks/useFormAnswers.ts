@@ -0,0 +1,221 @@
+import { useMemo, useState } from "react";
+import {
+  FormField,
+  FormItem,
+  FormSchema,
+  FormSection,
+  getAllFields,
+} from "@shared/form-schema";
+import { ValidationError, validateField } from "@shared/form-validation";
+import { getHiddenItemIds, isEmptyValue } from "@shared/visibility";
+import {
+  RepeatEntry,
+  entryFieldKey,
+  flattenEntries,
+  getEntries,
+  getEntryCount,
+  getRepeatableSections,
+} from "@shared/repeatable-sections";
+import { buildFormulaGraph, computeCalculatedValues } from "@shared/formula";
+
+// The entry of a repeatable section a field is answered in
+export interface EntryLocation {
+  section: FormSection;
+  index: number;
+}
+
+export interface SectionProgress {
+  answered: number;
+  total: number;
+}
+
+export interface UseFormAnswersOptions {
+  schema: FormSchema;
+  initialValues?: Record<string, any>;
+  onValuesChange?: (values: Record<string, any>) => void;
+}
+
+export interface UseFormAnswersResult {
+  values: Record<string, any>;
+  // Messages by field id, or entryFieldKey for fields of an entry
+  errors: Record<string, string>;
+  hiddenItems: Set<string>;
+  isShown: (item: FormItem) => boolean;
+  hasShownFields: (section: FormSection) => boolean;
+  repeatableSections: FormSection[];
+  // Fields answered per entry of a repeatable section
+  repeatedFieldIds: Set<string>;
+  getFieldKey: (field: FormField, entry?: EntryLocation) => string;
+  getFieldValue: (field: FormField, entry?: EntryLocation) => any;
+  updateValue: (field: FormField, value: any, entry?: EntryLocation) => void;
+  addEntry: (section: FormSection) => void;
+  removeEntry: (section: FormSection, index: number) => void;
+  clear: () => void;
+  showErrors: (errors: ValidationError[]) => void;
+  getSectionProgress: (section: FormSection) => SectionProgress;
+  // Whether every required question outside repeatable sections is answered
+  canSubmit: () => boolean;
+}
+
+/**
+ * The answers of a form being filled in, shared by the renderers: calculated
+ * fields are worked out again as answers change, entries of repeatable
+ * sections are added and removed, and the errors of what changed are
+ * cleared.
+ */
+export const useFormAnswers = ({
+  schema,
+  initialValues = {},
+  onValuesChange,
+}: UseFormAnswersOptions): UseFormAnswersResult => {
+  const formulas = useMemo(() => buildFormulaGraph(schema), [schema]);
+  const [values, setValues] = useState<Record<string, any>>(() =>
+    computeCalculatedValues(schema, initialValues, undefined, formulas),
+  );
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Visibility rules are re-evaluated against every change to the answers
+  const hiddenItems = getHiddenItemIds(schema, values);
+  const isShown = (item: FormItem) => !hiddenItems.has(item.id);
+  const hasShownFields = (section: FormSection) =>
+    isShown(section) && getAllFields(section.fields).some(isShown);
+
+  const repeatableSections = getRepeatableSections(schema);
+  const repeatedFieldIds = new Set(
+    repeatableSections.flatMap((section) =>
+      getAllFields(section.fields).map((field) => field.id),
+    ),
+  );
+
+  const commitValues = (
+    answers: Record<string, any>,
+    changedFieldId: string | undefined,
+    errorKeys: string[],
+  ) => {
+    // Calculated fields that read the changed answer are worked out again
+    const newValues = computeCalculatedValues(
+      schema,
+      answers,
+      changedFieldId,
+      formulas,
+    );
+    setValues(newValues);
+    onValuesChange?.(newValues);
+
+    // Clear validation errors for what changed
+    if (errorKeys.some((key) => errors[key])) {
+      setErrors((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).filter(([key]) => !errorKeys.includes(key)),
+        ),
+      );
+    }
+  };
+
+  const getFieldKey = (field: FormField, entry?: EntryLocation) =>
+    entry ? entryFieldKey(entry.section.id, entry.index, field.id) : field.id;
+
+  const getFieldValue = (field: FormField, entry?: EntryLocation) =>
+    entry
+      ? getEntries(values, entry.section)[entry.index]?.[field.id]
+      : values[field.id];
+
+  const updateValue = (field: FormField, value: any, entry?: EntryLocation) => {
+    if (!entry) {
+      commitValues({ ...values, [field.id]: value }, field.id, [field.id]);
+      return;
+    }
+    const { section, index } = entry;
+    const entries: RepeatEntry[] = [...getEntries(values, section)];
+    entries[index] = { ...entries[index], [field.id]: value };
+    commitValues({ ...values, [section.id]: entries }, field.id, [
+      getFieldKey(field, entry),
+      section.id,
+    ]);
+  };
+
+  const addEntry = (section: FormSection) => {
+    const entries = [...getEntries(values, section)];
+    // Entries shown but not yet answered are stored before the new one
+    while (entries.length < getEntryCount(values, section)) {
+      entries.push({});
+    }
+    commitValues({ ...values, [section.id]: [...entries, {}] }, undefined, [
+      section.id,
+    ]);
+  };
+
+  const removeEntry = (section: FormSection, index: number) => {
+    const entries = getEntries(values, section).filter((_, i) => i !== index);
+    commitValues({ ...values, [section.id]: entries }, undefined, []);
+    // Errors of later entries would now point at the wrong one
+    setErrors((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(
+          ([key]) => !key.startsWith(`${section.id}.`),
+        ),
+      ),
+    );
+  };
+
+  const clear = () => {
+    const newValues = computeCalculatedValues(schema, {}, undefined, formulas);
+    setValues(newValues);
+    setErrors({});
+    onValuesChange?.(newValues);
+  };
+
+  const showErrors = (validationErrors: ValidationError[]) => {
+    setErrors(
+      Object.fromEntries(
+        validationErrors.map((error) => [error.fieldId, error.message]),
+      ),
+    );
+  };
+
+  const getSectionProgress = (section: FormSection): SectionProgress => {
+    // A repeated question counts as answered once any entry answers it
+    const answers = flattenEntries(schema, values);
+    const visibleFields = getAllFields(section.fields).filter(isShown);
+    return {
+      answered: visibleFields.filter(
+        (field) => !isEmptyValue(answers[field.id]),
+      ).length,
+      total: visibleFields.length,
+    };
+  };
+
+  const canSubmit = () =>
+    // Repeated fields are only required in the entries that are filled in,
+    // which validation checks on submit
+    getAllFields(schema.items)
+      .filter(
+        (field) =>
+          field.required && isShown(field) && !repeatedFieldIds.has(field.id),
+      )
+      // Blank the way validation sees it, e.g. [] or a range with no days
+      .every((field) =>
+        validateField(field, values[field.id]).every(
+          (error) => error.code !== "required",
+        ),
+      );
+
+  return {
+    values,
+    errors,
+    hiddenItems,
+    isShown,
+    hasShownFields,
+    repeatableSections,
+    repeatedFieldIds,
+    getFieldKey,
+    getFieldValue,
+    updateValue,
+    addEntry,
+    removeEntry,
+    clear,
+    showErrors,
+    getSectionProgress,
+    canSubmit,
+  };
+};
@@ -0,0 +1,65 @@
+import { useCallback, useState } from "react";
+import {
+  DEFAULT_HISTORY_LIMIT,
+  createHistory,
+  recordChange,
+  redo as redoHistory,
+  undo as undoHistory,
+} from "@/lib/undo-history";
+
+export interface UndoableChangeOptions {
+  // Changes with the same key in quick succession undo as one step
+  coalesceKey?: string;
+}
+
+export interface UseUndoHistoryResult<T> {
+  state: T;
+  set: (next: T, options?: UndoableChangeOptions) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * State with a bounded undo/redo stack. Steps are kept by reference, so the
+ * state must be updated immutably (see `schema-ops` for form schemas).
+ */
+export const useUndoHistory = <T>(
+  initialState: T | (() => T),
+  limit: number = DEFAULT_HISTORY_LIMIT,
+): UseUndoHistoryResult<T> => {
+  const [history, setHistory] = useState(() =>
+    createHistory(
+      typeof initialState === "function"
+        ? (initialState as () => T)()
+        : initialState,
+    ),
+  );
+
+  const set = useCallback(
+    (next: T, options: UndoableChangeOptions = {}) => {
+      const now = Date.now();
+      setHistory((current) =>
+        recordChange(current, next, {
+          coalesceKey: options.coalesceKey,
+          now,
+          limit,
+        }),
+      );
+    },
+    [limit],
+  );
+
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
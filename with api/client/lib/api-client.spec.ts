@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  ApiError,
+  deserializeFormSchema,
+  formsApi,
+  serializeFormSchema,
+} from "./api-client";
+import {
+  CURRENT_SCHEMA_VERSION,
+  FIELD_TYPES,
+  FieldType,
+  createDefaultField,
+  createDefaultForm,
+} from "./form-schema";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+describe("form schema serialisation", () => {
+  it("should round-trip createdAt and updatedAt as Dates", () => {
+    const schema = createDefaultForm();
+    schema.createdAt = new Date("2024-03-01T10:00:00.000Z");
+    schema.updatedAt = new Date("2024-03-02T10:00:00.000Z");
+
+    const restored = deserializeFormSchema(serializeFormSchema(schema));
+    expect(restored.createdAt).toBeInstanceOf(Date);
+    expect(restored.createdAt.toISOString()).toBe("2024-03-01T10:00:00.000Z");
+    expect(restored.updatedAt.toISOString()).toBe("2024-03-02T10:00:00.000Z");
+  });
+
+  it("should save the current version and upgrade older documents", () => {
+    const saved = JSON.parse(serializeFormSchema(createDefaultForm()));
+    expect(saved.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+
+    const legacy = deserializeFormSchema(
+      JSON.stringify({
+        id: "legacy",
+        title: "Legacy",
+        sections: [
+          {
+            id: "s",
+            title: "S",
+            fields: [{ id: "q", type: "text", label: "Q" }],
+          },
+        ],
+      }),
+    );
+    expect(legacy.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(legacy.items[0]).toMatchObject({
+      id: "s",
+      fields: [{ id: "q", type: "short-text" }],
+    });
+  });
+
+  it("should accept every field type and reject malformed documents", () => {
+    const schema = createDefaultForm();
+    schema.items = (Object.keys(FIELD_TYPES) as FieldType[]).map(
+      (type, order) => ({ ...createDefaultField(type), id: type, order }),
+    );
+    expect(
+      deserializeFormSchema(serializeFormSchema(schema)).items,
+    ).toHaveLength(schema.items.length);
+
+    const broken = JSON.stringify({
+      ...schema,
+      items: [{ ...schema.items[0], required: "yes" }],
+    });
+    expect(() => deserializeFormSchema(broken)).toThrow(
+      "Invalid form schema: items[0].required: Expected boolean, received string",
+    );
+  });
+});
+
+describe("formsApi", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should use the stored id, title and dates when loading a form", async () => {
+    const schema = createDefaultForm();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn().mockResolvedValue(
+        jsonResponse({
+          id: "server-id",
+          title: "Stored title",
+          description: "",
+          schema: serializeFormSchema(schema),
+          isPublished: true,
+          publishedVersionId: "v1",
+          createdAt: "2024-01-01T00:00:00.000Z",
+          updatedAt: "2024-01-02T00:00:00.000Z",
+          createdBy: "",
+          responseCount: 3,
+        }),
+      ),
+    );
+
+    const form = await formsApi.getForm("server-id");
+    expect(form.schema.id).toBe("server-id");
+    expect(form.schema.title).toBe("Stored title");
+    expect(form.updatedAt).toBeInstanceOf(Date);
+    expect(form.responseCount).toBe(3);
+  });
+
+  it("should surface the API error message", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi
+        .fn()
+        .mockResolvedValue(jsonResponse({ message: "Form not found" }, 404)),
+    );
+
+    const error = await formsApi.getForm("missing").catch((e) => e);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(404);
+    expect(error.message).toBe("Form not found");
+  });
+
+  it("should send file details and surface rejected answers", async () => {
+    const errors = [{ fieldId: "cv", message: "CV accepts only .pdf files" }];
+    const fetch = vi
+      .fn()
+      .mockResolvedValue(
+        jsonResponse({ message: "Some answers are invalid", errors }, 400),
+      );
+    vi.stubGlobal("fetch", fetch);
+
+    const error = await formsApi
+      .submitResponse({
+        formId: "form",
+        values: { cv: new File(["abc"], "cv.txt", { type: "text/plain" }) },
+      })
+      .catch((e) => e);
+
+    const body = JSON.parse(fetch.mock.calls[0][1].body);
+    expect(JSON.parse(body.responseData)).toEqual({
+      cv: { name: "cv.txt", size: 3, type: "text/plain" },
+    });
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.errors).toEqual(errors);
+  });
+});
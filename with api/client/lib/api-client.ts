@@ -0,0 +1,577 @@
+/**
+ * API Client
+ *
+ * Typed access to the forms API (see server/README.md) plus the React Query
+ * hooks the pages use. FormSchema dates travel as ISO strings and are turned
+ * back into Date objects here, so the rest of the client only sees Dates.
+ */
+
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  QueryClient,
+} from "@tanstack/react-query";
+import {
+  AnswerCheckRequest,
+  AnswerCheckResponse,
+  ApiErrorResponse,
+  CloneFormRequest,
+  CreatedResponse,
+  CreateFormRequest,
+  Form,
+  FormListItem,
+  FormResponseQuery,
+  FormVersion,
+  FormVersionListItem,
+  PaginatedFormResponses,
+  SubmitFormRequest,
+  SubmitFormResponse,
+  UpdateFormRequest,
+} from "@shared/api";
+import { ValidationError } from "@shared/form-validation";
+import { migrateFormSchema } from "@shared/schema-migrations";
+import { assertValidDocument, formSchemaSchema } from "@shared/schemas";
+import { toast } from "@/hooks/use-toast";
+import { CURRENT_SCHEMA_VERSION, FormSchema } from "@shared/form-schema";
+
+export interface FormSummary
+  extends Omit<FormListItem, "createdAt" | "updatedAt"> {
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FormRecord extends FormSummary {
+  schema: FormSchema;
+}
+
+// A saved or published snapshot; respondents fill in published ones
+export interface FormVersionSummary
+  extends Omit<FormVersionListItem, "createdAt"> {
+  createdAt: Date;
+}
+
+export interface FormVersionRecord extends FormVersionSummary {
+  schema: FormSchema;
+}
+
+export interface SaveFormInput {
+  formId?: string | null;
+  schema: FormSchema;
+  // Keeps the current publish state when omitted
+  isPublished?: boolean;
+}
+
+export interface SubmitResponseInput {
+  formId: string;
+  formVersionId?: string;
+  values: Record<string, any>;
+  submittedBy?: string;
+}
+
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    // Per-field errors when a submitted response is rejected
+    public errors?: ValidationError[],
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+export const formKeys = {
+  all: ["forms"] as const,
+  detail: (id: string) => ["forms", id] as const,
+  published: (id: string) => ["forms", id, "published"] as const,
+  versions: (id: string) => ["forms", id, "versions"] as const,
+  version: (id: string, versionId: string) =>
+    ["forms", id, "versions", versionId] as const,
+  responses: (id: string, query: Partial<FormResponseQuery>) =>
+    ["forms", id, "responses", query] as const,
+};
+
+const API_BASE = "/api";
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${API_BASE}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+
+  if (!response.ok) {
+    let message = `Request failed with status ${response.status}`;
+    let errors: ValidationError[] | undefined;
+    try {
+      const body: ApiErrorResponse = await response.json();
+      message = body.message || message;
+      errors = body.errors;
+    } catch {
+      // Non-JSON error body, keep the generic message
+    }
+    throw new ApiError(message, response.status, errors);
+  }
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  return response.json();
+};
+
+// Date fields become ISO strings through JSON.stringify. Schemas in memory
+// are always in the current shape, so that's the version they're saved as
+export const serializeFormSchema = (schema: FormSchema): string =>
+  JSON.stringify({ ...schema, schemaVersion: CURRENT_SCHEMA_VERSION });
+
+// Documents saved in an older shape are upgraded first. Anything that still
+// doesn't look like a FormSchema throws a SchemaValidationError
+export const deserializeFormSchema = (json: string): FormSchema => {
+  const parsed = migrateFormSchema(JSON.parse(json));
+  assertValidDocument(formSchemaSchema, parsed, "Invalid form schema");
+  return {
+    ...(parsed as FormSchema),
+    items: parsed.items || [],
+    createdAt: new Date(parsed.createdAt ?? Date.now()),
+    updatedAt: new Date(parsed.updatedAt ?? Date.now()),
+    closesAt: parsed.closesAt ? new Date(parsed.closesAt) : undefined,
+  };
+};
+
+// Uploads are sent as the file's details, which the server validates; the
+// API doesn't store file contents
+const serializeAnswer = (_key: string, value: unknown) =>
+  typeof File !== "undefined" && value instanceof File
+    ? { name: value.name, size: value.size, type: value.type }
+    : value;
+
+const toFormSummary = (form: FormListItem): FormSummary => ({
+  ...form,
+  createdAt: new Date(form.createdAt),
+  updatedAt: new Date(form.updatedAt),
+});
+
+// The stored record is the source of truth for id, title and description
+const toFormRecord = (form: Form): FormRecord => {
+  const summary = toFormSummary(form);
+  return {
+    ...summary,
+    schema: {
+      ...deserializeFormSchema(form.schema),
+      id: form.id,
+      title: form.title,
+      description: form.description,
+    },
+  };
+};
+
+const toVersionSummary = (
+  version: FormVersionListItem,
+): FormVersionSummary => ({
+  ...version,
+  createdAt: new Date(version.createdAt),
+});
+
+const toVersionRecord = (version: FormVersion): FormVersionRecord => ({
+  ...toVersionSummary(version),
+  schema: {
+    ...deserializeFormSchema(version.schema),
+    id: version.formId,
+    title: version.title,
+    description: version.description,
+  },
+});
+
+export const formsApi = {
+  async getForms(): Promise<FormSummary[]> {
+    const forms = await request<FormListItem[]>("/forms");
+    return forms.map(toFormSummary);
+  },
+
+  async getForm(id: string): Promise<FormRecord> {
+    const form = await request<Form>(`/forms/${encodeURIComponent(id)}`);
+    return toFormRecord(form);
+  },
+
+  async createForm(schema: FormSchema): Promise<string> {
+    const body: CreateFormRequest = {
+      title: schema.title,
+      description: schema.description,
+      schema: serializeFormSchema(schema),
+    };
+    const created = await request<CreatedResponse>("/forms", {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
+    return created.id;
+  },
+
+  async updateForm(
+    id: string,
+    schema: FormSchema,
+    isPublished: boolean,
+  ): Promise<void> {
+    const body: UpdateFormRequest = {
+      title: schema.title,
+      description: schema.description,
+      schema: serializeFormSchema({ ...schema, id }),
+      isPublished,
+    };
+    await request<void>(`/forms/${encodeURIComponent(id)}`, {
+      method: "PUT",
+      body: JSON.stringify(body),
+    });
+  },
+
+  async publishForm(id: string): Promise<FormVersionRecord> {
+    const version = await request<FormVersion>(
+      `/forms/${encodeURIComponent(id)}/publish`,
+      { method: "POST", body: JSON.stringify({}) },
+    );
+    return toVersionRecord(version);
+  },
+
+  async getPublishedForm(id: string): Promise<FormVersionRecord> {
+    const version = await request<FormVersion>(
+      `/forms/${encodeURIComponent(id)}/published`,
+    );
+    return toVersionRecord(version);
+  },
+
+  async getFormVersions(id: string): Promise<FormVersionSummary[]> {
+    const versions = await request<FormVersionListItem[]>(
+      `/forms/${encodeURIComponent(id)}/versions`,
+    );
+    return versions.map(toVersionSummary);
+  },
+
+  async getFormVersion(
+    id: string,
+    versionId: string,
+  ): Promise<FormVersionRecord> {
+    const version = await request<FormVersion>(
+      `/forms/${encodeURIComponent(id)}/versions/${encodeURIComponent(versionId)}`,
+    );
+    return toVersionRecord(version);
+  },
+
+  async restoreFormVersion(id: string, versionId: string): Promise<void> {
+    await request<void>(
+      `/forms/${encodeURIComponent(id)}/versions/${encodeURIComponent(versionId)}/restore`,
+      { method: "POST", body: JSON.stringify({}) },
+    );
+  },
+
+  async cloneForm(id: string, title: string): Promise<string> {
+    const body: CloneFormRequest = { title };
+    const created = await request<CreatedResponse>(
+      `/forms/${encodeURIComponent(id)}/clone`,
+      { method: "POST", body: JSON.stringify(body) },
+    );
+    return created.id;
+  },
+
+  async deleteForm(id: string): Promise<void> {
+    await request<void>(`/forms/${encodeURIComponent(id)}`, {
+      method: "DELETE",
+    });
+  },
+
+  async getFormResponses(
+    formId: string,
+    query: Partial<FormResponseQuery> = {},
+  ): Promise<PaginatedFormResponses> {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") {
+        params.set(key, String(value));
+      }
+    });
+    const search = params.toString();
+    return request<PaginatedFormResponses>(
+      `/formresponses/form/${encodeURIComponent(formId)}${search ? `?${search}` : ""}`,
+    );
+  },
+
+  async submitResponse(input: SubmitResponseInput): Promise<string> {
+    const body: SubmitFormRequest = {
+      formId: input.formId,
+      formVersionId: input.formVersionId,
+      responseData: JSON.stringify(input.values, serializeAnswer),
+      submittedBy: input.submittedBy,
+    };
+    const result = await request<SubmitFormResponse>("/formresponses/submit", {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
+    return result.id;
+  },
+
+  // Aborting the signal cancels a check whose answer has changed since
+  async checkAnswer(
+    input: AnswerCheckRequest,
+    signal?: AbortSignal,
+  ): Promise<AnswerCheckResponse> {
+    return request<AnswerCheckResponse>("/formresponses/check", {
+      method: "POST",
+      body: JSON.stringify(input, serializeAnswer),
+      signal,
+    });
+  },
+};
+
+const showError = (title: string, error: unknown) => {
+  toast({
+    variant: "destructive",
+    title,
+    description:
+      error instanceof Error ? error.message : "Something went wrong",
+  });
+};
+
+interface OptimisticContext {
+  previousForm?: FormRecord;
+  previousForms?: FormSummary[];
+}
+
+// Writes the pending change into the cache and remembers what to roll back to
+const applyOptimisticUpdate = async (
+  queryClient: QueryClient,
+  formId: string,
+  schema: FormSchema,
+  isPublished: boolean,
+): Promise<OptimisticContext> => {
+  await queryClient.cancelQueries({ queryKey: formKeys.all });
+
+  const previousForm = queryClient.getQueryData<FormRecord>(
+    formKeys.detail(formId),
+  );
+  const previousForms = queryClient.getQueryData<FormSummary[]>(formKeys.all);
+  const updatedAt = new Date();
+
+  if (previousForm) {
+    queryClient.setQueryData<FormRecord>(formKeys.detail(formId), {
+      ...previousForm,
+      title: schema.title,
+      description: schema.description,
+      schema: { ...schema, id: formId },
+      isPublished,
+      updatedAt,
+    });
+  }
+  if (previousForms) {
+    queryClient.setQueryData<FormSummary[]>(
+      formKeys.all,
+      previousForms.map((form) =>
+        form.id === formId
+          ? {
+              ...form,
+              title: schema.title,
+              description: schema.description,
+              isPublished,
+              updatedAt,
+            }
+          : form,
+      ),
+    );
+  }
+
+  return { previousForm, previousForms };
+};
+
+const rollback = (
+  queryClient: QueryClient,
+  formId: string | null | undefined,
+  context: OptimisticContext | undefined,
+) => {
+  if (formId && context?.previousForm) {
+    queryClient.setQueryData(formKeys.detail(formId), context.previousForm);
+  }
+  if (context?.previousForms) {
+    queryClient.setQueryData(formKeys.all, context.previousForms);
+  }
+};
+
+const getCachedPublishState = (
+  queryClient: QueryClient,
+  formId: string | null | undefined,
+): boolean =>
+  (formId &&
+    queryClient.getQueryData<FormRecord>(formKeys.detail(formId))
+      ?.isPublished) ||
+  false;
+
+// A missing form won't appear on retry, so fail fast on 404s
+// Missing and unpublished forms won't turn up by asking again
+const retryUnlessNotFound = (failureCount: number, error: Error) =>
+  !(error instanceof ApiError && [403, 404].includes(error.status)) &&
+  failureCount < 3;
+
+export const useForms = () =>
+  useQuery({
+    queryKey: formKeys.all,
+    queryFn: formsApi.getForms,
+  });
+
+export const useForm = (id: string | null | undefined) =>
+  useQuery({
+    queryKey: formKeys.detail(id || ""),
+    queryFn: () => formsApi.getForm(id!),
+    enabled: !!id,
+    retry: retryUnlessNotFound,
+  });
+
+const useFormMutation = (errorTitle: string, publish?: boolean) => {
+  const queryClient = useQueryClient();
+
+  return useMutation<string, Error, SaveFormInput, OptimisticContext>({
+    mutationFn: async ({ formId, schema, isPublished }) => {
+      // Saving only updates the draft, respondents keep the published version
+      const published =
+        isPublished ?? getCachedPublishState(queryClient, formId);
+      const id = formId || (await formsApi.createForm(schema));
+      if (formId) {
+        await formsApi.updateForm(formId, schema, published);
+      }
+      if (publish) {
+        await formsApi.publishForm(id);
+      }
+      return id;
+    },
+    onMutate: async ({ formId, schema, isPublished }) => {
+      if (!formId) return {};
+      const published =
+        publish || (isPublished ?? getCachedPublishState(queryClient, formId));
+      return applyOptimisticUpdate(queryClient, formId, schema, published);
+    },
+    onError: (error, { formId }, context) => {
+      rollback(queryClient, formId, context);
+      showError(errorTitle, error);
+    },
+    onSettled: (id, _error, { formId }) => {
+      queryClient.invalidateQueries({ queryKey: formKeys.all, exact: true });
+      const savedId = id || formId;
+      if (savedId) {
+        queryClient.invalidateQueries({ queryKey: formKeys.detail(savedId) });
+      }
+    },
+  });
+};
+
+export const useSaveForm = () => useFormMutation("Could not save form");
+
+export const usePublishForm = () =>
+  useFormMutation("Could not publish form", true);
+
+export const usePublishedForm = (id: string | null | undefined) =>
+  useQuery({
+    queryKey: formKeys.published(id || ""),
+    queryFn: () => formsApi.getPublishedForm(id!),
+    enabled: !!id,
+    retry: retryUnlessNotFound,
+  });
+
+export const useFormVersions = (id: string | null | undefined) =>
+  useQuery({
+    queryKey: formKeys.versions(id || ""),
+    queryFn: () => formsApi.getFormVersions(id!),
+    enabled: !!id,
+  });
+
+// Versions never change, so a loaded one can be kept indefinitely
+export const useFormVersion = (
+  id: string | null | undefined,
+  versionId: string | null | undefined,
+) =>
+  useQuery({
+    queryKey: formKeys.version(id || "", versionId || ""),
+    queryFn: () => formsApi.getFormVersion(id!, versionId!),
+    enabled: !!id && !!versionId,
+    staleTime: Infinity,
+  });
+
+export const useRestoreFormVersion = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      formId,
+      versionId,
+    }: {
+      formId: string;
+      versionId: string;
+    }) => formsApi.restoreFormVersion(formId, versionId),
+    onError: (error) => showError("Could not restore version", error),
+    onSettled: (_data, _error, { formId }) => {
+      queryClient.invalidateQueries({ queryKey: formKeys.all, exact: true });
+      queryClient.invalidateQueries({ queryKey: formKeys.detail(formId) });
+    },
+  });
+};
+
+export const useSubmitResponse = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: formsApi.submitResponse,
+    onError: (error) => showError("Could not submit response", error),
+    onSuccess: (_id, { formId }) => {
+      // Response counts changed
+      queryClient.invalidateQueries({ queryKey: formKeys.all, exact: true });
+      queryClient.invalidateQueries({ queryKey: formKeys.detail(formId) });
+    },
+  });
+};
+
+export const useCloneForm = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) =>
+      formsApi.cloneForm(id, title),
+    onError: (error) => showError("Could not clone form", error),
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: formKeys.all, exact: true }),
+  });
+};
+
+export const useDeleteForm = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string, OptimisticContext>({
+    mutationFn: formsApi.deleteForm,
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: formKeys.all });
+      const previousForms = queryClient.getQueryData<FormSummary[]>(
+        formKeys.all,
+      );
+      if (previousForms) {
+        queryClient.setQueryData<FormSummary[]>(
+          formKeys.all,
+          previousForms.filter((form) => form.id !== id),
+        );
+      }
+      return { previousForms };
+    },
+    onError: (error, id, context) => {
+      rollback(queryClient, id, context);
+      showError("Could not delete form", error);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.removeQueries({ queryKey: formKeys.detail(id) });
+    },
+    onSettled: () =>
+      queryClient.invalidateQueries({ queryKey: formKeys.all, exact: true }),
+  });
+};
+
+export const useFormResponses = (
+  formId: string | null | undefined,
+  query: Partial<FormResponseQuery> = {},
+) =>
+  useQuery({
+    queryKey: formKeys.responses(formId || "", query),
+    queryFn: () => formsApi.getFormResponses(formId!, query),
+    enabled: !!formId,
+    placeholderData: (previous) => previous,
+  });
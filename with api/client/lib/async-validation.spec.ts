@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  AsyncValidationState,
+  createAsyncValidation,
+  registerAsyncValidator,
+} from "./async-validation";
+import { FieldType, FormField } from "@shared/form-schema";
+import { formsApi } from "./api-client";
+
+const TYPE = "employee-id" as FieldType;
+
+const field: FormField = {
+  id: "employee",
+  type: TYPE,
+  label: "Employee ID",
+  required: false,
+  showDescription: false,
+  properties: {},
+  order: 0,
+};
+
+describe("createAsyncValidation", () => {
+  let lookups: { value: string; signal: AbortSignal }[];
+  let states: AsyncValidationState[];
+
+  const create = () =>
+    createAsyncValidation({
+      formId: "form",
+      delay: 300,
+      onChange: (state) => states.push(state),
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    lookups = [];
+    states = [];
+    registerAsyncValidator(TYPE, async (value, _field, { signal }) => {
+      lookups.push({ value, signal });
+      return value === "E404" ? "No employee has this ID" : null;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should only check the answer once typing pauses", async () => {
+    const validation = create();
+
+    validation.schedule(field, "E4");
+    await vi.advanceTimersByTimeAsync(200);
+    validation.schedule(field, "E404");
+    expect(states[states.length - 1].pending).toEqual(["employee"]);
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(lookups.map((lookup) => lookup.value)).toEqual(["E404"]);
+    expect(states[states.length - 1]).toEqual({
+      pending: [],
+      errors: [
+        {
+          fieldId: "employee",
+          message: "No employee has this ID",
+          code: "async",
+        },
+      ],
+    });
+  });
+
+  it("should cancel the running check when the answer changes", async () => {
+    let finish: (message: string | null) => void;
+    registerAsyncValidator(TYPE, (value, _field, { signal }) => {
+      lookups.push({ value, signal });
+      return new Promise((resolve) => (finish = resolve));
+    });
+    const validation = create();
+
+    validation.schedule(field, "E404");
+    await vi.advanceTimersByTimeAsync(300);
+    validation.schedule(field, "E1");
+    finish("No employee has this ID");
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(lookups[0].signal.aborted).toBe(true);
+    expect(states[states.length - 1]).toEqual({
+      pending: ["employee"],
+      errors: [],
+    });
+  });
+
+  it("should settle by running waiting checks straight away", async () => {
+    const validation = create();
+
+    validation.schedule(field, "E404");
+    const errors = await validation.settle();
+
+    expect(errors.map((error) => error.code)).toEqual(["async"]);
+    expect(states[states.length - 1].pending).toEqual([]);
+  });
+
+  it("should let answers pass when their check fails to run", async () => {
+    registerAsyncValidator(TYPE, () => Promise.reject(new Error("Offline")));
+    const validation = create();
+
+    validation.schedule(field, "E404");
+
+    expect(await validation.settle()).toEqual([]);
+  });
+
+  it("should not check blank answers", async () => {
+    const validation = create();
+
+    validation.schedule(field, " ");
+
+    expect(await validation.settle()).toEqual([]);
+    expect(lookups).toEqual([]);
+  });
+
+  it("should run server checks against the version being filled in", async () => {
+    const checkAnswer = vi
+      .spyOn(formsApi, "checkAnswer")
+      .mockResolvedValue({ valid: true });
+    const validation = createAsyncValidation({
+      formId: "form",
+      formVersionId: "version-2",
+      onChange: () => {},
+    });
+    const email: FormField = {
+      ...field,
+      id: "email",
+      type: "short-text",
+      properties: { validation: { asyncCheck: "unique" } },
+    };
+
+    validation.schedule(email, "a@example.com");
+    await validation.settle();
+
+    expect(checkAnswer).toHaveBeenCalledWith(
+      {
+        formId: "form",
+        formVersionId: "version-2",
+        fieldId: "email",
+        value: "a@example.com",
+      },
+      expect.any(AbortSignal),
+    );
+    checkAnswer.mockRestore();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Async Validation
+ *
+ * Checks that need a round trip, e.g. "this email hasn't responded yet".
+ * A field runs them when its type registers an async validator, or when its
+ * `validation.asyncCheck` names a check of the server (see
+ * server/services/answer-checks.ts). The synchronous rules stay in
+ * shared/form-validation.ts.
+ *
+ * Checks start once typing pauses, and a newer answer cancels the check
+ * still running for the old one. A check that fails to run doesn't block the
+ * respondent: the server runs its checks again on submit.
+ */
+
+import { FormField } from "@shared/form-schema";
+import { ValidationError } from "@shared/form-validation";
+import { isEmptyValue } from "@shared/visibility";
+import { formsApi } from "./api-client";
+
+export interface AsyncValidationContext {
+  formId: string;
+  // The version being filled in; server checks default to the published one
+  formVersionId?: string;
+  // Aborted once the answer has changed or the check is cancelled
+  signal: AbortSignal;
+}
+
+// Resolves to an error message, or null when the answer passes
+export type AsyncValidator = (
+  value: any,
+  field: FormField,
+  context: AsyncValidationContext,
+) => Promise<string | null>;
+
+export const ASYNC_VALIDATION_DELAY_MS = 400;
+
+const ASYNC_VALIDATORS: Record<string, AsyncValidator> = {};
+
+export const registerAsyncValidator = (
+  type: string,
+  validator: AsyncValidator,
+): void => {
+  ASYNC_VALIDATORS[type] = validator;
+};
+
+const serverCheck: AsyncValidator = async (
+  value,
+  field,
+  { formId, formVersionId, signal },
+) => {
+  const result = await formsApi.checkAnswer(
+    { formId, formVersionId, fieldId: field.id, value },
+    signal,
+  );
+  return result.valid ? null : result.message || "This answer can't be used";
+};
+
+export const getAsyncValidators = (field: FormField): AsyncValidator[] =>
+  [
+    ASYNC_VALIDATORS[field.type],
+    field.properties.validation?.asyncCheck ? serverCheck : undefined,
+  ].filter(Boolean);
+
+export const hasAsyncValidation = (field: FormField): boolean =>
+  getAsyncValidators(field).length > 0;
+
+// A field's validators run one after the other, the first message wins
+const runValidators = async (
+  field: FormField,
+  value: any,
+  context: AsyncValidationContext,
+): Promise<ValidationError | null> => {
+  for (const validator of getAsyncValidators(field)) {
+    const message = await validator(value, field, context);
+    if (message) {
+      return {
+        fieldId: field.id,
+        message: field.properties.validation?.messages?.async || message,
+        code: "async",
+      };
+    }
+  }
+  return null;
+};
+
+export interface AsyncValidationState {
+  // Fields whose check is waiting or running
+  pending: string[];
+  errors: ValidationError[];
+}
+
+export interface AsyncValidationOptions {
+  formId: string;
+  formVersionId?: string;
+  delay?: number;
+  onChange: (state: AsyncValidationState) => void;
+}
+
+export interface AsyncValidation {
+  // Checks the answer once typing pauses, replacing the field's earlier check
+  schedule: (field: FormField, value: any) => void;
+  // Starts the waiting checks now and resolves with every error once all
+  // checks are done
+  settle: () => Promise<ValidationError[]>;
+  cancelAll: () => void;
+}
+
+interface Check {
+  field: FormField;
+  value: any;
+  controller: AbortController;
+  timer?: ReturnType<typeof setTimeout>;
+  done?: Promise<void>;
+}
+
+export const createAsyncValidation = ({
+  formId,
+  formVersionId,
+  delay = ASYNC_VALIDATION_DELAY_MS,
+  onChange,
+}: AsyncValidationOptions): AsyncValidation => {
+  const checks = new Map<string, Check>();
+  const errors = new Map<string, ValidationError>();
+
+  const notify = () =>
+    onChange({ pending: [...checks.keys()], errors: [...errors.values()] });
+
+  const stop = (fieldId: string) => {
+    const check = checks.get(fieldId);
+    if (check) {
+      clearTimeout(check.timer);
+      check.controller.abort();
+      checks.delete(fieldId);
+    }
+    errors.delete(fieldId);
+  };
+
+  const start = (check: Check) => {
+    clearTimeout(check.timer);
+    check.timer = undefined;
+    const { field, value, controller } = check;
+    check.done = runValidators(field, value, {
+      formId,
+      formVersionId,
+      signal: controller.signal,
+    })
+      .then((error) => {
+        if (error && !controller.signal.aborted) {
+          errors.set(field.id, error);
+        }
+      })
+      .catch(() => {
+        // Cancelled, or the check couldn't run; the server checks on submit
+      })
+      .finally(() => {
+        if (checks.get(field.id) === check) {
+          checks.delete(field.id);
+          notify();
+        }
+      });
+  };
+
+  return {
+    schedule: (field, value) => {
+      stop(field.id);
+      if (!isEmptyValue(value) && hasAsyncValidation(field)) {
+        const check: Check = {
+          field,
+          value,
+          controller: new AbortController(),
+        };
+        check.timer = setTimeout(() => start(check), delay);
+        checks.set(field.id, check);
+      }
+      notify();
+    },
+
+    settle: async () => {
+      // Checks scheduled while waiting are waited for too
+      while (checks.size > 0) {
+        const running = [...checks.values()];
+        running.filter((check) => check.timer).forEach(start);
+        await Promise.all(running.map((check) => check.done));
+      }
+      return [...errors.values()];
+    },
+
+    cancelAll: () => {
+      [...checks.keys()].forEach(stop);
+      errors.clear();
+      notify();
+    },
+  };
+};
@@ -5,6 +5,8 @@
  * Enables zero-code-change field management
  */
 
+import { assertValidDocument, formConfigSchema } from "@shared/schemas";
+
 export interface ComponentMapping {
   component: string; // Component name/path
   propMapping: Record<string, string>; // Maps standard props to component-specific props
@@ -161,6 +163,79 @@ class ConfigService {
             placeholder: "Select a date",
           },
         },
+        {
+          type: "time",
+          label: "Time",
+          icon: "🕒",
+          category: "input",
+          description: "Time of day selection field",
+          component: {
+            component: "TimePicker", // Your custom component
+            propMapping: {
+              value: "value",
+              onChange: "onChange",
+              placeholder: "placeholder",
+              disabled: "disabled",
+            },
+            defaultProps: {
+              format: "12h",
+            },
+          },
+          defaultProperties: {
+            timeFormat: "12h",
+            minuteStep: 15,
+            placeholder: "Select a time",
+          },
+        },
+        {
+          type: "datetime",
+          label: "Date & Time",
+          icon: "🗓️",
+          category: "input",
+          description: "Date and time selection field",
+          component: {
+            component: "DateTimePicker", // Your custom component
+            propMapping: {
+              value: "value",
+              onChange: "onChange",
+              placeholder: "placeholder",
+              disabled: "disabled",
+            },
+            defaultProps: {
+              format: "MM/DD/YYYY",
+              timeFormat: "12h",
+            },
+          },
+          defaultProperties: {
+            dateFormat: "MM/DD/YYYY",
+            timeFormat: "12h",
+            minuteStep: 15,
+            placeholder: "Select a date and time",
+          },
+        },
+        {
+          type: "date-range",
+          label: "Date Range",
+          icon: "↔️",
+          category: "input",
+          description: "Start and end date selection field",
+          component: {
+            component: "DateRangePicker", // Your custom component
+            propMapping: {
+              value: "value",
+              onChange: "onChange",
+              placeholder: "placeholder",
+              disabled: "disabled",
+            },
+            defaultProps: {
+              format: "MM/DD/YYYY",
+            },
+          },
+          defaultProperties: {
+            dateFormat: "MM/DD/YYYY",
+            placeholder: "Select dates",
+          },
+        },
         {
           type: "dropdown",
           label: "Dropdown",
@@ -211,6 +286,29 @@ class ConfigService {
             pattern: "^[0-9]+$",
           },
         },
+        {
+          type: "calculated",
+          label: "Calculated",
+          icon: "🧮",
+          category: "input",
+          description: "Read-only value computed from other answers",
+          component: {
+            component: "Input", // Your custom component
+            propMapping: {
+              value: "value",
+              placeholder: "placeholder",
+            },
+            defaultProps: {
+              readOnly: true,
+              tabIndex: -1,
+            },
+          },
+          defaultProperties: {
+            placeholder: "Calculated from your answers",
+            expression: "",
+            decimals: 2,
+          },
+        },
         // UDF Fields
         {
           type: "udf-designation",
@@ -344,9 +442,11 @@ class ConfigService {
       const configData = await response.json();
 
       // Validate configuration structure
-      if (!this.validateConfig(configData)) {
-        throw new Error("Invalid configuration structure");
-      }
+      assertValidDocument(
+        formConfigSchema,
+        configData,
+        "Invalid configuration structure",
+      );
 
       this.config = configData;
       console.log("✅ Configuration loaded successfully from blob");
@@ -386,21 +486,6 @@ class ConfigService {
     return this.fallbackConfig;
   }
 
-  // Validate configuration structure
-  private validateConfig(config: any): config is FormConfig {
-    if (!config || typeof config !== "object") return false;
-    if (!config.version || !Array.isArray(config.fields)) return false;
-
-    // Validate each field definition
-    for (const field of config.fields) {
-      if (!field.type || !field.label || !field.component) return false;
-      if (!field.component.component || !field.component.propMapping)
-        return false;
-    }
-
-    return true;
-  }
-
   // Get field definition by type
   getFieldDefinition(type: string): FieldDefinition | null {
     const config = this.getConfig();
@@ -1,4 +1,9 @@
+import {
+  ValidationDefaults,
+  registerValidationDefaults,
+} from "@shared/form-validation";
 import { FormField, FieldType } from "./form-schema";
+import { AsyncValidator, registerAsyncValidator } from "./async-validation";
 
 // Base interface for field type definitions
 export interface FieldTypeDefinition {
@@ -7,13 +12,12 @@ export interface FieldTypeDefinition {
   category: "input" | "udf" | "special";
   description?: string;
   defaultProperties?: Record<string, any>;
-  validation?: {
-    required?: boolean;
-    minLength?: number;
-    maxLength?: number;
-    pattern?: string;
-    custom?: (value: any) => string | null;
-  };
+  // Defaults for fields of this type. The built-in types keep theirs in
+  // shared/form-validation.ts, so the server applies them too
+  validation?: ValidationDefaults;
+  // Checks that need a round trip, run as the answer is typed. The server
+  // doesn't know them, so they're only checked in the browser
+  asyncValidation?: AsyncValidator;
   renderProps?: {
     placeholder?: string;
     helpText?: string;
@@ -31,9 +35,6 @@ export const FIELD_TYPE_REGISTRY: Record<FieldType, FieldTypeDefinition> = {
       placeholder: "Enter text",
       maxLength: 255,
     },
-    validation: {
-      maxLength: 255,
-    },
   },
   "long-text": {
     label: "Long Text",
@@ -45,9 +46,6 @@ export const FIELD_TYPE_REGISTRY: Record<FieldType, FieldTypeDefinition> = {
       rows: 4,
       maxLength: 2000,
     },
-    validation: {
-      maxLength: 2000,
-    },
   },
   "date-picker": {
     label: "Date Picker",
@@ -59,6 +57,39 @@ export const FIELD_TYPE_REGISTRY: Record<FieldType, FieldTypeDefinition> = {
       placeholder: "Select a date",
     },
   },
+  time: {
+    label: "Time",
+    icon: "🕒",
+    category: "input",
+    description: "Time of day selection field",
+    defaultProperties: {
+      timeFormat: "12h",
+      minuteStep: 15,
+      placeholder: "Select a time",
+    },
+  },
+  datetime: {
+    label: "Date & Time",
+    icon: "🗓️",
+    category: "input",
+    description: "Date and time selection field",
+    defaultProperties: {
+      dateFormat: "MM/DD/YYYY",
+      timeFormat: "12h",
+      minuteStep: 15,
+      placeholder: "Select a date and time",
+    },
+  },
+  "date-range": {
+    label: "Date Range",
+    icon: "↔️",
+    category: "input",
+    description: "Start and end date selection field",
+    defaultProperties: {
+      dateFormat: "MM/DD/YYYY",
+      placeholder: "Select dates",
+    },
+  },
   dropdown: {
     label: "Dropdown",
     icon: "📋",
@@ -80,13 +111,6 @@ export const FIELD_TYPE_REGISTRY: Record<FieldType, FieldTypeDefinition> = {
       maxSize: 2097152, // 2MB
       multiple: false,
     },
-    validation: {
-      custom: (value: File) => {
-        if (!value) return null;
-        if (value.size > 2097152) return "File size must be less than 2MB";
-        return null;
-      },
-    },
   },
   number: {
     label: "Number",
@@ -98,8 +122,15 @@ export const FIELD_TYPE_REGISTRY: Record<FieldType, FieldTypeDefinition> = {
       min: 0,
       step: 1,
     },
-    validation: {
-      pattern: "^[0-9]+$",
+  },
+  calculated: {
+    label: "Calculated",
+    icon: "🧮",
+    category: "input",
+    description: "Read-only value computed from other answers",
+    defaultProperties: {
+      expression: "",
+      decimals: 2,
     },
   },
   "udf-designation": {
@@ -179,52 +210,18 @@ export const createFieldFromType = (
   };
 };
 
-// Validation function using registry
-export const validateFieldValue = (
-  field: FormField,
-  value: any,
-): string | null => {
-  const definition = getFieldDefinition(field.type);
-
-  if (!definition.validation) return null;
-
-  const validation = definition.validation;
-
-  // Required validation
-  if (field.required && (!value || value === "")) {
-    return `${field.label} is required`;
-  }
-
-  // Skip other validations if value is empty and field is not required
-  if (!value) return null;
-
-  // Custom validation
-  if (validation.custom) {
-    return validation.custom(value);
-  }
-
-  // String length validation
-  if (typeof value === "string") {
-    if (validation.minLength && value.length < validation.minLength) {
-      return `${field.label} must be at least ${validation.minLength} characters`;
-    }
-    if (validation.maxLength && value.length > validation.maxLength) {
-      return `${field.label} must be no more than ${validation.maxLength} characters`;
-    }
-    if (validation.pattern && !new RegExp(validation.pattern).test(value)) {
-      return `${field.label} format is invalid`;
-    }
-  }
-
-  return null;
-};
-
 // Function to register a new field type (for extensions)
 export const registerFieldType = (
   type: string,
   definition: FieldTypeDefinition,
 ): void => {
   (FIELD_TYPE_REGISTRY as any)[type] = definition;
+  if (definition.validation) {
+    registerValidationDefaults(type, definition.validation);
+  }
+  if (definition.asyncValidation) {
+    registerAsyncValidator(type, definition.asyncValidation);
+  }
 };
 
 // Function to get all available field types
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { diffFormSchemas } from "./schema-diff";
+import { FormField, FormItem } from "./form-schema";
+import { field, schema, section } from "@shared/__fixtures__/builders";
+
+// Changes are reported by label and title
+const labelled = (id: string, label: string) =>
+  field(id, "short-text", {
+    label,
+    properties: { placeholder: "Enter text" },
+  });
+
+const titled = (id: string, title: string, fields: FormItem[]) =>
+  section(id, fields, { title });
+
+describe("diffFormSchemas", () => {
+  it("should report nothing for identical schemas", () => {
+    const items = [
+      labelled("a", "Name"),
+      titled("s", "More", [labelled("b", "B")]),
+    ];
+    expect(diffFormSchemas(schema(items), schema(items))).toEqual([]);
+  });
+
+  it("should report added and removed fields and sections", () => {
+    const before = schema([
+      labelled("a", "Name"),
+      titled("s", "Old", [labelled("b", "B")]),
+    ]);
+    const after = schema([labelled("a", "Name"), labelled("c", "Email")]);
+
+    const changes = diffFormSchemas(before, after);
+    expect(changes).toEqual([
+      expect.objectContaining({ type: "added", itemId: "c", label: "Email" }),
+      expect.objectContaining({
+        type: "removed",
+        itemId: "s",
+        itemKind: "section",
+        details: ["Including 1 field(s)"],
+      }),
+    ]);
+  });
+
+  it("should report label, required and property changes", () => {
+    const original = labelled("a", "Name");
+    const edited: FormField = {
+      ...original,
+      label: "Full name",
+      required: true,
+      properties: { ...original.properties, placeholder: "Jane Doe" },
+    };
+
+    const [change] = diffFormSchemas(schema([original]), schema([edited]));
+    expect(change.type).toBe("changed");
+    expect(change.details).toEqual([
+      'Label: "Name" → "Full name"',
+      "Required: off → on",
+      'Placeholder: "Enter text" → "Jane Doe"',
+    ]);
+  });
+
+  it("should report fields moved between sections", () => {
+    const before = schema([titled("s", "Contact", [labelled("a", "Phone")])]);
+    const after = schema([titled("s", "Contact", []), labelled("a", "Phone")]);
+
+    expect(diffFormSchemas(before, after)).toEqual([
+      expect.objectContaining({
+        type: "moved",
+        itemId: "a",
+        details: ['From "Contact" to top level'],
+      }),
+    ]);
+  });
+
+  it("should only flag items whose relative order changed", () => {
+    const before = schema([
+      labelled("a", "A"),
+      labelled("b", "B"),
+      labelled("c", "C"),
+      labelled("d", "D"),
+    ]);
+    const after = schema([
+      labelled("new", "New"),
+      labelled("d", "D"),
+      labelled("a", "A"),
+      labelled("b", "B"),
+      labelled("c", "C"),
+    ]);
+
+    const changes = diffFormSchemas(before, after);
+    expect(changes.map((c) => [c.type, c.itemId])).toEqual([
+      ["added", "new"],
+      ["moved", "d"],
+    ]);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Schema Diff
+ *
+ * Structural comparison of two FormSchemas for the version history. Items are
+ * matched by id, so renaming a field is a change while deleting and re-adding
+ * it shows up as removed + added.
+ */
+
+import { FormItem, FormSchema, isFormSection } from "./form-schema";
+
+export type SchemaChangeType = "added" | "removed" | "moved" | "changed";
+
+export interface SchemaChange {
+  type: SchemaChangeType;
+  itemKind: "form" | "section" | "field";
+  itemId: string;
+  label: string;
+  details: string[];
+}
+
+interface ItemLocation {
+  item: FormItem;
+  // Section the item lives in, null for top level items
+  parentId: string | null;
+}
+
+const ROOT = "__root__";
+
+const itemLabel = (item: FormItem): string =>
+  (isFormSection(item) ? item.title : item.label) || "Untitled";
+
+const itemKind = (item: FormItem): "section" | "field" =>
+  isFormSection(item) ? "section" : "field";
+
+const childrenOf = (item: FormItem): FormItem[] =>
+  isFormSection(item) ? item.fields : [];
+
+const indexItems = (
+  items: FormItem[],
+  parentId: string | null = null,
+  index: Map<string, ItemLocation> = new Map(),
+): Map<string, ItemLocation> => {
+  items.forEach((item) => {
+    index.set(item.id, { item, parentId });
+    indexItems(childrenOf(item), item.id, index);
+  });
+  return index;
+};
+
+// Sibling ids per container, in display order
+const containerOrder = (
+  index: Map<string, ItemLocation>,
+): Map<string, string[]> => {
+  const containers = new Map<string, string[]>();
+  index.forEach(({ parentId }, id) => {
+    const key = parentId || ROOT;
+    containers.set(key, [...(containers.get(key) || []), id]);
+  });
+  return containers;
+};
+
+// Longest common subsequence; ids outside it changed their relative order
+const longestCommonSubsequence = (a: string[], b: string[]): Set<string> => {
+  const lengths = a.map(() => new Array(b.length + 1).fill(0));
+  lengths.push(new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const common = new Set<string>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      common.add(a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return common;
+};
+
+const humanize = (key: string): string =>
+  key.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/^./, (c) => c.toUpperCase());
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === "") return "none";
+  if (typeof value === "boolean") return value ? "on" : "off";
+  if (typeof value === "string") return `"${value}"`;
+  return String(value);
+};
+
+const isPrimitive = (value: unknown) =>
+  value === null || typeof value !== "object";
+
+const describeChange = (
+  name: string,
+  before: unknown,
+  after: unknown,
+): string | null => {
+  if (JSON.stringify(before) === JSON.stringify(after)) return null;
+  if (isPrimitive(before) && isPrimitive(after)) {
+    return `${name}: ${formatValue(before)} → ${formatValue(after)}`;
+  }
+  return `${name} changed`;
+};
+
+const compareItems = (before: FormItem, after: FormItem): string[] => {
+  const details: Array<string | null> = [];
+
+  if (isFormSection(before) && isFormSection(after)) {
+    details.push(describeChange("Title", before.title, after.title));
+    details.push(
+      describeChange("Description", before.description, after.description),
+    );
+    details.push(
+      describeChange("Visibility rule", before.visibleWhen, after.visibleWhen),
+    );
+    details.push(
+      describeChange("Branching", before.navigation, after.navigation),
+    );
+    details.push(describeChange("Repeating", before.repeat, after.repeat));
+  } else if (!isFormSection(before) && !isFormSection(after)) {
+    details.push(describeChange("Label", before.label, after.label));
+    details.push(describeChange("Type", before.type, after.type));
+    details.push(describeChange("Required", before.required, after.required));
+    details.push(
+      describeChange("Description", before.description, after.description),
+    );
+    details.push(
+      describeChange(
+        "Show description",
+        before.showDescription,
+        after.showDescription,
+      ),
+    );
+    details.push(
+      describeChange("Visibility rule", before.visibleWhen, after.visibleWhen),
+    );
+
+    const beforeProperties = (before.properties || {}) as Record<string, any>;
+    const afterProperties = (after.properties || {}) as Record<string, any>;
+    const keys = new Set([
+      ...Object.keys(beforeProperties),
+      ...Object.keys(afterProperties),
+    ]);
+    keys.forEach((key) => {
+      details.push(
+        describeChange(
+          humanize(key),
+          beforeProperties[key],
+          afterProperties[key],
+        ),
+      );
+    });
+  } else {
+    details.push("Converted between field and section");
+  }
+
+  return details.filter((detail): detail is string => detail !== null);
+};
+
+export const diffFormSchemas = (
+  before: FormSchema,
+  after: FormSchema,
+): SchemaChange[] => {
+  const changes: SchemaChange[] = [];
+
+  const headerDetails = [
+    describeChange("Title", before.title, after.title),
+    describeChange("Description", before.description, after.description),
+  ].filter((detail): detail is string => detail !== null);
+  if (headerDetails.length > 0) {
+    changes.push({
+      type: "changed",
+      itemKind: "form",
+      itemId: after.id,
+      label: after.title || "Untitled form",
+      details: headerDetails,
+    });
+  }
+
+  const beforeIndex = indexItems(before.items || []);
+  const afterIndex = indexItems(after.items || []);
+  const beforeContainers = containerOrder(beforeIndex);
+  const afterContainers = containerOrder(afterIndex);
+
+  // Items that stayed in the same container but not in the same relative order
+  const reordered = new Set<string>();
+  afterContainers.forEach((afterIds, container) => {
+    const isKept = (id: string) => {
+      const previous = beforeIndex.get(id);
+      return !!previous && (previous.parentId || ROOT) === container;
+    };
+    const beforeIds = (beforeContainers.get(container) || []).filter(
+      (id) => afterIndex.has(id) && isKept(id),
+    );
+    const keptIds = afterIds.filter(isKept);
+    const inOrder = longestCommonSubsequence(beforeIds, keptIds);
+    keptIds.forEach((id) => {
+      if (!inOrder.has(id)) reordered.add(id);
+    });
+  });
+
+  const containerName = (
+    parentId: string | null,
+    index: Map<string, ItemLocation>,
+  ) => {
+    if (!parentId) return "top level";
+    const parent = index.get(parentId);
+    return parent ? `"${itemLabel(parent.item)}"` : "a removed section";
+  };
+
+  afterIndex.forEach(({ item, parentId }, id) => {
+    const previous = beforeIndex.get(id);
+    const base = {
+      itemKind: itemKind(item),
+      itemId: id,
+      label: itemLabel(item),
+    };
+
+    if (!previous) {
+      changes.push({
+        ...base,
+        type: "added",
+        details: parentId ? [`In ${containerName(parentId, afterIndex)}`] : [],
+      });
+      return;
+    }
+
+    if (previous.parentId !== parentId) {
+      changes.push({
+        ...base,
+        type: "moved",
+        details: [
+          `From ${containerName(previous.parentId, beforeIndex)} to ${containerName(parentId, afterIndex)}`,
+        ],
+      });
+    } else if (reordered.has(id)) {
+      changes.push({
+        ...base,
+        type: "moved",
+        details: [`Reordered within ${containerName(parentId, afterIndex)}`],
+      });
+    }
+
+    const details = compareItems(previous.item, item);
+    if (details.length > 0) {
+      changes.push({ ...base, type: "changed", details });
+    }
+  });
+
+  beforeIndex.forEach(({ item, parentId }, id) => {
+    // Children of a removed section are reported with the section
+    if (afterIndex.has(id) || (parentId && !afterIndex.has(parentId))) return;
+    changes.push({
+      type: "removed",
+      itemKind: itemKind(item),
+      itemId: id,
+      label: itemLabel(item),
+      details: isFormSection(item)
+        ? [`Including ${childrenOf(item).length} field(s)`]
+        : [],
+    });
+  });
+
+  return changes;
+};
@@ -0,0 +1,227 @@
+import { describe, it, expect } from "vitest";
+import {
+  addField,
+  addSection,
+  cloneField,
+  deleteField,
+  deleteSection,
+  findFieldLocation,
+  moveField,
+  moveSection,
+  updateField,
+  updateSection,
+} from "./schema-ops";
+import { FormField, FormItem, FormSchema, FormSection } from "./form-schema";
+import { field, schema, section } from "@shared/__fixtures__/builders";
+
+// Ids and orders as a compact tree, e.g. ["a:0", ["s:1", "b:0"]]
+const shapeOf = (items: FormItem[]): any[] =>
+  items.map((item) =>
+    "fields" in item
+      ? [`${item.id}:${item.order}`, ...shapeOf(item.fields)]
+      : `${item.id}:${item.order}`,
+  );
+
+const shape = (value: FormSchema) => shapeOf(value.items);
+
+const sample = () =>
+  schema([
+    field("a"),
+    section("s", [field("b"), field("c", "short-text", { order: 1 })], {
+      order: 1,
+    }),
+  ]);
+
+describe("schema operations", () => {
+  it("should not mutate the schema they are given", () => {
+    const original = sample();
+    const snapshot = JSON.stringify(original);
+
+    addField(original, field("x"), "s", 0);
+    moveField(original, "b");
+    cloneField(original, "c", "c2");
+    updateField(original, "a", { label: "Changed" });
+    updateSection(original, "s", { title: "Changed" });
+    moveSection(original, "s", 0);
+    deleteSection(original, "s");
+
+    expect(JSON.stringify(original)).toBe(snapshot);
+  });
+
+  it("should keep untouched items by reference", () => {
+    const original = sample();
+    const updated = updateField(original, "b", { label: "Changed" });
+
+    expect(updated.items[0]).toBe(original.items[0]);
+    expect((updated.items[1] as FormSection).fields[1]).toBe(
+      (original.items[1] as FormSection).fields[1],
+    );
+  });
+
+  describe("addField", () => {
+    it("should insert at the top level and renumber", () => {
+      expect(shape(addField(sample(), field("x"), undefined, 1))).toEqual([
+        "a:0",
+        "x:1",
+        ["s:2", "b:0", "c:1"],
+      ]);
+    });
+
+    it("should append to a section by default", () => {
+      expect(shape(addField(sample(), field("x"), "s"))).toEqual([
+        "a:0",
+        ["s:1", "b:0", "c:1", "x:2"],
+      ]);
+    });
+
+    it("should ignore an unknown section", () => {
+      const original = sample();
+      expect(addField(original, field("x"), "missing")).toBe(original);
+    });
+  });
+
+  describe("moveField", () => {
+    it("should move a field out of a section", () => {
+      expect(shape(moveField(sample(), "c", undefined, 0))).toEqual([
+        "c:0",
+        "a:1",
+        ["s:2", "b:0"],
+      ]);
+    });
+
+    it("should reorder within a section", () => {
+      expect(shape(moveField(sample(), "c", "s", 0))).toEqual([
+        "a:0",
+        ["s:1", "c:0", "b:1"],
+      ]);
+    });
+
+    it("should leave the schema alone when the target section is missing", () => {
+      const original = sample();
+      expect(moveField(original, "a", "missing")).toBe(original);
+    });
+  });
+
+  it("should delete a field from wherever it lives", () => {
+    expect(shape(deleteField(sample(), "b"))).toEqual(["a:0", ["s:1", "c:0"]]);
+    expect(shape(deleteField(sample(), "a"))).toEqual([["s:0", "b:0", "c:1"]]);
+  });
+
+  it("should clone a field right after the original", () => {
+    const cloned = cloneField(sample(), "b", "b2");
+
+    expect(shape(cloned)).toEqual(["a:0", ["s:1", "b:0", "b2:1", "c:2"]]);
+    expect(
+      ((cloned.items[1] as FormSection).fields[1] as FormField).label,
+    ).toBe("B (Copy)");
+  });
+
+  it("should update a field's properties", () => {
+    const updated = updateField(sample(), "c", { required: true });
+    expect((updated.items[1] as FormSection).fields[1]).toMatchObject({
+      required: true,
+    });
+  });
+
+  it("should add, update and delete sections", () => {
+    let value = addSection(sample(), section("t", [field("d")]));
+    expect(shape(value)).toEqual([
+      "a:0",
+      ["s:1", "b:0", "c:1"],
+      ["t:2", "d:0"],
+    ]);
+
+    value = updateSection(value, "t", { title: "Contact" });
+    expect((value.items[2] as FormSection).title).toBe("Contact");
+
+    value = deleteSection(value, "s");
+    expect(shape(value)).toEqual(["a:0", ["t:1", "d:0"]]);
+    expect(findFieldLocation(value, "b")).toBeNull();
+  });
+
+  it("should move a section and clamp the position", () => {
+    expect(shape(moveSection(sample(), "s", 0))).toEqual([
+      ["s:0", "b:0", "c:1"],
+      "a:1",
+    ]);
+    expect(shape(moveSection(sample(), "s", 10))).toEqual([
+      "a:0",
+      ["s:1", "b:0", "c:1"],
+    ]);
+  });
+
+  describe("nested sections", () => {
+    // a, s: [b, t: [c, d]]
+    const nested = () =>
+      schema([
+        field("a"),
+        section(
+          "s",
+          [
+            field("b"),
+            section("t", [field("c"), field("d", "short-text", { order: 1 })], {
+              order: 1,
+            }),
+          ],
+          { order: 1 },
+        ),
+      ]);
+
+    it("should find and edit items at any depth", () => {
+      expect(findFieldLocation(nested(), "d")).toEqual({
+        sectionId: "t",
+        index: 1,
+      });
+      expect(findFieldLocation(nested(), "t")).toEqual({
+        sectionId: "s",
+        index: 1,
+      });
+
+      const original = nested();
+      const updated = updateField(original, "c", { required: true });
+      const inner = (updated.items[1] as FormSection).fields[1] as FormSection;
+      expect(inner.fields[0]).toMatchObject({ required: true });
+      expect(inner.fields[1]).toBe(
+        ((original.items[1] as FormSection).fields[1] as FormSection).fields[1],
+      );
+      expect(shape(deleteField(nested(), "d"))).toEqual([
+        "a:0",
+        ["s:1", "b:0", ["t:1", "c:0"]],
+      ]);
+    });
+
+    it("should move fields and sections between levels", () => {
+      expect(shape(moveField(nested(), "a", "t", 1))).toEqual([
+        ["s:0", "b:0", ["t:1", "c:0", "a:1", "d:2"]],
+      ]);
+      expect(shape(moveSection(nested(), "t", 0))).toEqual([
+        ["t:0", "c:0", "d:1"],
+        "a:1",
+        ["s:2", "b:0"],
+      ]);
+      expect(shape(addSection(nested(), section("u", []), 0, "t"))).toEqual([
+        "a:0",
+        ["s:1", "b:0", ["t:1", ["u:0"], "c:1", "d:2"]],
+      ]);
+    });
+
+    it("should not move a section into itself", () => {
+      const original = nested();
+
+      expect(moveSection(original, "s", 0, "s")).toBe(original);
+      expect(moveSection(original, "s", 0, "t")).toBe(original);
+    });
+
+    it("should update and delete subsections", () => {
+      const updated = updateSection(nested(), "t", { title: "Inner" });
+      expect(
+        ((updated.items[1] as FormSection).fields[1] as FormSection).title,
+      ).toBe("Inner");
+
+      expect(shape(deleteSection(nested(), "t"))).toEqual([
+        "a:0",
+        ["s:1", "b:0"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Schema Operations
+ *
+ * Pure edits on a FormSchema. Each operation returns a new schema (untouched
+ * items keep their identity) with `order` renumbered to match positions, so
+ * the builder can hand the result straight to React state.
+ */
+
+import {
+  FormField,
+  FormItem,
+  FormSchema,
+  FormSection,
+  generateId,
+  isFormField,
+  isFormSection,
+} from "./form-schema";
+
+// Position of an item: the section holding it (null at top level) and its index there
+export interface FieldLocation {
+  sectionId: string | null;
+  index: number;
+}
+
+const insertAt = <T>(list: T[], item: T, position?: number): T[] => {
+  const index =
+    position === undefined
+      ? list.length
+      : Math.max(0, Math.min(position, list.length));
+  return [...list.slice(0, index), item, ...list.slice(index)];
+};
+
+const renumber = <T extends FormItem>(list: T[]): T[] =>
+  list.map((item, index) =>
+    item.order === index ? item : { ...item, order: index },
+  );
+
+const withItems = (schema: FormSchema, items: FormItem[]): FormSchema => ({
+  ...schema,
+  items: renumber(items),
+});
+
+const findSection = (
+  items: FormItem[],
+  sectionId: string,
+): FormSection | undefined => {
+  for (const item of items) {
+    if (!isFormSection(item)) continue;
+    if (item.id === sectionId) return item;
+    const nested = findSection(item.fields, sectionId);
+    if (nested) return nested;
+  }
+  return undefined;
+};
+
+/**
+ * Applies an update to the items of one container: the section with the given
+ * id at any depth, or the top level when there is none. Sections on the way
+ * are copied, everything else keeps its identity.
+ */
+const updateItems = (
+  schema: FormSchema,
+  sectionId: string | null | undefined,
+  update: (items: FormItem[]) => FormItem[],
+): FormSchema => {
+  if (!sectionId) return withItems(schema, update(schema.items));
+
+  const visit = (items: FormItem[]): FormItem[] =>
+    items.map((item) => {
+      if (!isFormSection(item)) return item;
+      if (item.id === sectionId) {
+        return { ...item, fields: renumber(update(item.fields)) };
+      }
+      const fields = visit(item.fields);
+      return fields.some((child, index) => child !== item.fields[index])
+        ? { ...item, fields }
+        : item;
+    });
+  return withItems(schema, visit(schema.items));
+};
+
+const locate = (
+  items: FormItem[],
+  itemId: string,
+  sectionId: string | null,
+): FieldLocation | null => {
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (item.id === itemId) return { sectionId, index: i };
+    if (isFormSection(item)) {
+      const nested = locate(item.fields, itemId, item.id);
+      if (nested) return nested;
+    }
+  }
+  return null;
+};
+
+/** Finds a field or section anywhere in the schema. */
+export const findFieldLocation = (
+  schema: FormSchema,
+  itemId: string,
+): FieldLocation | null => locate(schema.items, itemId, null);
+
+const itemAt = (schema: FormSchema, location: FieldLocation): FormItem =>
+  location.sectionId
+    ? findSection(schema.items, location.sectionId).fields[location.index]
+    : schema.items[location.index];
+
+const removeItem = (schema: FormSchema, itemId: string): FormSchema => {
+  const location = findFieldLocation(schema, itemId);
+  if (!location) return schema;
+  return updateItems(schema, location.sectionId, (items) =>
+    items.filter((item) => item.id !== itemId),
+  );
+};
+
+export const findField = (
+  schema: FormSchema,
+  fieldId: string,
+): FormField | undefined => {
+  const location = findFieldLocation(schema, fieldId);
+  if (!location) return undefined;
+  const item = itemAt(schema, location);
+  return isFormField(item) ? item : undefined;
+};
+
+/** Adds a field to a section, or to the top level when no section is given. */
+export const addField = (
+  schema: FormSchema,
+  field: FormField,
+  sectionId?: string,
+  position?: number,
+): FormSchema => {
+  if (sectionId && !findSection(schema.items, sectionId)) return schema;
+  return updateItems(schema, sectionId, (items) =>
+    insertAt(items, field, position),
+  );
+};
+
+export const deleteField = (schema: FormSchema, fieldId: string): FormSchema =>
+  findField(schema, fieldId) ? removeItem(schema, fieldId) : schema;
+
+/**
+ * Moves a field into a section or the top level. The position is an index in
+ * the destination after the field has been taken out of its old place.
+ */
+export const moveField = (
+  schema: FormSchema,
+  fieldId: string,
+  sectionId?: string,
+  position?: number,
+): FormSchema => {
+  const field = findField(schema, fieldId);
+  if (!field || (sectionId && !findSection(schema.items, sectionId))) {
+    return schema;
+  }
+  return addField(removeItem(schema, fieldId), field, sectionId, position);
+};
+
+export const updateField = (
+  schema: FormSchema,
+  fieldId: string,
+  updates: Partial<FormField>,
+): FormSchema => {
+  const location = findFieldLocation(schema, fieldId);
+  if (!location || !findField(schema, fieldId)) return schema;
+
+  return updateItems(schema, location.sectionId, (items) =>
+    items.map((item) => (item.id === fieldId ? { ...item, ...updates } : item)),
+  );
+};
+
+/** Inserts a copy of the field right after the original. */
+export const cloneField = (
+  schema: FormSchema,
+  fieldId: string,
+  cloneId: string = generateId(),
+): FormSchema => {
+  const field = findField(schema, fieldId);
+  if (!field) return schema;
+
+  const location = findFieldLocation(schema, fieldId);
+  const clone: FormField = {
+    ...field,
+    id: cloneId,
+    label: `${field.label} (Copy)`,
+  };
+  return addField(
+    schema,
+    clone,
+    location.sectionId ?? undefined,
+    location.index + 1,
+  );
+};
+
+/** Adds a section at the top level, or as a subsection of the given parent. */
+export const addSection = (
+  schema: FormSchema,
+  section: FormSection,
+  position?: number,
+  parentId?: string,
+): FormSchema => {
+  if (parentId && !findSection(schema.items, parentId)) return schema;
+  return updateItems(schema, parentId, (items) =>
+    insertAt(items, section, position),
+  );
+};
+
+export const updateSection = (
+  schema: FormSchema,
+  sectionId: string,
+  updates: Partial<Omit<FormSection, "id" | "fields" | "order">>,
+): FormSchema => {
+  const location = findFieldLocation(schema, sectionId);
+  if (!location || !findSection(schema.items, sectionId)) return schema;
+
+  return updateItems(schema, location.sectionId, (items) =>
+    items.map((item) =>
+      item.id === sectionId ? { ...item, ...updates } : item,
+    ),
+  );
+};
+
+/**
+ * Moves a section, contents included, to a position at the top level or in
+ * another section. A section can't be moved into itself or its subsections.
+ */
+export const moveSection = (
+  schema: FormSchema,
+  sectionId: string,
+  position: number,
+  parentId?: string,
+): FormSchema => {
+  const section = findSection(schema.items, sectionId);
+  if (!section) return schema;
+  if (
+    parentId &&
+    (parentId === sectionId ||
+      findSection(section.fields, parentId) ||
+      !findSection(schema.items, parentId))
+  ) {
+    return schema;
+  }
+
+  return addSection(removeItem(schema, sectionId), section, position, parentId);
+};
+
+/** Removes a section together with its fields and subsections. */
+export const deleteSection = (
+  schema: FormSchema,
+  sectionId: string,
+): FormSchema =>
+  findSection(schema.items, sectionId) ? removeItem(schema, sectionId) : schema;
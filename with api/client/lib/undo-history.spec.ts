@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  COALESCE_WINDOW_MS,
+  createHistory,
+  recordChange,
+  redo,
+  undo,
+} from "./undo-history";
+
+describe("undo history", () => {
+  it("should undo and redo recorded changes", () => {
+    let history = createHistory("a");
+    history = recordChange(history, "b");
+    history = recordChange(history, "c");
+
+    history = undo(history);
+    expect(history.present).toBe("b");
+    history = undo(history);
+    expect(history.present).toBe("a");
+    expect(undo(history)).toBe(history);
+
+    history = redo(history);
+    expect(history.present).toBe("b");
+    expect(history.future).toEqual(["c"]);
+  });
+
+  it("should drop the redo stack when a new change is recorded", () => {
+    let history = recordChange(createHistory("a"), "b");
+    history = recordChange(undo(history), "x");
+
+    expect(history.future).toEqual([]);
+    expect(redo(history)).toBe(history);
+  });
+
+  it("should keep at most the configured number of steps", () => {
+    let history = createHistory(0);
+    for (let i = 1; i <= 5; i++) {
+      history = recordChange(history, i, { limit: 3 });
+    }
+
+    expect(history.past).toEqual([2, 3, 4]);
+  });
+
+  it("should coalesce rapid changes with the same key", () => {
+    let history = createHistory("");
+    history = recordChange(history, "J", { coalesceKey: "label", now: 0 });
+    history = recordChange(history, "Ja", { coalesceKey: "label", now: 200 });
+    history = recordChange(history, "Jan", { coalesceKey: "label", now: 400 });
+
+    expect(history.past).toEqual([""]);
+    expect(undo(history).present).toBe("");
+  });
+
+  it("should start a new step after a pause or a different key", () => {
+    let history = createHistory("");
+    history = recordChange(history, "J", { coalesceKey: "label", now: 0 });
+    history = recordChange(history, "Ja", {
+      coalesceKey: "label",
+      now: COALESCE_WINDOW_MS,
+    });
+    history = recordChange(history, "Ja!", {
+      coalesceKey: "description",
+      now: COALESCE_WINDOW_MS + 1,
+    });
+
+    expect(history.past).toEqual(["", "J", "Ja"]);
+  });
+
+  it("should not coalesce across an undo", () => {
+    let history = createHistory("");
+    history = recordChange(history, "J", { coalesceKey: "label", now: 0 });
+    history = undo(history);
+    history = recordChange(history, "K", { coalesceKey: "label", now: 100 });
+
+    expect(history.past).toEqual([""]);
+    expect(history.present).toBe("K");
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Undo History
+ *
+ * Bounded past/present/future stack. Consecutive changes that share a
+ * coalesce key within a short window (e.g. keystrokes in one label) replace
+ * the present instead of adding a step, so one undo reverts the whole edit.
+ */
+
+export interface UndoHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  // Coalesce key and time of the last recorded change
+  lastKey: string | null;
+  lastChangedAt: number;
+}
+
+export interface RecordOptions {
+  coalesceKey?: string;
+  now?: number;
+  limit?: number;
+}
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+export const COALESCE_WINDOW_MS = 1000;
+
+export const createHistory = <T>(present: T): UndoHistory<T> => ({
+  past: [],
+  present,
+  future: [],
+  lastKey: null,
+  lastChangedAt: 0,
+});
+
+export const recordChange = <T>(
+  history: UndoHistory<T>,
+  next: T,
+  {
+    coalesceKey,
+    now = Date.now(),
+    limit = DEFAULT_HISTORY_LIMIT,
+  }: RecordOptions = {},
+): UndoHistory<T> => {
+  const coalesce =
+    !!coalesceKey &&
+    coalesceKey === history.lastKey &&
+    now - history.lastChangedAt < COALESCE_WINDOW_MS;
+
+  const past = coalesce ? history.past : [...history.past, history.present];
+
+  return {
+    past: past.length > limit ? past.slice(past.length - limit) : past,
+    present: next,
+    future: [],
+    lastKey: coalesceKey || null,
+    lastChangedAt: now,
+  };
+};
+
+export const undo = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (history.past.length === 0) return history;
+
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastKey: null,
+    lastChangedAt: 0,
+  };
+};
+
+export const redo = <T>(history: UndoHistory<T>): UndoHistory<T> => {
+  if (history.future.length === 0) return history;
+
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastKey: null,
+    lastChangedAt: 0,
+  };
+};
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import {
+  PATTERN_PRESETS,
+  findPatternPreset,
+  testPattern,
+} from "./validation-presets";
+
+const preset = (id: string) => PATTERN_PRESETS.find((p) => p.id === id).pattern;
+
+describe("validation presets", () => {
+  it("should accept typical answers and reject others", () => {
+    expect(testPattern(preset("email"), "ann@example.com")).toBe(true);
+    expect(testPattern(preset("email"), "ann@example")).toBe(false);
+    expect(testPattern(preset("url"), "https://example.com/a?b=1")).toBe(true);
+    expect(testPattern(preset("url"), "example.com")).toBe(false);
+    expect(testPattern(preset("phone"), "+44 (20) 7946-0958")).toBe(true);
+    expect(testPattern(preset("phone"), "call me")).toBe(false);
+    expect(testPattern(preset("alphanumeric"), "AB12")).toBe(true);
+    expect(testPattern(preset("alphanumeric"), "AB 12")).toBe(false);
+  });
+
+  it("should recognise a stored pattern as its preset", () => {
+    expect(findPatternPreset(preset("phone")).id).toBe("phone");
+    expect(findPatternPreset("^\\d{4}$")).toBeUndefined();
+  });
+
+  it("should report patterns that don't compile", () => {
+    expect(testPattern("[a-", "a")).toBeNull();
+  });
+});
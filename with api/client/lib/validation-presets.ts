@@ -0,0 +1,56 @@
+/**
+ * Validation Presets
+ *
+ * Ready-made patterns the field editor offers for text answers. A preset is
+ * stored as its plain regex in `validation.pattern`, so the server checks it
+ * like any custom pattern and the editor recognises it again by the regex.
+ */
+
+import { isValidPattern } from "@shared/form-validation";
+
+export interface PatternPreset {
+  id: string;
+  label: string;
+  pattern: string;
+  // Suggested for the pattern rule's error message
+  message: string;
+}
+
+export const PATTERN_PRESETS: PatternPreset[] = [
+  {
+    id: "email",
+    label: "Email",
+    pattern: "^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$",
+    message: "Enter a valid email address",
+  },
+  {
+    id: "url",
+    label: "URL",
+    pattern: "^https?:\\/\\/[^\\s/.]+\\.[^\\s]+$",
+    message: "Enter a valid URL starting with http:// or https://",
+  },
+  {
+    id: "phone",
+    label: "Phone number",
+    pattern: "^\\+?[0-9][0-9\\s().-]{6,19}$",
+    message: "Enter a valid phone number",
+  },
+  {
+    id: "alphanumeric",
+    label: "Letters and numbers only",
+    pattern: "^[A-Za-z0-9]+$",
+    message: "Use letters and numbers only",
+  },
+];
+
+export const findPatternPreset = (
+  pattern: string | undefined,
+): PatternPreset | undefined =>
+  PATTERN_PRESETS.find((preset) => preset.pattern === pattern);
+
+/**
+ * Whether the sample matches the pattern, the way the validator tests it;
+ * null when the pattern doesn't compile.
+ */
+export const testPattern = (pattern: string, sample: string): boolean | null =>
+  isValidPattern(pattern) ? new RegExp(pattern).test(sample) : null;
@@ -9,6 +9,8 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import FormBuilder from "./pages/FormBuilder";
 import FormPreview from "./pages/FormPreview";
+import Forms from "./pages/Forms";
+import FormResponses from "./pages/FormResponses";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,7 +23,10 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/forms" element={<Forms />} />
+          <Route path="/forms/:formId/responses" element={<FormResponses />} />
           <Route path="/form-builder" element={<FormBuilder />} />
+          <Route path="/form-builder/:formId" element={<FormBuilder />} />
           <Route path="/form-preview/:formId" element={<FormPreview />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
@@ -1,40 +1,81 @@
-import { useState } from "react";
+import { useRef } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
 import { FormBuilder as FormBuilderComponent } from "@/components/form-builder/FormBuilder";
 import { FormSchema } from "@/lib/form-schema";
+import { useForm, usePublishForm, useSaveForm } from "@/lib/api-client";
+import { toast } from "@/hooks/use-toast";
 
 export default function FormBuilder() {
-  const [savedForms, setSavedForms] = useState<FormSchema[]>([]);
+  const { formId } = useParams<{ formId: string }>();
+  const navigate = useNavigate();
+  const { data: form, isLoading, isError, error } = useForm(formId);
+  const saveForm = useSaveForm();
+  const publishForm = usePublishForm();
+  // Id of a form created from this page, the builder already holds its schema
+  const createdFormId = useRef<string | null>(null);
+  const isCreatedHere = !!formId && formId === createdFormId.current;
 
-  const handleSave = (schema: FormSchema) => {
-    // In a real app, this would save to a backend
-    console.log("Saving form:", schema);
-
-    // Update local storage or state
-    const existingIndex = savedForms.findIndex((form) => form.id === schema.id);
-    if (existingIndex >= 0) {
-      const updatedForms = [...savedForms];
-      updatedForms[existingIndex] = schema;
-      setSavedForms(updatedForms);
-    } else {
-      setSavedForms((prev) => [...prev, schema]);
+  // A new form gets its own URL once stored, so later saves update it
+  const showSavedForm = (id: string) => {
+    if (id !== formId) {
+      createdFormId.current = id;
+      navigate(`/form-builder/${id}`, { replace: true });
     }
+  };
 
-    // Show success message
-    alert("Form saved successfully!");
+  const handleSave = (schema: FormSchema) => {
+    saveForm.mutate(
+      { formId, schema },
+      {
+        onSuccess: (id) => {
+          showSavedForm(id);
+          toast({ title: "Form saved", description: "Your draft was saved." });
+        },
+      },
+    );
   };
 
   const handlePublish = (schema: FormSchema) => {
-    // In a real app, this would publish to a backend
-    console.log("Publishing form:", schema);
-
-    // Save the form first
-    handleSave(schema);
-
-    // Show success message with shareable link
-    alert(
-      "Form published successfully! You can now share this form with others.",
+    publishForm.mutate(
+      { formId, schema },
+      {
+        onSuccess: (id) => {
+          showSavedForm(id);
+          toast({
+            title: "Form published",
+            description: `Share this link: ${window.location.origin}/form-preview/${id}`,
+          });
+        },
+      },
     );
   };
 
-  return <FormBuilderComponent onSave={handleSave} onPublish={handlePublish} />;
+  if (formId && !isCreatedHere && (isLoading || isError)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <p className="text-gray-600 mb-4">
+            {isLoading ? "Loading form..." : error.message}
+          </p>
+          {isError && (
+            <Link to="/forms" className="text-indigo-600 hover:underline">
+              Back to forms
+            </Link>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <FormBuilderComponent
+      // Remount when switching forms so the builder picks up the new schema
+      key={isCreatedHere ? "new" : formId || "new"}
+      formId={formId}
+      initialSchema={form?.schema}
+      onSave={handleSave}
+      onPublish={handlePublish}
+      isSaving={saveForm.isPending || publishForm.isPending}
+    />
+  );
 }
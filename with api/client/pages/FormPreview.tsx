@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { FormRenderer } from "@/components/form-builder/FormRenderer";
 import {
@@ -6,68 +6,153 @@ import {
   createDefaultForm,
   createDefaultField,
   generateId,
+  isFormClosed,
 } from "@/lib/form-schema";
-import { ValidationResult } from "@/lib/form-validation";
+import { ValidationResult } from "@shared/form-validation";
+import {
+  ApiError,
+  usePublishedForm,
+  useSubmitResponse,
+} from "@/lib/api-client";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, CheckCircle } from "lucide-react";
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle,
+  EyeOff,
+  Lock,
+  LucideIcon,
+} from "lucide-react";
+
+// The landing page links here to show the builder's output without a backend
+const DEMO_FORM_ID = "demo";
+
+const createDemoForm = (): FormSchema => {
+  const demoForm = createDefaultForm();
+  demoForm.title = "Course Feedback Form";
+  demoForm.description =
+    "Help us improve! Share your feedback on your learning experience.";
+
+  const field1 = {
+    ...createDefaultField("short-text"),
+    id: generateId(),
+    order: 0,
+  };
+  field1.label = "Which module topic was the most useful?";
+  field1.description =
+    "Enter the name of the topic or share your learning insights.";
+
+  const field2 = {
+    ...createDefaultField("long-text"),
+    id: generateId(),
+    order: 1,
+  };
+  field2.label = "Suggest any content improvements";
+  field2.description =
+    "Provide detailed feedback on specific areas for improvement.";
+
+  demoForm.items = [field1, field2];
+  return demoForm;
+};
+
+interface StatusMessageProps {
+  icon: LucideIcon;
+  iconClassName: string;
+  title: string;
+  message: string;
+  onBack: () => void;
+}
+
+const StatusMessage = ({
+  icon: Icon,
+  iconClassName,
+  title,
+  message,
+  onBack,
+}: StatusMessageProps) => (
+  <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+    <div className="max-w-md w-full">
+      <div className="bg-white rounded-lg shadow-sm p-8 text-center">
+        <Icon className={`w-16 h-16 mx-auto mb-4 ${iconClassName}`} />
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">{title}</h1>
+        <p className="text-gray-600 mb-6">{message}</p>
+        <Button onClick={onBack} variant="outline">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Forms
+        </Button>
+      </div>
+    </div>
+  </div>
+);
 
 export default function FormPreview() {
   const { formId } = useParams<{ formId: string }>();
   const navigate = useNavigate();
-  const [schema, setSchema] = useState<FormSchema | null>(null);
+  const isDemo = formId === DEMO_FORM_ID;
+  const [demoSchema] = useState<FormSchema>(createDemoForm);
   const [submitted, setSubmitted] = useState(false);
-  const [submissionData, setSubmissionData] = useState<any>(null);
-
-  useEffect(() => {
-    // Create demo form with the new structure
-    const demoForm = createDefaultForm();
-    demoForm.title = "Course Feedback Form";
-    demoForm.description =
-      "Help us improve! Share your feedback on your learning experience.";
-
-    // Add some demo fields directly and in sections
-    const field1 = {
-      ...createDefaultField("short-text"),
-      id: generateId(),
-      order: 0,
-    };
-    field1.label = "Which module topic was the most useful?";
-    field1.description =
-      "Enter the name of the topic or share your learning insights.";
-
-    const field2 = {
-      ...createDefaultField("long-text"),
-      id: generateId(),
-      order: 1,
-    };
-    field2.label = "Suggest any content improvements";
-    field2.description =
-      "Provide detailed feedback on specific areas for improvement.";
-
-    // Add them to the form
-    demoForm.items = [field1, field2];
-
-    setSchema(demoForm);
-  }, [formId]);
-
-  const handleSubmit = (
+
+  // Respondents fill in the published version, never the builder's draft
+  const published = usePublishedForm(isDemo ? null : formId);
+  const submitResponse = useSubmitResponse();
+
+  const schema = isDemo ? demoSchema : published.data?.schema;
+
+  const handleSubmit = async (
     values: Record<string, any>,
     validation: ValidationResult,
   ) => {
-    if (validation.isValid) {
-      console.log("Form Schema:", JSON.stringify(schema, null, 2));
-      console.log("Form submitted:", values);
-      setSubmissionData(values);
-      setSubmitted(true);
-    } else {
+    if (!validation.isValid) {
       console.log("Form validation failed:", validation.errors);
+      return;
     }
+
+    if (!isDemo) {
+      // Rejections keep the answers on screen, the hook shows the error toast
+      await submitResponse.mutateAsync({
+        formId: formId!,
+        formVersionId: published.data?.id,
+        values,
+      });
+    }
+    setSubmitted(true);
   };
 
-  const handleBackToBuilder = () => {
-    navigate("/form-builder");
+  const handleBackToForms = () => {
+    navigate("/forms");
   };
 
+  const loadError = published.error;
+  // The form exists but has no published version to show
+  if (loadError instanceof ApiError && loadError.status === 403) {
+    return (
+      <StatusMessage
+        icon={EyeOff}
+        iconClassName="text-gray-400"
+        title="Form Not Published"
+        message="This form isn't accepting responses yet. Publish it from the builder to share it."
+        onBack={handleBackToForms}
+      />
+    );
+  }
+
+  if (loadError) {
+    const notFound = loadError instanceof ApiError && loadError.status === 404;
+    return (
+      <StatusMessage
+        icon={AlertCircle}
+        iconClassName="text-red-500"
+        title={notFound ? "Form Not Found" : "Something Went Wrong"}
+        message={
+          notFound
+            ? "This form doesn't exist or has been deleted."
+            : `We couldn't load this form: ${loadError.message}`
+        }
+        onBack={handleBackToForms}
+      />
+    );
+  }
+
   if (!schema) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -79,25 +164,27 @@ export default function FormPreview() {
     );
   }
 
+  if (isFormClosed(schema)) {
+    return (
+      <StatusMessage
+        icon={Lock}
+        iconClassName="text-amber-500"
+        title="Form Closed"
+        message="This form is no longer accepting responses."
+        onBack={handleBackToForms}
+      />
+    );
+  }
+
   if (submitted) {
     return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
-        <div className="max-w-md w-full">
-          <div className="bg-white rounded-lg shadow-sm p-8 text-center">
-            <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
-            <h1 className="text-2xl font-bold text-gray-900 mb-2">
-              Thank You!
-            </h1>
-            <p className="text-gray-600 mb-6">
-              Your response has been submitted successfully.
-            </p>
-            <Button onClick={handleBackToBuilder} variant="outline">
-              <ArrowLeft className="w-4 h-4 mr-2" />
-              Back to Form Builder
-            </Button>
-          </div>
-        </div>
-      </div>
+      <StatusMessage
+        icon={CheckCircle}
+        iconClassName="text-green-500"
+        title="Thank You!"
+        message="Your response has been submitted successfully."
+        onBack={handleBackToForms}
+      />
     );
   }
 
@@ -107,18 +194,23 @@ export default function FormPreview() {
         <div className="max-w-4xl mx-auto flex items-center justify-between">
           <Button
             variant="ghost"
-            onClick={handleBackToBuilder}
+            onClick={handleBackToForms}
             className="flex items-center gap-2"
           >
             <ArrowLeft className="w-4 h-4" />
-            Back to Builder
+            Back to Forms
           </Button>
           <div className="text-sm text-gray-500">Form Preview</div>
         </div>
       </div>
 
       <div className="py-8">
-        <FormRenderer schema={schema} onSubmit={handleSubmit} mode="response" />
+        <FormRenderer
+          schema={schema}
+          formVersionId={published.data?.id}
+          onSubmit={handleSubmit}
+          mode="response"
+        />
       </div>
     </div>
   );
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, MessageSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useForm, useFormResponses } from "@/lib/api-client";
+
+const PAGE_SIZE = 10;
+
+export default function FormResponses() {
+  const { formId } = useParams<{ formId: string }>();
+  const [pageNumber, setPageNumber] = useState(1);
+
+  const { data: form } = useForm(formId);
+  const { data, isLoading, isError, error } = useFormResponses(formId, {
+    pageNumber,
+    pageSize: PAGE_SIZE,
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <Link
+            to="/forms"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2"
+          >
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            All forms
+          </Link>
+          <div className="flex items-center gap-2">
+            <MessageSquare className="w-5 h-5 text-indigo-600" />
+            <h1 className="text-xl font-semibold text-gray-900">
+              {form?.title || "Form"} responses
+            </h1>
+          </div>
+          {data && (
+            <p className="text-sm text-gray-500 mt-1">
+              {data.totalCount} response{data.totalCount === 1 ? "" : "s"}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-4">
+        {isLoading ? (
+          <p className="text-center text-gray-500">Loading responses...</p>
+        ) : isError ? (
+          <p className="text-center text-red-600">
+            Could not load responses: {error.message}
+          </p>
+        ) : !data || data.responses.length === 0 ? (
+          <p className="text-center text-gray-600">No responses yet.</p>
+        ) : (
+          <>
+            {data.responses.map((response) => (
+              <Card key={response.id}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base font-medium">
+                    {format(
+                      new Date(response.submittedAt),
+                      "MMM dd, yyyy HH:mm",
+                    )}
+                    {response.submittedBy && (
+                      <span className="text-gray-500 font-normal">
+                        {" "}
+                        by {response.submittedBy}
+                      </span>
+                    )}
+                    {response.versionNumber !== null && (
+                      <span className="ml-2 text-xs font-normal text-gray-500 bg-gray-100 rounded px-1.5 py-0.5">
+                        v{response.versionNumber}
+                      </span>
+                    )}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <dl className="grid grid-cols-1 sm:grid-cols-3 gap-x-4 gap-y-2 text-sm">
+                    {response.fields.map((field) => (
+                      <div key={field.fieldId} className="contents">
+                        <dt className="text-gray-500">{field.label}</dt>
+                        <dd className="sm:col-span-2 text-gray-900">
+                          {field.entries?.length ? (
+                            <ol className="space-y-2">
+                              {field.entries.map((entry, index) => (
+                                <li
+                                  key={index}
+                                  className="rounded border border-gray-200 p-2"
+                                >
+                                  <div className="text-xs text-gray-500 mb-1">
+                                    Entry {index + 1}
+                                  </div>
+                                  {entry.map((answer) => (
+                                    <div key={answer.fieldId}>
+                                      <span className="text-gray-500">
+                                        {answer.label}:
+                                      </span>{" "}
+                                      {answer.displayValue}
+                                    </div>
+                                  ))}
+                                </li>
+                              ))}
+                            </ol>
+                          ) : (
+                            field.displayValue
+                          )}
+                        </dd>
+                      </div>
+                    ))}
+                  </dl>
+                </CardContent>
+              </Card>
+            ))}
+
+            {data.totalPages > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <Button
+                  variant="outline"
+                  disabled={!data.hasPreviousPage}
+                  onClick={() => setPageNumber((page) => page - 1)}
+                >
+                  Previous
+                </Button>
+                <span className="text-sm text-gray-600">
+                  Page {data.pageNumber} of {data.totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  disabled={!data.hasNextPage}
+                  onClick={() => setPageNumber((page) => page + 1)}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
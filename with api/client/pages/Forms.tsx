@@ -0,0 +1,304 @@
+import { useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import {
+  Copy,
+  Eye,
+  FileText,
+  MessageSquare,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { MAX_TITLE_LENGTH } from "@shared/api";
+import {
+  FormSummary,
+  useCloneForm,
+  useDeleteForm,
+  useForms,
+} from "@/lib/api-client";
+import { toast } from "@/hooks/use-toast";
+
+type SortOption = "updated" | "title" | "responses";
+
+const COPY_SUFFIX = " (Copy)";
+
+const sortForms = (forms: FormSummary[], sortBy: SortOption) => {
+  const sorted = [...forms];
+  switch (sortBy) {
+    case "title":
+      return sorted.sort((a, b) => a.title.localeCompare(b.title));
+    case "responses":
+      return sorted.sort((a, b) => b.responseCount - a.responseCount);
+    default:
+      return sorted.sort(
+        (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime(),
+      );
+  }
+};
+
+export default function Forms() {
+  const navigate = useNavigate();
+  const { data: forms = [], isLoading, isError, error } = useForms();
+  const cloneForm = useCloneForm();
+  const deleteForm = useDeleteForm();
+
+  const [search, setSearch] = useState("");
+  const [sortBy, setSortBy] = useState<SortOption>("updated");
+  const [formToDelete, setFormToDelete] = useState<FormSummary | null>(null);
+
+  const visibleForms = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const matches = term
+      ? forms.filter(
+          (form) =>
+            form.title.toLowerCase().includes(term) ||
+            form.description.toLowerCase().includes(term),
+        )
+      : forms;
+    return sortForms(matches, sortBy);
+  }, [forms, search, sortBy]);
+
+  const handleClone = (form: FormSummary) => {
+    // Long titles are cut short so the copy still fits the limit
+    const title = `${form.title
+      .slice(0, MAX_TITLE_LENGTH - COPY_SUFFIX.length)
+      .trimEnd()}${COPY_SUFFIX}`;
+    cloneForm.mutate(
+      { id: form.id, title },
+      {
+        onSuccess: () =>
+          toast({
+            title: "Form cloned",
+            description: `"${title}" was created as a draft.`,
+          }),
+      },
+    );
+  };
+
+  const handleDelete = () => {
+    if (!formToDelete) return;
+    deleteForm.mutate(formToDelete.id, {
+      onSuccess: () => toast({ title: "Form deleted" }),
+    });
+    setFormToDelete(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-indigo-600" />
+            <h1 className="text-xl font-semibold text-gray-900">My Forms</h1>
+          </div>
+          <Button asChild className="bg-indigo-600 hover:bg-indigo-700">
+            <Link to="/form-builder">
+              <Plus className="w-4 h-4 mr-2" />
+              New Form
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col sm:flex-row gap-3 mb-6">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search forms..."
+              className="pl-9 bg-white"
+            />
+          </div>
+          <Select
+            value={sortBy}
+            onValueChange={(value) => setSortBy(value as SortOption)}
+          >
+            <SelectTrigger className="sm:w-56 bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="updated">Recently updated</SelectItem>
+              <SelectItem value="title">Title (A-Z)</SelectItem>
+              <SelectItem value="responses">Most responses</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="bg-white rounded-lg border border-gray-200">
+          {isLoading ? (
+            <p className="p-8 text-center text-gray-500">Loading forms...</p>
+          ) : isError ? (
+            <p className="p-8 text-center text-red-600">
+              Could not load forms: {error.message}
+            </p>
+          ) : visibleForms.length === 0 ? (
+            <div className="p-12 text-center">
+              <p className="text-gray-600 mb-4">
+                {search
+                  ? "No forms match your search."
+                  : "You haven't created any forms yet."}
+              </p>
+              {!search && (
+                <Button asChild variant="outline">
+                  <Link to="/form-builder">Create your first form</Link>
+                </Button>
+              )}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Responses</TableHead>
+                  <TableHead>Last updated</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleForms.map((form) => (
+                  <TableRow key={form.id}>
+                    <TableCell>
+                      <Link
+                        to={`/form-builder/${form.id}`}
+                        className="font-medium text-gray-900 hover:text-indigo-600"
+                      >
+                        {form.title}
+                      </Link>
+                      {form.description && (
+                        <p className="text-sm text-gray-500 truncate max-w-md">
+                          {form.description}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={form.isPublished ? "default" : "secondary"}
+                      >
+                        {form.isPublished ? "Published" : "Draft"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {form.responseCount}
+                    </TableCell>
+                    <TableCell className="text-gray-600">
+                      {format(form.updatedAt, "MMM dd, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <MoreHorizontal className="w-4 h-4" />
+                            <span className="sr-only">Form actions</span>
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem
+                            onClick={() => navigate(`/form-builder/${form.id}`)}
+                          >
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => navigate(`/form-preview/${form.id}`)}
+                          >
+                            <Eye className="w-4 h-4 mr-2" />
+                            Preview
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() =>
+                              navigate(`/forms/${form.id}/responses`)
+                            }
+                          >
+                            <MessageSquare className="w-4 h-4 mr-2" />
+                            View responses
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleClone(form)}>
+                            <Copy className="w-4 h-4 mr-2" />
+                            Clone
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            className="text-red-600 focus:text-red-600"
+                            onClick={() => setFormToDelete(form)}
+                          >
+                            <Trash2 className="w-4 h-4 mr-2" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </div>
+
+      <AlertDialog
+        open={!!formToDelete}
+        onOpenChange={(open) => !open && setFormToDelete(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this form?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{formToDelete?.title}" and all of its responses will be
+              permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
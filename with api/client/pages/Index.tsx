@@ -54,6 +54,17 @@ export default function Index() {
                   View Demo
                 </Link>
               </Button>
+              <Button
+                asChild
+                variant="outline"
+                size="lg"
+                className="px-8 py-3 text-lg"
+              >
+                <Link to="/forms">
+                  <FileText className="w-5 h-5 mr-2" />
+                  My Forms
+                </Link>
+              </Button>
             </div>
           </div>
         </div>
@@ -1,10 +1,41 @@
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
+import {
+  handleGetForms,
+  handleGetForm,
+  handleCreateForm,
+  handleUpdateForm,
+  handleDeleteForm,
+  handleCloneForm,
+  handlePublishForm,
+  handleGetFormVersions,
+  handleGetFormVersion,
+  handleGetPublishedForm,
+  handleRestoreFormVersion,
+} from "./routes/forms";
+import {
+  handleSubmitFormResponse,
+  handleCheckAnswer,
+  handleGetFormResponses,
+  handleGetFormResponse,
+  handleDeleteFormResponse,
+} from "./routes/form-responses";
+import { getTrustProxy, rateLimit } from "./routes/utils";
+import { formService } from "./services/form-service";
 
 export function createServer() {
   const app = express();
 
+  // Forms published before versioning need a version to be filled in
+  formService.publishLegacyForms().catch((error) => {
+    console.error("Could not publish versions of existing forms:", error);
+  });
+
+  // rateLimit tells clients apart by req.ip, which behind a proxy is the
+  // proxy's address unless it's trusted
+  app.set("trust proxy", getTrustProxy());
+
   // Middleware
   app.use(cors());
   app.use(express.json());
@@ -17,5 +48,36 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // Forms API (mirrors FormBuilder.Api FormsController)
+  app.get("/api/forms", handleGetForms);
+  app.post("/api/forms", handleCreateForm);
+  app.get("/api/forms/:id", handleGetForm);
+  app.put("/api/forms/:id", handleUpdateForm);
+  app.delete("/api/forms/:id", handleDeleteForm);
+  app.post("/api/forms/:id/clone", handleCloneForm);
+
+  // Form versions (published snapshots of the draft schema)
+  app.post("/api/forms/:id/publish", handlePublishForm);
+  app.get("/api/forms/:id/published", handleGetPublishedForm);
+  app.get("/api/forms/:id/versions", handleGetFormVersions);
+  app.get("/api/forms/:id/versions/:versionId", handleGetFormVersion);
+  app.post(
+    "/api/forms/:id/versions/:versionId/restore",
+    handleRestoreFormVersion,
+  );
+
+  // Form responses API (mirrors FormBuilder.Api FormResponsesController)
+  app.post("/api/formresponses/submit", handleSubmitFormResponse);
+  // Open to respondents and can read every response of the form, so each
+  // client gets a few checks a second while typing and no more
+  app.post(
+    "/api/formresponses/check",
+    rateLimit({ windowMs: 60_000, max: 60 }),
+    handleCheckAnswer,
+  );
+  app.get("/api/formresponses/form/:formId", handleGetFormResponses);
+  app.get("/api/formresponses/:id", handleGetFormResponse);
+  app.delete("/api/formresponses/:id", handleDeleteFormResponse);
+
   return app;
 }
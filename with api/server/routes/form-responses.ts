@@ -0,0 +1,139 @@
+import { Request, RequestHandler } from "express";
+import {
+  AnswerCheckRequest,
+  FormResponseQuery,
+  SubmitFormRequest,
+  SubmitFormResponse,
+} from "@shared/api";
+import { formResponseService } from "../services/form-response-service";
+import { sendError } from "./utils";
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 100;
+
+const getClientIpAddress = (req: Request): string => {
+  // X-Forwarded-For can contain multiple IPs, take the first one
+  const forwardedFor = req.header("x-forwarded-for");
+  if (forwardedFor) {
+    return forwardedFor.split(",")[0].trim();
+  }
+
+  return req.header("x-real-ip") || req.socket.remoteAddress || "Unknown";
+};
+
+const parseResponseQuery = (query: Request["query"]): FormResponseQuery => {
+  const pageNumber = parseInt(String(query.pageNumber ?? ""), 10);
+  const pageSize = parseInt(String(query.pageSize ?? ""), 10);
+  const asString = (value: unknown) =>
+    typeof value === "string" && value !== "" ? value : undefined;
+  // Normalise to ISO so every storage driver compares dates the same way
+  const asIsoDate = (value: unknown) => {
+    const date = new Date(asString(value) ?? NaN);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  };
+
+  return {
+    pageNumber: pageNumber >= 1 ? pageNumber : 1,
+    pageSize:
+      pageSize >= 1 && pageSize <= MAX_PAGE_SIZE ? pageSize : DEFAULT_PAGE_SIZE,
+    fromDate: asIsoDate(query.fromDate),
+    toDate: asIsoDate(query.toDate),
+    submittedBy: asString(query.submittedBy),
+    sortBy: query.sortBy === "SubmittedBy" ? "SubmittedBy" : "SubmittedAt",
+    sortDescending: query.sortDescending !== "false",
+  };
+};
+
+export const handleSubmitFormResponse: RequestHandler = async (req, res) => {
+  try {
+    const body = req.body as SubmitFormRequest;
+    if (!body || typeof body.formId !== "string" || body.formId === "") {
+      return res.status(400).json({ message: "FormId is required" });
+    }
+    if (typeof body.responseData !== "string" || body.responseData === "") {
+      return res.status(400).json({ message: "ResponseData is required" });
+    }
+    if (
+      body.formVersionId !== undefined &&
+      typeof body.formVersionId !== "string"
+    ) {
+      return res
+        .status(400)
+        .json({ message: "FormVersionId must be a string" });
+    }
+
+    const id = await formResponseService.submitFormResponse(
+      body,
+      getClientIpAddress(req),
+      req.header("user-agent") || "",
+    );
+    const response: SubmitFormResponse = {
+      id,
+      message: "Form submitted successfully",
+    };
+    res.status(200).json(response);
+  } catch (error) {
+    sendError(res, error, "An error occurred while submitting the form");
+  }
+};
+
+export const handleCheckAnswer: RequestHandler = async (req, res) => {
+  try {
+    const body = req.body as AnswerCheckRequest;
+    if (!body || typeof body.formId !== "string" || body.formId === "") {
+      return res.status(400).json({ message: "FormId is required" });
+    }
+    if (typeof body.fieldId !== "string" || body.fieldId === "") {
+      return res.status(400).json({ message: "FieldId is required" });
+    }
+    if (
+      body.formVersionId !== undefined &&
+      typeof body.formVersionId !== "string"
+    ) {
+      return res
+        .status(400)
+        .json({ message: "FormVersionId must be a string" });
+    }
+
+    const result = await formResponseService.checkAnswer(body);
+    res.status(200).json(result);
+  } catch (error) {
+    sendError(res, error, "An error occurred while checking the answer");
+  }
+};
+
+export const handleGetFormResponses: RequestHandler = async (req, res) => {
+  try {
+    const responses = await formResponseService.getFormResponses(
+      req.params.formId,
+      parseResponseQuery(req.query),
+    );
+    res.status(200).json(responses);
+  } catch (error) {
+    sendError(res, error, "An error occurred while retrieving form responses");
+  }
+};
+
+export const handleGetFormResponse: RequestHandler = async (req, res) => {
+  try {
+    const response = await formResponseService.getResponseById(req.params.id);
+    if (!response) {
+      return res.status(404).json({ message: "Response not found" });
+    }
+    res.status(200).json(response);
+  } catch (error) {
+    sendError(res, error, "An error occurred while retrieving the response");
+  }
+};
+
+export const handleDeleteFormResponse: RequestHandler = async (req, res) => {
+  try {
+    const deleted = await formResponseService.deleteResponse(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Response not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, "An error occurred while deleting the response");
+  }
+};
@@ -0,0 +1,200 @@
+import { RequestHandler } from "express";
+import {
+  CloneFormRequest,
+  CreateFormRequest,
+  CreatedResponse,
+  MAX_DESCRIPTION_LENGTH,
+  MAX_TITLE_LENGTH,
+  UpdateFormRequest,
+} from "@shared/api";
+import { formService } from "../services/form-service";
+import { sendError } from "./utils";
+
+const validateFormRequest = (
+  body: any,
+  requireSchema: boolean,
+): string | null => {
+  if (!body || typeof body !== "object") return "Request body is required";
+  if (typeof body.title !== "string" || body.title.trim() === "") {
+    return "Title is required";
+  }
+  if (body.title.length > MAX_TITLE_LENGTH) {
+    return `Title must be no more than ${MAX_TITLE_LENGTH} characters`;
+  }
+  if (
+    body.description !== undefined &&
+    (typeof body.description !== "string" ||
+      body.description.length > MAX_DESCRIPTION_LENGTH)
+  ) {
+    return `Description must be a string of no more than ${MAX_DESCRIPTION_LENGTH} characters`;
+  }
+  if (
+    requireSchema &&
+    (typeof body.schema !== "string" || body.schema.trim() === "")
+  ) {
+    return "Schema is required";
+  }
+  return null;
+};
+
+export const handleGetForms: RequestHandler = async (_req, res) => {
+  try {
+    const forms = await formService.getAllForms();
+    res.status(200).json(forms);
+  } catch (error) {
+    sendError(res, error, "An error occurred while retrieving forms");
+  }
+};
+
+export const handleGetForm: RequestHandler = async (req, res) => {
+  try {
+    const form = await formService.getFormById(req.params.id);
+    if (!form) {
+      return res.status(404).json({ message: "Form not found" });
+    }
+    res.status(200).json(form);
+  } catch (error) {
+    sendError(res, error, "An error occurred while retrieving the form");
+  }
+};
+
+export const handleCreateForm: RequestHandler = async (req, res) => {
+  try {
+    const validationError = validateFormRequest(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const id = await formService.createForm(req.body as CreateFormRequest);
+    const response: CreatedResponse = { id };
+    res.status(201).location(`/api/forms/${id}`).json(response);
+  } catch (error) {
+    sendError(res, error, "An error occurred while creating the form");
+  }
+};
+
+export const handleUpdateForm: RequestHandler = async (req, res) => {
+  try {
+    const validationError = validateFormRequest(req.body, true);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const request: UpdateFormRequest = {
+      ...req.body,
+      isPublished: req.body.isPublished === true,
+    };
+    const updated = await formService.updateForm(req.params.id, request);
+    if (!updated) {
+      return res.status(404).json({ message: "Form not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, "An error occurred while updating the form");
+  }
+};
+
+export const handleDeleteForm: RequestHandler = async (req, res) => {
+  try {
+    const deleted = await formService.deleteForm(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Form not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, "An error occurred while deleting the form");
+  }
+};
+
+export const handleCloneForm: RequestHandler = async (req, res) => {
+  try {
+    const validationError = validateFormRequest(req.body, false);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    const id = await formService.cloneForm(
+      req.params.id,
+      req.body as CloneFormRequest,
+    );
+    const response: CreatedResponse = { id };
+    res.status(201).location(`/api/forms/${id}`).json(response);
+  } catch (error) {
+    sendError(res, error, "An error occurred while cloning the form");
+  }
+};
+
+export const handlePublishForm: RequestHandler = async (req, res) => {
+  try {
+    const version = await formService.publishForm(req.params.id);
+    if (!version) {
+      return res.status(404).json({ message: "Form not found" });
+    }
+    res
+      .status(201)
+      .location(`/api/forms/${req.params.id}/versions/${version.id}`)
+      .json(version);
+  } catch (error) {
+    sendError(res, error, "An error occurred while publishing the form");
+  }
+};
+
+export const handleGetFormVersions: RequestHandler = async (req, res) => {
+  try {
+    const versions = await formService.getVersions(req.params.id);
+    if (!versions) {
+      return res.status(404).json({ message: "Form not found" });
+    }
+    res.status(200).json(versions);
+  } catch (error) {
+    sendError(res, error, "An error occurred while retrieving form versions");
+  }
+};
+
+export const handleGetFormVersion: RequestHandler = async (req, res) => {
+  try {
+    const version = await formService.getVersion(
+      req.params.id,
+      req.params.versionId,
+    );
+    if (!version) {
+      return res.status(404).json({ message: "Form version not found" });
+    }
+    res.status(200).json(version);
+  } catch (error) {
+    sendError(res, error, "An error occurred while retrieving the version");
+  }
+};
+
+// What respondents fill in; 403 while the form is unpublished, so its draft
+// is never sent to them
+export const handleGetPublishedForm: RequestHandler = async (req, res) => {
+  try {
+    const form = await formService.getFormById(req.params.id);
+    if (!form) {
+      return res.status(404).json({ message: "Form not found" });
+    }
+    const version = await formService.getPublishedVersion(req.params.id);
+    if (!version) {
+      return res.status(403).json({ message: "Form is not published" });
+    }
+    res.status(200).json(version);
+  } catch (error) {
+    sendError(res, error, "An error occurred while retrieving the form");
+  }
+};
+
+export const handleRestoreFormVersion: RequestHandler = async (req, res) => {
+  try {
+    const restored = await formService.restoreVersion(
+      req.params.id,
+      req.params.versionId,
+    );
+    if (!restored) {
+      return res.status(404).json({ message: "Form version not found" });
+    }
+    res.status(204).end();
+  } catch (error) {
+    sendError(res, error, "An error occurred while restoring the version");
+  }
+};
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Request, Response } from "express";
+import { getTrustProxy, rateLimit } from "./utils";
+
+describe("getTrustProxy", () => {
+  it("should read hops, flags and addresses from TRUST_PROXY", () => {
+    expect(getTrustProxy({})).toBe("loopback");
+    expect(getTrustProxy({ TRUST_PROXY: "1" })).toBe(1);
+    expect(getTrustProxy({ TRUST_PROXY: "false" })).toBe(false);
+    expect(getTrustProxy({ TRUST_PROXY: "10.0.0.0/8, 127.0.0.1" })).toBe(
+      "10.0.0.0/8, 127.0.0.1",
+    );
+  });
+});
+
+describe("rateLimit", () => {
+  const request = (ip: string) => ({ ip }) as Request;
+
+  const response = () => {
+    const res = {
+      statusCode: 200,
+      headers: {} as Record<string, string>,
+      setHeader: (name: string, value: string) => {
+        res.headers[name] = value;
+      },
+      status: (code: number) => {
+        res.statusCode = code;
+        return res;
+      },
+      json: () => res,
+    };
+    return res;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should turn a client away once it has used up its window", () => {
+    const limit = rateLimit({ windowMs: 60_000, max: 2 });
+    const next = vi.fn();
+    const statuses = [1, 2, 3].map(() => {
+      const res = response();
+      limit(request("1.2.3.4"), res as unknown as Response, next);
+      return res.statusCode;
+    });
+
+    expect(statuses).toEqual([200, 200, 429]);
+    expect(next).toHaveBeenCalledTimes(2);
+
+    const res = response();
+    limit(request("5.6.7.8"), res as unknown as Response, next);
+    expect(res.statusCode).toBe(200);
+  });
+
+  it("should let the client in again once the window has passed", () => {
+    const limit = rateLimit({ windowMs: 60_000, max: 1 });
+    const next = vi.fn();
+    limit(request("1.2.3.4"), response() as unknown as Response, next);
+
+    const turnedAway = response();
+    limit(request("1.2.3.4"), turnedAway as unknown as Response, next);
+    expect(turnedAway.statusCode).toBe(429);
+    expect(turnedAway.headers["Retry-After"]).toBe("60");
+
+    vi.advanceTimersByTime(60_000);
+    limit(request("1.2.3.4"), response() as unknown as Response, next);
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+});
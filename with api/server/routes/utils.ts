@@ -0,0 +1,89 @@
+import { RequestHandler, Response } from "express";
+import { ApiErrorResponse } from "@shared/api";
+import { ArgumentError, ResponseValidationError } from "../services/errors";
+
+// Maps service errors to the same status codes the .NET controllers use
+export const sendError = (
+  res: Response,
+  error: unknown,
+  fallbackMessage: string,
+) => {
+  if (error instanceof ArgumentError) {
+    const body: ApiErrorResponse = { message: error.message };
+    if (error instanceof ResponseValidationError) {
+      body.errors = error.errors;
+    }
+    return res.status(400).json(body);
+  }
+
+  const body: ApiErrorResponse = {
+    message: fallbackMessage,
+    error: error instanceof Error ? error.message : String(error),
+  };
+  return res.status(500).json(body);
+};
+
+/**
+ * Express's `trust proxy` setting from TRUST_PROXY: the number of proxies in
+ * front of the server, true or false, or the addresses and subnets to trust,
+ * comma-separated. `req.ip` only reads X-Forwarded-For through trusted
+ * proxies; by default those on the loopback address.
+ */
+export const getTrustProxy = (
+  env: Record<string, string | undefined> = process.env,
+): boolean | number | string => {
+  const value = env.TRUST_PROXY?.trim();
+  if (!value) return "loopback";
+  if (value === "true" || value === "false") return value === "true";
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+
+export interface RateLimitOptions {
+  windowMs: number;
+  // Requests one client may make per window
+  max: number;
+}
+
+/**
+ * Answers 429 once a client, told apart by IP address, has made `max`
+ * requests in the current window. Counts are kept in memory, so each server
+ * instance limits on its own.
+ */
+export const rateLimit = ({
+  windowMs,
+  max,
+}: RateLimitOptions): RequestHandler => {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+  let nextSweep = 0;
+
+  return (req, res, next) => {
+    const now = Date.now();
+    // Forget clients whose window has passed
+    if (now >= nextSweep) {
+      windows.forEach((window, key) => {
+        if (now >= window.resetAt) windows.delete(key);
+      });
+      nextSweep = now + windowMs;
+    }
+
+    const key = req.ip ?? "";
+    let window = windows.get(key);
+    if (!window || now >= window.resetAt) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    if (window.count > max) {
+      res.setHeader(
+        "Retry-After",
+        String(Math.ceil((window.resetAt - now) / 1000)),
+      );
+      const body: ApiErrorResponse = {
+        message: "Too many requests, try again later",
+      };
+      return res.status(429).json(body);
+    }
+    next();
+  };
+};
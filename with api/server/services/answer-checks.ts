@@ -0,0 +1,124 @@
+/**
+ * Answer Checks
+ *
+ * Named checks that need the server's data, e.g. whether an email has
+ * already responded. A field opts in with `validation.asyncCheck`; the
+ * renderer runs the check through POST /api/formresponses/check while the
+ * answer is typed, and submitFormResponse runs it again so a respondent
+ * can't skip it. Deployments add their own with registerAnswerCheck, e.g.
+ * an employee ID lookup.
+ *
+ * `unique` reads every response of the form on each check, so a check costs
+ * as much as the form has responses. The check endpoint is open to
+ * respondents and rate-limited per client (see server/index.ts); its answers
+ * do tell whether a value has been used, which is what the check is for.
+ */
+
+import { FormField, FormSchema, getAllFields } from "@shared/form-schema";
+import { ValidationError } from "@shared/form-validation";
+import { getRepeatableSections } from "@shared/repeatable-sections";
+import { getHiddenItemIds, isEmptyValue } from "@shared/visibility";
+import { ResponseStore } from "../storage";
+
+export interface AnswerCheckContext {
+  formId: string;
+  field: FormField;
+  responses: ResponseStore;
+}
+
+// Resolves to an error message, or null when the answer passes
+export type AnswerCheck = (
+  value: unknown,
+  context: AnswerCheckContext,
+) => Promise<string | null>;
+
+const PAGE_SIZE = 100;
+
+const normalize = (value: unknown): string =>
+  String(value).trim().toLowerCase();
+
+// No earlier response gave the same answer, ignoring case and whitespace
+const unique: AnswerCheck = async (value, { formId, field, responses }) => {
+  const answer = normalize(value);
+  for (let pageNumber = 1; ; pageNumber++) {
+    const page = await responses.query(formId, {
+      pageNumber,
+      pageSize: PAGE_SIZE,
+      sortBy: "SubmittedAt",
+      sortDescending: false,
+    });
+    const taken = page.responses.some((response) => {
+      try {
+        const previous = JSON.parse(response.responseData)?.[field.id];
+        return !isEmptyValue(previous) && normalize(previous) === answer;
+      } catch {
+        return false;
+      }
+    });
+    if (taken) {
+      return `This ${field.label || "answer"} has already been used`;
+    }
+    if (pageNumber * PAGE_SIZE >= page.totalCount) return null;
+  }
+};
+
+const ANSWER_CHECKS: Record<string, AnswerCheck> = { unique };
+
+export const registerAnswerCheck = (name: string, check: AnswerCheck) => {
+  ANSWER_CHECKS[name] = check;
+};
+
+export const getAnswerCheck = (name: string): AnswerCheck | undefined =>
+  ANSWER_CHECKS[name];
+
+/**
+ * Run one field's check. Unanswered fields and checks this server doesn't
+ * know pass.
+ */
+export const checkAnswer = async (
+  value: unknown,
+  context: AnswerCheckContext,
+): Promise<ValidationError | null> => {
+  const validation = context.field.properties.validation;
+  const check = validation?.asyncCheck && getAnswerCheck(validation.asyncCheck);
+  if (!check || isEmptyValue(value)) return null;
+
+  const message = await check(value, context);
+  return message
+    ? {
+        fieldId: context.field.id,
+        message: validation.messages?.async || message,
+        code: "async",
+      }
+    : null;
+};
+
+/**
+ * Run the checks of every shown field answered once; fields of repeatable
+ * sections are answered per entry and aren't checked.
+ */
+export const checkAnswers = async (
+  schema: FormSchema,
+  answers: Record<string, any>,
+  context: Omit<AnswerCheckContext, "field">,
+): Promise<ValidationError[]> => {
+  const hidden = getHiddenItemIds(schema, answers);
+  const repeatedFieldIds = new Set(
+    getRepeatableSections(schema).flatMap((section) =>
+      getAllFields(section.fields).map((field) => field.id),
+    ),
+  );
+  const fields = getAllFields(schema.items).filter(
+    (field) =>
+      field.properties.validation?.asyncCheck &&
+      !hidden.has(field.id) &&
+      !repeatedFieldIds.has(field.id),
+  );
+
+  const errors = await Promise.all(
+    fields.map((field) =>
+      checkAnswer(answers[field.id], { ...context, field }),
+    ),
+  );
+  return errors.filter(Boolean);
+};
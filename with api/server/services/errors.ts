@@ -0,0 +1,25 @@
+import { ValidationError } from "@shared/form-validation";
+
+/**
+ * Raised by services when a request is well-formed but cannot be applied
+ * (missing form, unpublished form, bad schema JSON). Routes map it to a
+ * 400 response, matching the ArgumentException handling in the .NET API.
+ */
+export class ArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArgumentError";
+  }
+}
+
+/**
+ * Raised when a submitted response breaks the rules of the form it answers.
+ * Routes send the per-field errors with the 400 response, in the shape the
+ * renderer shows them.
+ */
+export class ResponseValidationError extends ArgumentError {
+  constructor(public errors: ValidationError[]) {
+    super("Some answers are invalid");
+    this.name = "ResponseValidationError";
+  }
+}
@@ -0,0 +1,268 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { addDays } from "date-fns";
+import { toIsoDay } from "@shared/dates";
+import { createMemoryStorage } from "../storage";
+import { FormService } from "./form-service";
+import { FormResponseService } from "./form-response-service";
+import { ArgumentError, ResponseValidationError } from "./errors";
+
+const schema = {
+  schemaVersion: 2,
+  items: [
+    {
+      id: "name",
+      type: "short-text",
+      label: "Name",
+      required: true,
+      showDescription: false,
+      properties: { validation: { maxLength: 5 } },
+      order: 0,
+    },
+    {
+      id: "size",
+      type: "dropdown",
+      label: "Size",
+      required: false,
+      showDescription: false,
+      properties: {
+        options: [
+          { id: "s", label: "Small", value: "s" },
+          { id: "l", label: "Large", value: "l" },
+        ],
+        selectionType: "single",
+      },
+      order: 1,
+    },
+    {
+      id: "cv",
+      type: "file-upload",
+      label: "CV",
+      required: false,
+      showDescription: false,
+      properties: { acceptedTypes: [".pdf"], maxSize: 1000 },
+      order: 2,
+    },
+  ],
+};
+
+describe("FormResponseService.submitFormResponse", () => {
+  let forms: FormService;
+  let responses: FormResponseService;
+  let formId: string;
+
+  const submit = (answers: unknown) =>
+    responses.submitFormResponse(
+      { formId, responseData: JSON.stringify(answers) },
+      "127.0.0.1",
+      "vitest",
+    );
+
+  beforeEach(async () => {
+    const storage = createMemoryStorage();
+    forms = new FormService(storage.forms, storage.versions);
+    responses = new FormResponseService(
+      storage.forms,
+      storage.versions,
+      storage.responses,
+    );
+    formId = await forms.createForm({
+      title: "Form",
+      schema: JSON.stringify(schema),
+    });
+    await forms.publishForm(formId);
+  });
+
+  it("should store answers that follow the form's rules", async () => {
+    const id = await submit({
+      name: "Ann",
+      size: "l",
+      cv: { name: "cv.PDF", size: 900, type: "application/pdf" },
+    });
+
+    expect(await responses.getResponseById(id)).not.toBeNull();
+  });
+
+  it("should reject answers with per-field errors", async () => {
+    const error = await submit({
+      name: "Annabel",
+      size: "xl",
+      cv: { name: "cv.exe", size: 2000 },
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.errors).toEqual([
+      {
+        fieldId: "name",
+        message: "Name must be no more than 5 characters",
+        code: "maxLength",
+      },
+      {
+        fieldId: "size",
+        message: "Size must be one of the listed options",
+        code: "option",
+      },
+      {
+        fieldId: "cv",
+        message: "CV accepts only .pdf files",
+        code: "fileType",
+      },
+      {
+        fieldId: "cv",
+        message: "CV file size must be less than 1000 Bytes",
+        code: "fileSize",
+      },
+    ]);
+    await expect(submit({})).rejects.toMatchObject({
+      errors: [
+        { fieldId: "name", message: "Name is required", code: "required" },
+      ],
+    });
+  });
+
+  it("should check the form's cross-field rules", async () => {
+    const date = (id: string, order: number) => ({
+      id,
+      type: "date-picker",
+      label: id,
+      required: false,
+      showDescription: false,
+      properties: { dateFormat: "YYYY/MM/DD" },
+      order,
+    });
+    formId = await forms.createForm({
+      title: "Leave",
+      schema: JSON.stringify({
+        schemaVersion: 2,
+        items: [date("Start", 0), date("End", 1)],
+        rules: [{ id: "r", kind: "after", fieldIds: ["Start", "End"] }],
+      }),
+    });
+    await forms.publishForm(formId);
+
+    await expect(
+      submit({ Start: "2026-05-02", End: "2026-05-01" }),
+    ).rejects.toMatchObject({
+      errors: [
+        { fieldId: "End", message: "End must be after Start", code: "after" },
+      ],
+    });
+  });
+
+  it("should allow a day of slack on dates counted from today", async () => {
+    formId = await forms.createForm({
+      title: "Booking",
+      schema: JSON.stringify({
+        schemaVersion: 2,
+        items: [
+          {
+            id: "day",
+            type: "date-picker",
+            label: "Day",
+            required: false,
+            showDescription: false,
+            properties: { dateFormat: "YYYY/MM/DD", disallowPast: true },
+            order: 0,
+          },
+        ],
+      }),
+    });
+    await forms.publishForm(formId);
+    const daysAgo = (days: number) => toIsoDay(addDays(new Date(), -days));
+
+    await expect(submit({ day: daysAgo(1) })).resolves.toBeTruthy();
+    await expect(submit({ day: daysAgo(2) })).rejects.toMatchObject({
+      errors: [{ fieldId: "day", code: "minDate" }],
+    });
+  });
+
+  it("should run the server's answer checks", async () => {
+    formId = await forms.createForm({
+      title: "Sign-up",
+      schema: JSON.stringify({
+        schemaVersion: 2,
+        items: [
+          {
+            id: "email",
+            type: "short-text",
+            label: "Email",
+            required: true,
+            showDescription: false,
+            properties: { validation: { asyncCheck: "unique" } },
+            order: 0,
+          },
+        ],
+      }),
+    });
+    await forms.publishForm(formId);
+    const check = (value: string) =>
+      responses.checkAnswer({ formId, fieldId: "email", value });
+
+    await submit({ email: "ann@example.com" });
+
+    expect(await check(" Ann@example.com")).toEqual({
+      valid: false,
+      message: "This Email has already been used",
+    });
+    expect(await check("bob@example.com")).toEqual({ valid: true });
+    await expect(submit({ email: "ANN@example.com" })).rejects.toMatchObject({
+      errors: [{ fieldId: "email", code: "async" }],
+    });
+  });
+
+  it("should store calculated fields as worked out from the answers", async () => {
+    const field = (id: string, type: string, properties = {}) => ({
+      id,
+      type,
+      label: id,
+      required: false,
+      showDescription: false,
+      properties,
+      order: 0,
+    });
+    formId = await forms.createForm({
+      title: "Timesheet",
+      schema: JSON.stringify({
+        schemaVersion: 2,
+        items: [
+          field("hours", "number"),
+          field("rate", "number"),
+          field("pay", "calculated", { expression: "{hours} * {rate}" }),
+          field("bonus", "calculated", { expression: "{pay} / 10" }),
+        ],
+      }),
+    });
+    await forms.publishForm(formId);
+
+    const id = await submit({ hours: 7.5, rate: 20, pay: 1e6, bonus: 5 });
+    const { fields } = await responses.getResponseById(id);
+
+    expect(fields.map((f) => [f.fieldId, f.value])).toEqual([
+      ["hours", 7.5],
+      ["rate", 20],
+      ["pay", 150],
+      ["bonus", 15],
+    ]);
+  });
+
+  it("should not take answers to a draft version", async () => {
+    const [draft] = (await forms.getVersions(formId)).filter(
+      (version) => version.kind === "draft",
+    );
+
+    await expect(
+      responses.submitFormResponse(
+        {
+          formId,
+          formVersionId: draft.id,
+          responseData: JSON.stringify({ name: "Ann" }),
+        },
+        "127.0.0.1",
+        "vitest",
+      ),
+    ).rejects.toThrow("Form version not found");
+  });
+
+  it("should reject response data that isn't an object of answers", async () => {
+    await expect(submit(["Ann"])).rejects.toThrow(ArgumentError);
+  });
+});
@@ -0,0 +1,439 @@
+/**
+ * Form Response Service
+ *
+ * Node equivalent of FormBuilder.Api/Services/FormResponseService.cs.
+ * Curates stored submissions with the form template so the client can
+ * render answers without re-reading the schema. Each response is pinned to
+ * the FormVersion it was filled in, so later edits never change its meaning.
+ */
+
+import { randomUUID } from "crypto";
+import { format } from "date-fns";
+import {
+  AnswerCheckRequest,
+  AnswerCheckResponse,
+  Form,
+  FormResponse,
+  FormResponseQuery,
+  FormResponseWithTemplate,
+  FormVersion,
+  PaginatedFormResponses,
+  ResponseField,
+  SubmitFormRequest,
+} from "@shared/api";
+import {
+  getAnswerTime,
+  parseDateAnswer,
+  parseDateTimeAnswer,
+} from "@shared/dates";
+import {
+  FormSchema,
+  getAllFields,
+  isDateRangeAnswer,
+  isOtherAnswer,
+} from "@shared/form-schema";
+import { validateForm } from "@shared/form-validation";
+import { computeCalculatedValues } from "@shared/formula";
+import { migrateFormSchema } from "@shared/schema-migrations";
+import {
+  FormStore,
+  FormVersionStore,
+  ResponseStore,
+  storage,
+} from "../storage";
+import { ArgumentError, ResponseValidationError } from "./errors";
+import { checkAnswer, checkAnswers } from "./answer-checks";
+
+interface TemplateField {
+  id: string;
+  label: string;
+  type: string;
+  options?: Array<string | { label: string; value: string }>;
+  // Repeatable sections store one object of these fields' answers per entry
+  fields?: TemplateField[];
+}
+
+interface ResponseTemplate {
+  versionNumber: number | null;
+  fields: TemplateField[];
+}
+
+export class FormResponseService {
+  constructor(
+    private forms: FormStore,
+    private versions: FormVersionStore,
+    private responses: ResponseStore,
+  ) {}
+
+  async submitFormResponse(
+    request: SubmitFormRequest,
+    ipAddress: string,
+    userAgent: string,
+  ): Promise<string> {
+    // Validate form exists and is published
+    const form = await this.forms.getById(request.formId);
+    if (!form) {
+      throw new ArgumentError("Form not found");
+    }
+
+    const publishedVersion = form.publishedVersionId
+      ? await this.versions.getById(form.publishedVersionId)
+      : null;
+    if (!form.isPublished || !publishedVersion) {
+      throw new ArgumentError("Form is not published");
+    }
+
+    // Closing is a property of the live version, whichever one was filled in
+    if (this.isClosed(publishedVersion.schema)) {
+      throw new ArgumentError("Form is closed for submissions");
+    }
+
+    const version = await this.getFilledInVersion(
+      form,
+      publishedVersion,
+      request.formVersionId,
+    );
+    const submitted = this.parseResponseData(request.responseData);
+    if (!submitted) {
+      throw new ArgumentError("Invalid response data format");
+    }
+
+    // Calculated fields are worked out again from the answers rather than
+    // taken as sent
+    const schema = migrateFormSchema(JSON.parse(version.schema)) as FormSchema;
+    const answers = computeCalculatedValues(schema, submitted);
+
+    // The same rules and answer checks the renderer ran, against the version
+    // filled in. A field with errors already isn't reported twice. Dates
+    // counted from today get a day of slack, the respondent's today may not
+    // be the server's
+    const { errors } = validateForm(schema, answers, { dateSlackDays: 1 });
+    const invalid = new Set(errors.map((error) => error.fieldId));
+    const checkErrors = await checkAnswers(schema, answers, {
+      formId: form.id,
+      responses: this.responses,
+    });
+    errors.push(...checkErrors.filter((error) => !invalid.has(error.fieldId)));
+    if (errors.length > 0) {
+      throw new ResponseValidationError(errors);
+    }
+
+    const response: FormResponse = {
+      id: randomUUID(),
+      formId: request.formId,
+      formVersionId: version.id,
+      responseData: JSON.stringify(answers),
+      submittedAt: new Date().toISOString(),
+      submittedBy: request.submittedBy || "",
+      ipAddress,
+      userAgent,
+    };
+    // The store keeps the form's response count up to date
+    await this.responses.create(response);
+
+    return response.id;
+  }
+
+  // One answer checked while the form is filled in, see answer-checks.ts
+  async checkAnswer(request: AnswerCheckRequest): Promise<AnswerCheckResponse> {
+    const form = await this.forms.getById(request.formId);
+    const publishedVersion = form?.publishedVersionId
+      ? await this.versions.getById(form.publishedVersionId)
+      : null;
+    if (!form?.isPublished || !publishedVersion) {
+      throw new ArgumentError("Form is not published");
+    }
+
+    const version = await this.getFilledInVersion(
+      form,
+      publishedVersion,
+      request.formVersionId,
+    );
+    const schema = migrateFormSchema(JSON.parse(version.schema)) as FormSchema;
+    const field = getAllFields(schema.items).find(
+      (f) => f.id === request.fieldId,
+    );
+    if (!field) {
+      throw new ArgumentError("Field not found");
+    }
+
+    const error = await checkAnswer(request.value, {
+      formId: form.id,
+      field,
+      responses: this.responses,
+    });
+    return error ? { valid: false, message: error.message } : { valid: true };
+  }
+
+  async getFormResponses(
+    formId: string,
+    query: FormResponseQuery,
+  ): Promise<PaginatedFormResponses> {
+    const form = await this.forms.getById(formId);
+    if (!form) {
+      throw new ArgumentError("Form not found");
+    }
+
+    const { responses, totalCount } = await this.responses.query(formId, query);
+    const totalPages = Math.ceil(totalCount / query.pageSize);
+    const templates = new Map<string, ResponseTemplate>();
+
+    const curated: FormResponseWithTemplate[] = [];
+    for (const response of responses) {
+      const template = await this.getTemplate(
+        form,
+        response.formVersionId,
+        templates,
+      );
+      curated.push(
+        this.curateResponseWithTemplate(response, form.title, template),
+      );
+    }
+
+    return {
+      responses: curated,
+      totalCount,
+      pageNumber: query.pageNumber,
+      pageSize: query.pageSize,
+      totalPages,
+      hasNextPage: query.pageNumber < totalPages,
+      hasPreviousPage: query.pageNumber > 1,
+    };
+  }
+
+  async getResponseById(id: string): Promise<FormResponseWithTemplate | null> {
+    const response = await this.responses.getById(id);
+    if (!response) {
+      return null;
+    }
+
+    const form = await this.forms.getById(response.formId);
+    if (!form) {
+      return null;
+    }
+
+    const template = await this.getTemplate(
+      form,
+      response.formVersionId,
+      new Map(),
+    );
+    return this.curateResponseWithTemplate(response, form.title, template);
+  }
+
+  async deleteResponse(id: string): Promise<boolean> {
+    return this.responses.delete(id);
+  }
+
+  // Responses stored before versioning fall back to the form's draft schema
+  private async getTemplate(
+    form: Form,
+    versionId: string | null,
+    cache: Map<string, ResponseTemplate>,
+  ): Promise<ResponseTemplate> {
+    const key = versionId || "";
+    const cached = cache.get(key);
+    if (cached) return cached;
+
+    const version = versionId ? await this.versions.getById(versionId) : null;
+    const template: ResponseTemplate = version
+      ? {
+          versionNumber: version.versionNumber,
+          fields: this.getTemplateFields(version.schema),
+        }
+      : { versionNumber: null, fields: this.getTemplateFields(form.schema) };
+    cache.set(key, template);
+    return template;
+  }
+
+  // Extract field definitions from both the items and legacy sections shapes
+  private getTemplateFields(formSchema: string): TemplateField[] {
+    try {
+      const schema = JSON.parse(formSchema);
+      // Sections nest; inside a repeatable section's entries they never repeat
+      const collect =
+        (inEntry: boolean) => (fields: TemplateField[], item: any) => {
+          if (Array.isArray(item?.fields) && item.repeat && !inEntry) {
+            fields.push({
+              id: item.id,
+              label: item.title || "",
+              type: "repeat",
+              fields: item.fields.reduce(collect(true), []),
+            });
+          } else if (Array.isArray(item?.fields)) {
+            item.fields.reduce(collect(inEntry), fields);
+          } else if (item && typeof item.id === "string" && "type" in item) {
+            fields.push({
+              id: item.id,
+              label: item.label || "",
+              type: item.type || "",
+              options: item.properties?.options || item.options,
+            });
+          }
+          return fields;
+        };
+
+      return (schema.items || schema.sections || []).reduce(collect(false), []);
+    } catch {
+      // If schema parsing fails, return responses without field curation
+      return [];
+    }
+  }
+
+  private curateResponseWithTemplate(
+    response: FormResponse,
+    formTitle: string,
+    template: ResponseTemplate,
+  ): FormResponseWithTemplate {
+    let responseData: Record<string, unknown> = {};
+    try {
+      responseData = JSON.parse(response.responseData) || {};
+    } catch {
+      // Stored data is validated on submit; treat anything else as empty
+    }
+
+    const fields = this.curateFields(responseData, template.fields);
+
+    return {
+      id: response.id,
+      formId: response.formId,
+      formVersionId: response.formVersionId,
+      versionNumber: template.versionNumber,
+      formTitle,
+      submittedAt: response.submittedAt,
+      submittedBy: response.submittedBy,
+      fields,
+    };
+  }
+
+  private curateFields(
+    data: Record<string, unknown>,
+    templateFields: TemplateField[],
+  ): ResponseField[] {
+    return templateFields.map((field) => {
+      const value = data[field.id];
+      const curated: ResponseField = {
+        fieldId: field.id,
+        label: field.label,
+        type: field.type,
+        value: value ?? null,
+        displayValue: this.formatDisplayValue(value, field),
+      };
+      if (field.fields) {
+        const entries = Array.isArray(value) ? value : [];
+        curated.entries = entries.map((entry) =>
+          this.curateFields(entry || {}, field.fields),
+        );
+      }
+      return curated;
+    });
+  }
+
+  private formatDisplayValue(value: unknown, field: TemplateField): string {
+    if (value === undefined || value === null || value === "") {
+      return "Not answered";
+    }
+
+    const optionLabel = (optionValue: unknown) => {
+      if (isOtherAnswer(optionValue)) return `Other: ${optionValue.other}`;
+      const option = field.options?.find((o) =>
+        typeof o === "string" ? o === optionValue : o.value === optionValue,
+      );
+      if (!option) return String(optionValue);
+      return typeof option === "string" ? option : option.label;
+    };
+
+    const dateLabel = (day: unknown) => {
+      const date = parseDateAnswer(day);
+      return date ? format(date, "MMM dd, yyyy") : String(day ?? "");
+    };
+
+    switch (field.type) {
+      case "date":
+      case "date-picker":
+        return dateLabel(value);
+      case "time":
+        return getAnswerTime(value) ?? String(value);
+      case "datetime": {
+        // The day and time the respondent gave, with their UTC offset
+        const parts = parseDateTimeAnswer(value);
+        return parts
+          ? `${dateLabel(parts.day)} ${parts.time} (UTC${parts.offset})`
+          : String(value);
+      }
+      case "date-range":
+        return isDateRangeAnswer(value)
+          ? `${dateLabel(value.start)} – ${dateLabel(value.end)}`
+          : String(value);
+      case "select":
+      case "radio":
+      case "dropdown":
+      case "checkbox":
+        if (Array.isArray(value)) return value.map(optionLabel).join(", ");
+        if (typeof value === "boolean") return value ? "Yes" : "No";
+        return optionLabel(value);
+      case "repeat": {
+        const count = Array.isArray(value) ? value.length : 0;
+        return count === 1 ? "1 entry" : `${count} entries`;
+      }
+      case "file":
+      case "file-upload": {
+        const count = Array.isArray(value) ? value.length : 1;
+        return count > 0 ? `${count} file(s) uploaded` : "No files";
+      }
+      default:
+        return typeof value === "object"
+          ? JSON.stringify(value)
+          : String(value);
+    }
+  }
+
+  // Respondents may still be filling in a version published before the
+  // current one. Drafts share the store but were never open to respondents
+  private async getFilledInVersion(
+    form: Form,
+    publishedVersion: FormVersion,
+    versionId: string | undefined,
+  ): Promise<FormVersion> {
+    if (!versionId || versionId === publishedVersion.id) {
+      return publishedVersion;
+    }
+    const version = await this.versions.getById(versionId);
+    if (
+      !version ||
+      version.formId !== form.id ||
+      version.kind !== "published"
+    ) {
+      throw new ArgumentError("Form version not found");
+    }
+    return version;
+  }
+
+  // Forms stop accepting submissions once their schema's closesAt has passed
+  private isClosed(schemaJson: string): boolean {
+    try {
+      const closesAt = JSON.parse(schemaJson)?.closesAt;
+      return !!closesAt && new Date(closesAt).getTime() <= Date.now();
+    } catch {
+      return false;
+    }
+  }
+
+  // Answers are a JSON object of field id -> value
+  private parseResponseData(jsonData: string): Record<string, any> | null {
+    try {
+      const data = JSON.parse(jsonData);
+      return data && typeof data === "object" && !Array.isArray(data)
+        ? data
+        : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Global form response service instance
+export const formResponseService = new FormResponseService(
+  storage.forms,
+  storage.versions,
+  storage.responses,
+);
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Form } from "@shared/api";
+import { createMemoryStorage, Storage } from "../storage";
+import { FormService } from "./form-service";
+
+describe("FormService.publishLegacyForms", () => {
+  let storage: Storage;
+  let forms: FormService;
+
+  // A form stored published before versioning, with no version to point at
+  const legacyForm: Form = {
+    id: "legacy",
+    title: "Legacy",
+    description: "",
+    schema: JSON.stringify({ schemaVersion: 2, items: [] }),
+    isPublished: true,
+    publishedVersionId: null,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    createdBy: "",
+    responseCount: 0,
+  };
+
+  beforeEach(async () => {
+    storage = createMemoryStorage();
+    forms = new FormService(storage.forms, storage.versions);
+    await storage.forms.create(legacyForm);
+  });
+
+  it("should not publish a version when the published form is read", async () => {
+    expect(await forms.getPublishedVersion("legacy")).toBeNull();
+    expect(await storage.versions.listByForm("legacy")).toEqual([]);
+  });
+
+  it("should publish each legacy form once", async () => {
+    const draftId = await forms.createForm({
+      title: "Draft",
+      schema: legacyForm.schema,
+    });
+
+    expect(await forms.publishLegacyForms()).toBe(1);
+    expect(await forms.publishLegacyForms()).toBe(0);
+
+    const version = await forms.getPublishedVersion("legacy");
+    expect(version).toMatchObject({ kind: "published", title: "Legacy" });
+    expect(await storage.versions.listByForm("legacy")).toHaveLength(1);
+    expect(await forms.getPublishedVersion(draftId)).toBeNull();
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Form Service
+ *
+ * Node equivalent of FormBuilder.Api/Services/FormService.cs.
+ * Persistence goes through the configured FormStore (see server/storage).
+ *
+ * Updates only touch the draft schema. Every change to the draft is kept as
+ * an immutable "draft" FormVersion for the history, and publishing snapshots
+ * it as a "published" one, which is what respondents fill in.
+ */
+
+import { randomUUID } from "crypto";
+import {
+  Form,
+  FormListItem,
+  CreateFormRequest,
+  UpdateFormRequest,
+  CloneFormRequest,
+  FormVersion,
+  FormVersionKind,
+  FormVersionListItem,
+} from "@shared/api";
+import {
+  SchemaVersionError,
+  migrateFormSchema,
+} from "@shared/schema-migrations";
+import {
+  SchemaValidationError,
+  assertValidDocument,
+  formSchemaSchema,
+} from "@shared/schemas";
+import { FormStore, FormVersionStore, storage } from "../storage";
+import { ArgumentError } from "./errors";
+
+export class FormService {
+  constructor(
+    private forms: FormStore,
+    private versions: FormVersionStore,
+  ) {}
+
+  async getAllForms(): Promise<FormListItem[]> {
+    return this.forms.getAll();
+  }
+
+  async getFormById(id: string): Promise<Form | null> {
+    return this.forms.getById(id);
+  }
+
+  async createForm(request: CreateFormRequest): Promise<string> {
+    this.validateFormSchema(request.schema);
+
+    const now = new Date().toISOString();
+    const form: Form = {
+      id: randomUUID(),
+      title: request.title,
+      description: request.description || "",
+      schema: request.schema,
+      isPublished: false,
+      publishedVersionId: null,
+      createdAt: now,
+      updatedAt: now,
+      createdBy: request.createdBy || "",
+      responseCount: 0,
+    };
+
+    await this.forms.create(form);
+    await this.createVersion(form, "draft");
+    return form.id;
+  }
+
+  async updateForm(id: string, request: UpdateFormRequest): Promise<boolean> {
+    const existingForm = await this.forms.getById(id);
+    if (!existingForm) {
+      return false;
+    }
+
+    this.validateFormSchema(request.schema);
+
+    const updated = await this.forms.update(id, {
+      title: request.title,
+      description: request.description || "",
+      schema: request.schema,
+      isPublished: request.isPublished && !!existingForm.publishedVersionId,
+      updatedAt: new Date().toISOString(),
+    });
+
+    if (!updated) {
+      return false;
+    }
+
+    const form = await this.forms.getById(id);
+    await this.createVersion(form, "draft");
+
+    // Publishing a form for the first time needs a version to point at
+    if (request.isPublished && !existingForm.publishedVersionId) {
+      await this.publishForm(id);
+    }
+    return true;
+  }
+
+  // Returns null when the form doesn't exist
+  async publishForm(id: string): Promise<FormVersion | null> {
+    const form = await this.forms.getById(id);
+    if (!form) {
+      return null;
+    }
+
+    const version = await this.createVersion(form, "published");
+    await this.forms.update(id, {
+      isPublished: true,
+      publishedVersionId: version.id,
+      updatedAt: version.createdAt,
+    });
+    return version;
+  }
+
+  // Makes an earlier version the current draft; respondents are unaffected
+  // until the form is published again
+  async restoreVersion(formId: string, versionId: string): Promise<boolean> {
+    const version = await this.getVersion(formId, versionId);
+    if (!version) {
+      return false;
+    }
+
+    await this.forms.update(formId, {
+      title: version.title,
+      description: version.description,
+      schema: version.schema,
+      updatedAt: new Date().toISOString(),
+    });
+    const form = await this.forms.getById(formId);
+    await this.createVersion(form, "draft");
+    return true;
+  }
+
+  async getVersions(formId: string): Promise<FormVersionListItem[] | null> {
+    const form = await this.forms.getById(formId);
+    if (!form) {
+      return null;
+    }
+    return this.versions.listByForm(formId);
+  }
+
+  async getVersion(
+    formId: string,
+    versionId: string,
+  ): Promise<FormVersion | null> {
+    const version = await this.versions.getById(versionId);
+    return version && version.formId === formId ? version : null;
+  }
+
+  // The version respondents currently see, null while unpublished
+  async getPublishedVersion(formId: string): Promise<FormVersion | null> {
+    const form = await this.forms.getById(formId);
+    if (!form?.isPublished || !form.publishedVersionId) {
+      return null;
+    }
+    return this.versions.getById(form.publishedVersionId);
+  }
+
+  /**
+   * Gives forms published before versioning their first published version.
+   * Runs once when the server starts (see server/index.ts); forms it has
+   * already handled are skipped. Resolves with the number of forms published.
+   */
+  async publishLegacyForms(): Promise<number> {
+    const legacy = (await this.forms.getAll()).filter(
+      (form) => form.isPublished && !form.publishedVersionId,
+    );
+    for (const form of legacy) {
+      await this.publishForm(form.id);
+    }
+    return legacy.length;
+  }
+
+  // Versions and responses are removed by the store along with the form
+  async deleteForm(id: string): Promise<boolean> {
+    return this.forms.delete(id);
+  }
+
+  async cloneForm(id: string, request: CloneFormRequest): Promise<string> {
+    const originalForm = await this.forms.getById(id);
+    if (!originalForm) {
+      throw new ArgumentError("Original form not found");
+    }
+
+    return this.createForm({
+      title: request.title,
+      description: request.description,
+      schema: originalForm.schema,
+      createdBy: request.createdBy,
+    });
+  }
+
+  // Draft snapshots are skipped when nothing changed since the latest version
+  private async createVersion(
+    form: Form,
+    kind: FormVersionKind,
+  ): Promise<FormVersion> {
+    const [latestItem] = await this.versions.listByForm(form.id);
+    const latest = latestItem
+      ? await this.versions.getById(latestItem.id)
+      : null;
+
+    if (
+      kind === "draft" &&
+      latest &&
+      latest.title === form.title &&
+      latest.description === form.description &&
+      latest.schema === form.schema
+    ) {
+      return latest;
+    }
+
+    const version: FormVersion = {
+      id: randomUUID(),
+      formId: form.id,
+      versionNumber: (latest?.versionNumber || 0) + 1,
+      kind,
+      title: form.title,
+      description: form.description,
+      schema: form.schema,
+      createdAt: new Date().toISOString(),
+    };
+    await this.versions.create(version);
+    return version;
+  }
+
+  // Older shapes are accepted: the document is checked as it'll be once
+  // migrated on load, but stored as sent
+  validateFormSchema(schema: string): void {
+    let document: unknown;
+    try {
+      document = JSON.parse(schema);
+    } catch {
+      throw new ArgumentError("Invalid form schema format");
+    }
+    if (!document || typeof document !== "object" || Array.isArray(document)) {
+      throw new ArgumentError("Invalid form schema format");
+    }
+
+    try {
+      assertValidDocument(
+        formSchemaSchema,
+        migrateFormSchema(document as Record<string, any>),
+        "Invalid form schema",
+      );
+    } catch (error) {
+      if (
+        error instanceof SchemaValidationError ||
+        error instanceof SchemaVersionError
+      ) {
+        throw new ArgumentError(error.message);
+      }
+      throw error;
+    }
+  }
+}
+
+// Global form service instance
+export const formService = new FormService(storage.forms, storage.versions);
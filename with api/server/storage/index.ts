@@ -0,0 +1,54 @@
+/**
+ * Storage selection
+ *
+ * Picks the storage driver from the environment:
+ *   FORM_STORAGE       memory (default) | json | sqlite
+ *   FORM_STORAGE_PATH  data file for json/sqlite (defaults under ./data)
+ */
+
+import path from "path";
+import { createMemoryStorage } from "./memory-store";
+import { createJsonFileStorage } from "./json-file-store";
+import { createSqliteStorage } from "./sqlite-store";
+import { Storage, StorageConfig, StorageDriver } from "./types";
+
+export * from "./types";
+export { createMemoryStorage } from "./memory-store";
+export { createJsonFileStorage } from "./json-file-store";
+export { createSqliteStorage } from "./sqlite-store";
+
+const DEFAULT_PATHS: Record<StorageDriver, string | undefined> = {
+  memory: undefined,
+  json: path.join("data", "forms.json"),
+  sqlite: path.join("data", "forms.db"),
+};
+
+export const getStorageConfig = (
+  env: Record<string, string | undefined> = process.env,
+): StorageConfig => {
+  const driver = (env.FORM_STORAGE || "memory").toLowerCase();
+  if (driver !== "memory" && driver !== "json" && driver !== "sqlite") {
+    throw new Error(
+      `Unknown FORM_STORAGE "${driver}". Use memory, json or sqlite.`,
+    );
+  }
+
+  return {
+    driver,
+    path: env.FORM_STORAGE_PATH || DEFAULT_PATHS[driver],
+  };
+};
+
+export const createStorage = (config: StorageConfig): Storage => {
+  switch (config.driver) {
+    case "json":
+      return createJsonFileStorage(config.path || DEFAULT_PATHS.json);
+    case "sqlite":
+      return createSqliteStorage(config.path || DEFAULT_PATHS.sqlite);
+    default:
+      return createMemoryStorage();
+  }
+};
+
+// Storage used by the global service instances
+export const storage = createStorage(getStorageConfig());
@@ -0,0 +1,81 @@
+/**
+ * JSON file storage
+ *
+ * Keeps the whole dataset in memory and rewrites a single JSON file after
+ * every change. Good enough for local runs and small deployments.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Form, FormResponse, FormVersion } from "@shared/api";
+import { MemoryDatabase, createMemoryStorage } from "./memory-store";
+import { Storage } from "./types";
+
+interface JsonFileData {
+  forms: Form[];
+  // Missing in files written before form versioning
+  versions?: FormVersion[];
+  responses: FormResponse[];
+}
+
+export class JsonFileDatabase extends MemoryDatabase {
+  private loading: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {
+    super();
+  }
+
+  async ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  async persist(): Promise<void> {
+    const data: JsonFileData = {
+      forms: Array.from(this.forms.values()),
+      versions: Array.from(this.versions.values()),
+      responses: Array.from(this.responses.values()),
+    };
+
+    // Chain writes so concurrent requests never interleave on disk
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(() => this.write(JSON.stringify(data, null, 2)));
+    return this.writing;
+  }
+
+  private async load(): Promise<void> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.filePath, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return; // First run, start empty
+      throw error;
+    }
+
+    const data: JsonFileData = JSON.parse(contents);
+    (data.forms || []).forEach((form) =>
+      this.forms.set(form.id, { publishedVersionId: null, ...form }),
+    );
+    (data.versions || []).forEach((version) =>
+      this.versions.set(version.id, version),
+    );
+    (data.responses || []).forEach((response) =>
+      this.responses.set(response.id, { formVersionId: null, ...response }),
+    );
+  }
+
+  // Write to a temp file and rename, so a crash never leaves half a file
+  private async write(contents: string): Promise<void> {
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, contents, "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+export const createJsonFileStorage = (filePath: string): Storage =>
+  createMemoryStorage(new JsonFileDatabase(filePath));
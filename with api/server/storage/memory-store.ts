@@ -0,0 +1,187 @@
+/**
+ * In-memory storage
+ *
+ * Default driver for local development and tests. Also the base for the
+ * JSON file driver, which only adds loading and persisting.
+ */
+
+import {
+  Form,
+  FormListItem,
+  FormResponse,
+  FormResponseQuery,
+  FormVersion,
+  FormVersionListItem,
+} from "@shared/api";
+import {
+  FormChanges,
+  FormStore,
+  FormVersionStore,
+  ResponsePage,
+  ResponseStore,
+  Storage,
+} from "./types";
+
+export class MemoryDatabase {
+  forms: Map<string, Form> = new Map();
+  versions: Map<string, FormVersion> = new Map();
+  responses: Map<string, FormResponse> = new Map();
+
+  // Resolves once the data is available; nothing to load in memory
+  async ready(): Promise<void> {}
+
+  // Called after every write; nothing to persist in memory
+  async persist(): Promise<void> {}
+
+  // Same job as the TR_UpdateFormResponseCount trigger
+  refreshResponseCount(formId: string): void {
+    const form = this.forms.get(formId);
+    if (!form) return;
+
+    let responseCount = 0;
+    this.responses.forEach((response) => {
+      if (response.formId === formId) responseCount++;
+    });
+    this.forms.set(formId, { ...form, responseCount });
+  }
+}
+
+const toListItem = ({ schema, ...item }: Form): FormListItem => item;
+
+export class MemoryFormStore implements FormStore {
+  constructor(private db: MemoryDatabase) {}
+
+  async getAll(): Promise<FormListItem[]> {
+    await this.db.ready();
+    return Array.from(this.db.forms.values())
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map(toListItem);
+  }
+
+  async getById(id: string): Promise<Form | null> {
+    await this.db.ready();
+    return this.db.forms.get(id) || null;
+  }
+
+  async create(form: Form): Promise<void> {
+    await this.db.ready();
+    this.db.forms.set(form.id, { ...form });
+    await this.db.persist();
+  }
+
+  async update(id: string, changes: FormChanges): Promise<boolean> {
+    await this.db.ready();
+    const form = this.db.forms.get(id);
+    if (!form) return false;
+
+    this.db.forms.set(id, { ...form, ...changes });
+    await this.db.persist();
+    return true;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.db.ready();
+    if (!this.db.forms.delete(id)) return false;
+
+    this.db.versions.forEach((version, versionId) => {
+      if (version.formId === id) this.db.versions.delete(versionId);
+    });
+    this.db.responses.forEach((response, responseId) => {
+      if (response.formId === id) this.db.responses.delete(responseId);
+    });
+    await this.db.persist();
+    return true;
+  }
+}
+
+export class MemoryFormVersionStore implements FormVersionStore {
+  constructor(private db: MemoryDatabase) {}
+
+  async create(version: FormVersion): Promise<void> {
+    await this.db.ready();
+    this.db.versions.set(version.id, { ...version });
+    await this.db.persist();
+  }
+
+  async getById(id: string): Promise<FormVersion | null> {
+    await this.db.ready();
+    return this.db.versions.get(id) || null;
+  }
+
+  async listByForm(formId: string): Promise<FormVersionListItem[]> {
+    await this.db.ready();
+    return Array.from(this.db.versions.values())
+      .filter((version) => version.formId === formId)
+      .sort((a, b) => b.versionNumber - a.versionNumber)
+      .map(({ schema, ...item }) => item);
+  }
+}
+
+export class MemoryResponseStore implements ResponseStore {
+  constructor(private db: MemoryDatabase) {}
+
+  async create(response: FormResponse): Promise<void> {
+    await this.db.ready();
+    this.db.responses.set(response.id, { ...response });
+    this.db.refreshResponseCount(response.formId);
+    await this.db.persist();
+  }
+
+  async getById(id: string): Promise<FormResponse | null> {
+    await this.db.ready();
+    return this.db.responses.get(id) || null;
+  }
+
+  async query(formId: string, query: FormResponseQuery): Promise<ResponsePage> {
+    await this.db.ready();
+    const fromTime = query.fromDate ? Date.parse(query.fromDate) : NaN;
+    const toTime = query.toDate ? Date.parse(query.toDate) : NaN;
+    const submittedBy = query.submittedBy?.toLowerCase();
+
+    const matching = Array.from(this.db.responses.values()).filter(
+      (response) => {
+        if (response.formId !== formId) return false;
+        const submittedAt = Date.parse(response.submittedAt);
+        if (!isNaN(fromTime) && submittedAt < fromTime) return false;
+        if (!isNaN(toTime) && submittedAt > toTime) return false;
+        if (
+          submittedBy &&
+          !response.submittedBy.toLowerCase().includes(submittedBy)
+        ) {
+          return false;
+        }
+        return true;
+      },
+    );
+
+    const sortKey =
+      query.sortBy === "SubmittedBy" ? "submittedBy" : "submittedAt";
+    const direction = query.sortDescending ? -1 : 1;
+    matching.sort((a, b) => a[sortKey].localeCompare(b[sortKey]) * direction);
+
+    const offset = (query.pageNumber - 1) * query.pageSize;
+    return {
+      responses: matching.slice(offset, offset + query.pageSize),
+      totalCount: matching.length,
+    };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    await this.db.ready();
+    const response = this.db.responses.get(id);
+    if (!response) return false;
+
+    this.db.responses.delete(id);
+    this.db.refreshResponseCount(response.formId);
+    await this.db.persist();
+    return true;
+  }
+}
+
+export const createMemoryStorage = (
+  db: MemoryDatabase = new MemoryDatabase(),
+): Storage => ({
+  forms: new MemoryFormStore(db),
+  versions: new MemoryFormVersionStore(db),
+  responses: new MemoryResponseStore(db),
+});
@@ -0,0 +1,385 @@
+/**
+ * SQLite storage
+ *
+ * File-backed alternative to Database/create-tables.sql using Node's built-in
+ * `node:sqlite` module (Node.js 22.5+). The module is loaded lazily so the
+ * other drivers keep working on older Node versions.
+ */
+
+import type { DatabaseSync } from "node:sqlite";
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  Form,
+  FormListItem,
+  FormResponse,
+  FormResponseQuery,
+  FormVersion,
+  FormVersionListItem,
+} from "@shared/api";
+import {
+  FormChanges,
+  FormStore,
+  FormVersionStore,
+  ResponsePage,
+  ResponseStore,
+  Storage,
+} from "./types";
+
+const SCHEMA_SQL = `
+  PRAGMA foreign_keys = ON;
+
+  CREATE TABLE IF NOT EXISTS Forms (
+    Id TEXT PRIMARY KEY,
+    Title TEXT NOT NULL,
+    Description TEXT NOT NULL DEFAULT '',
+    Schema TEXT NOT NULL,
+    IsPublished INTEGER NOT NULL DEFAULT 0,
+    CreatedAt TEXT NOT NULL,
+    UpdatedAt TEXT NOT NULL,
+    CreatedBy TEXT NOT NULL DEFAULT '',
+    ResponseCount INTEGER NOT NULL DEFAULT 0,
+    PublishedVersionId TEXT NULL
+  );
+  CREATE INDEX IF NOT EXISTS IX_Forms_UpdatedAt ON Forms(UpdatedAt);
+
+  CREATE TABLE IF NOT EXISTS FormVersions (
+    Id TEXT PRIMARY KEY,
+    FormId TEXT NOT NULL REFERENCES Forms(Id) ON DELETE CASCADE,
+    VersionNumber INTEGER NOT NULL,
+    Kind TEXT NOT NULL,
+    Title TEXT NOT NULL,
+    Description TEXT NOT NULL DEFAULT '',
+    Schema TEXT NOT NULL,
+    CreatedAt TEXT NOT NULL,
+    UNIQUE (FormId, VersionNumber)
+  );
+
+  CREATE TABLE IF NOT EXISTS FormResponses (
+    Id TEXT PRIMARY KEY,
+    FormId TEXT NOT NULL REFERENCES Forms(Id) ON DELETE CASCADE,
+    ResponseData TEXT NOT NULL,
+    SubmittedAt TEXT NOT NULL,
+    SubmittedBy TEXT NOT NULL DEFAULT '',
+    IpAddress TEXT NOT NULL DEFAULT '',
+    UserAgent TEXT NOT NULL DEFAULT '',
+    FormVersionId TEXT NULL
+  );
+  CREATE INDEX IF NOT EXISTS IX_FormResponses_FormId ON FormResponses(FormId);
+  CREATE INDEX IF NOT EXISTS IX_FormResponses_SubmittedAt ON FormResponses(SubmittedAt);
+
+  -- Equivalent of TR_UpdateFormResponseCount
+  CREATE TRIGGER IF NOT EXISTS TR_FormResponses_Insert
+  AFTER INSERT ON FormResponses
+  BEGIN
+    UPDATE Forms
+    SET ResponseCount = (SELECT COUNT(*) FROM FormResponses WHERE FormId = NEW.FormId)
+    WHERE Id = NEW.FormId;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS TR_FormResponses_Delete
+  AFTER DELETE ON FormResponses
+  BEGIN
+    UPDATE Forms
+    SET ResponseCount = (SELECT COUNT(*) FROM FormResponses WHERE FormId = OLD.FormId)
+    WHERE Id = OLD.FormId;
+  END;
+`;
+
+// Columns added after the first release, for databases created before them
+const ADDED_COLUMNS: Array<
+  [table: string, column: string, definition: string]
+> = [
+  ["Forms", "PublishedVersionId", "TEXT NULL"],
+  ["FormResponses", "FormVersionId", "TEXT NULL"],
+];
+
+const FORM_COLUMNS =
+  "Id, Title, Description, IsPublished, CreatedAt, UpdatedAt, CreatedBy, ResponseCount, PublishedVersionId";
+
+const VERSION_COLUMNS =
+  "Id, FormId, VersionNumber, Kind, Title, Description, CreatedAt";
+
+const RESPONSE_COLUMNS =
+  "Id, FormId, FormVersionId, ResponseData, SubmittedAt, SubmittedBy, IpAddress, UserAgent";
+
+const toListItem = (row: any): FormListItem => ({
+  id: row.Id,
+  title: row.Title,
+  description: row.Description,
+  isPublished: row.IsPublished === 1,
+  createdAt: row.CreatedAt,
+  updatedAt: row.UpdatedAt,
+  createdBy: row.CreatedBy,
+  responseCount: row.ResponseCount,
+  publishedVersionId: row.PublishedVersionId ?? null,
+});
+
+const toForm = (row: any): Form => ({ ...toListItem(row), schema: row.Schema });
+
+const toVersionListItem = (row: any): FormVersionListItem => ({
+  id: row.Id,
+  formId: row.FormId,
+  versionNumber: row.VersionNumber,
+  kind: row.Kind,
+  title: row.Title,
+  description: row.Description,
+  createdAt: row.CreatedAt,
+});
+
+const toVersion = (row: any): FormVersion => ({
+  ...toVersionListItem(row),
+  schema: row.Schema,
+});
+
+const toResponse = (row: any): FormResponse => ({
+  id: row.Id,
+  formId: row.FormId,
+  formVersionId: row.FormVersionId ?? null,
+  responseData: row.ResponseData,
+  submittedAt: row.SubmittedAt,
+  submittedBy: row.SubmittedBy,
+  ipAddress: row.IpAddress,
+  userAgent: row.UserAgent,
+});
+
+export class SqliteDatabase {
+  private opening: Promise<DatabaseSync> | null = null;
+
+  constructor(private filePath: string) {}
+
+  connection(): Promise<DatabaseSync> {
+    if (!this.opening) {
+      this.opening = this.open();
+    }
+    return this.opening;
+  }
+
+  private async open(): Promise<DatabaseSync> {
+    let sqlite: typeof import("node:sqlite");
+    try {
+      sqlite = await import("node:sqlite");
+    } catch {
+      throw new Error("SQLite storage requires Node.js 22.5 or later");
+    }
+
+    if (this.filePath !== ":memory:") {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    }
+
+    const db = new sqlite.DatabaseSync(this.filePath);
+    db.exec(SCHEMA_SQL);
+    ADDED_COLUMNS.forEach(([table, column, definition]) => {
+      const columns = db.prepare(`PRAGMA table_info(${table})`).all();
+      if (!columns.some((info: any) => info.name === column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    });
+    return db;
+  }
+}
+
+export class SqliteFormStore implements FormStore {
+  constructor(private database: SqliteDatabase) {}
+
+  async getAll(): Promise<FormListItem[]> {
+    const db = await this.database.connection();
+    return db
+      .prepare(`SELECT ${FORM_COLUMNS} FROM Forms ORDER BY UpdatedAt DESC`)
+      .all()
+      .map(toListItem);
+  }
+
+  async getById(id: string): Promise<Form | null> {
+    const db = await this.database.connection();
+    const row = db
+      .prepare(`SELECT ${FORM_COLUMNS}, Schema FROM Forms WHERE Id = ?`)
+      .get(id);
+    return row ? toForm(row) : null;
+  }
+
+  async create(form: Form): Promise<void> {
+    const db = await this.database.connection();
+    db.prepare(
+      `INSERT INTO Forms (${FORM_COLUMNS}, Schema) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).run(
+      form.id,
+      form.title,
+      form.description,
+      form.isPublished ? 1 : 0,
+      form.createdAt,
+      form.updatedAt,
+      form.createdBy,
+      form.responseCount,
+      form.publishedVersionId,
+      form.schema,
+    );
+  }
+
+  async update(id: string, changes: FormChanges): Promise<boolean> {
+    const db = await this.database.connection();
+    const columns: Record<keyof FormChanges, string> = {
+      title: "Title",
+      description: "Description",
+      schema: "Schema",
+      isPublished: "IsPublished",
+      publishedVersionId: "PublishedVersionId",
+      updatedAt: "UpdatedAt",
+    };
+
+    const assignments: string[] = [];
+    const values: Array<string | number | null> = [];
+    (Object.keys(columns) as Array<keyof FormChanges>).forEach((key) => {
+      const value = changes[key];
+      if (value === undefined) return;
+      assignments.push(`${columns[key]} = ?`);
+      values.push(typeof value === "boolean" ? (value ? 1 : 0) : value);
+    });
+
+    if (assignments.length === 0) {
+      return (await this.getById(id)) !== null;
+    }
+
+    const result = db
+      .prepare(`UPDATE Forms SET ${assignments.join(", ")} WHERE Id = ?`)
+      .run(...values, id);
+    return Number(result.changes) > 0;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const db = await this.database.connection();
+    const result = db.prepare("DELETE FROM Forms WHERE Id = ?").run(id);
+    return Number(result.changes) > 0;
+  }
+}
+
+export class SqliteFormVersionStore implements FormVersionStore {
+  constructor(private database: SqliteDatabase) {}
+
+  async create(version: FormVersion): Promise<void> {
+    const db = await this.database.connection();
+    db.prepare(
+      `INSERT INTO FormVersions (${VERSION_COLUMNS}, Schema) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).run(
+      version.id,
+      version.formId,
+      version.versionNumber,
+      version.kind,
+      version.title,
+      version.description,
+      version.createdAt,
+      version.schema,
+    );
+  }
+
+  async getById(id: string): Promise<FormVersion | null> {
+    const db = await this.database.connection();
+    const row = db
+      .prepare(
+        `SELECT ${VERSION_COLUMNS}, Schema FROM FormVersions WHERE Id = ?`,
+      )
+      .get(id);
+    return row ? toVersion(row) : null;
+  }
+
+  async listByForm(formId: string): Promise<FormVersionListItem[]> {
+    const db = await this.database.connection();
+    return db
+      .prepare(
+        `SELECT ${VERSION_COLUMNS} FROM FormVersions WHERE FormId = ? ORDER BY VersionNumber DESC`,
+      )
+      .all(formId)
+      .map(toVersionListItem);
+  }
+}
+
+export class SqliteResponseStore implements ResponseStore {
+  constructor(private database: SqliteDatabase) {}
+
+  async create(response: FormResponse): Promise<void> {
+    const db = await this.database.connection();
+    db.prepare(
+      `INSERT INTO FormResponses (${RESPONSE_COLUMNS}) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).run(
+      response.id,
+      response.formId,
+      response.formVersionId,
+      response.responseData,
+      response.submittedAt,
+      response.submittedBy,
+      response.ipAddress,
+      response.userAgent,
+    );
+  }
+
+  async getById(id: string): Promise<FormResponse | null> {
+    const db = await this.database.connection();
+    const row = db
+      .prepare(`SELECT ${RESPONSE_COLUMNS} FROM FormResponses WHERE Id = ?`)
+      .get(id);
+    return row ? toResponse(row) : null;
+  }
+
+  async query(formId: string, query: FormResponseQuery): Promise<ResponsePage> {
+    const db = await this.database.connection();
+    const conditions = ["FormId = ?"];
+    const parameters: Array<string | number> = [formId];
+
+    if (query.fromDate) {
+      conditions.push("SubmittedAt >= ?");
+      parameters.push(query.fromDate);
+    }
+    if (query.toDate) {
+      conditions.push("SubmittedAt <= ?");
+      parameters.push(query.toDate);
+    }
+    if (query.submittedBy) {
+      // A plain substring, like the other stores: % and _ match themselves
+      const text = query.submittedBy.replace(/[\\%_]/g, "\\$&");
+      conditions.push("SubmittedBy LIKE ? ESCAPE '\\'");
+      parameters.push(`%${text}%`);
+    }
+
+    const whereClause = conditions.join(" AND ");
+    const sortColumn =
+      query.sortBy === "SubmittedBy" ? "SubmittedBy" : "SubmittedAt";
+    const sortDirection = query.sortDescending ? "DESC" : "ASC";
+
+    const countRow: any = db
+      .prepare(
+        `SELECT COUNT(*) AS TotalCount FROM FormResponses WHERE ${whereClause}`,
+      )
+      .get(...parameters);
+
+    const rows = db
+      .prepare(
+        `SELECT ${RESPONSE_COLUMNS} FROM FormResponses WHERE ${whereClause}
+         ORDER BY ${sortColumn} ${sortDirection} LIMIT ? OFFSET ?`,
+      )
+      .all(
+        ...parameters,
+        query.pageSize,
+        (query.pageNumber - 1) * query.pageSize,
+      );
+
+    return {
+      responses: rows.map(toResponse),
+      totalCount: Number(countRow.TotalCount),
+    };
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const db = await this.database.connection();
+    const result = db.prepare("DELETE FROM FormResponses WHERE Id = ?").run(id);
+    return Number(result.changes) > 0;
+  }
+}
+
+export const createSqliteStorage = (filePath: string): Storage => {
+  const database = new SqliteDatabase(filePath);
+  return {
+    forms: new SqliteFormStore(database),
+    versions: new SqliteFormVersionStore(database),
+    responses: new SqliteResponseStore(database),
+  };
+};
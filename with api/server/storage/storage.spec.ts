@@ -0,0 +1,278 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  Form,
+  FormResponse,
+  FormResponseQuery,
+  FormVersion,
+} from "@shared/api";
+import {
+  Storage,
+  createMemoryStorage,
+  createJsonFileStorage,
+  createSqliteStorage,
+  getStorageConfig,
+} from "./index";
+
+const [nodeMajor, nodeMinor] = process.versions.node.split(".").map(Number);
+const hasNodeSqlite = nodeMajor > 22 || (nodeMajor === 22 && nodeMinor >= 5);
+
+const makeForm = (id: string, updatedAt: string): Form => ({
+  id,
+  title: `Form ${id}`,
+  description: "",
+  schema: JSON.stringify({ items: [] }),
+  isPublished: true,
+  publishedVersionId: null,
+  createdAt: updatedAt,
+  updatedAt,
+  createdBy: "tester",
+  responseCount: 0,
+});
+
+const makeResponse = (
+  id: string,
+  formId: string,
+  submittedAt: string,
+  submittedBy = "",
+): FormResponse => ({
+  id,
+  formId,
+  formVersionId: null,
+  responseData: "{}",
+  submittedAt,
+  submittedBy,
+  ipAddress: "127.0.0.1",
+  userAgent: "vitest",
+});
+
+const makeVersion = (
+  id: string,
+  formId: string,
+  versionNumber: number,
+): FormVersion => ({
+  id,
+  formId,
+  versionNumber,
+  kind: "published",
+  title: `Form ${formId} v${versionNumber}`,
+  description: "",
+  schema: JSON.stringify({ items: [], version: versionNumber }),
+  createdAt: "2024-01-01T00:00:00.000Z",
+});
+
+const query = (overrides: Partial<FormResponseQuery> = {}) => ({
+  pageNumber: 1,
+  pageSize: 10,
+  sortBy: "SubmittedAt" as const,
+  sortDescending: true,
+  ...overrides,
+});
+
+const describeStorage = (
+  name: string,
+  create: (dir: string) => Storage,
+  enabled = true,
+) => {
+  describe.runIf(enabled)(`${name} storage`, () => {
+    let dir: string;
+    let storage: Storage;
+
+    beforeEach(() => {
+      dir = mkdtempSync(path.join(tmpdir(), "form-storage-"));
+      storage = create(dir);
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should list forms newest first without their schema", async () => {
+      await storage.forms.create(makeForm("a", "2024-01-01T00:00:00.000Z"));
+      await storage.forms.create(makeForm("b", "2024-02-01T00:00:00.000Z"));
+
+      const forms = await storage.forms.getAll();
+      expect(forms.map((f) => f.id)).toEqual(["b", "a"]);
+      expect(forms[0]).not.toHaveProperty("schema");
+    });
+
+    it("should update and delete forms", async () => {
+      await storage.forms.create(makeForm("a", "2024-01-01T00:00:00.000Z"));
+
+      expect(
+        await storage.forms.update("a", {
+          title: "Renamed",
+          isPublished: false,
+        }),
+      ).toBe(true);
+      const form = await storage.forms.getById("a");
+      expect(form?.title).toBe("Renamed");
+      expect(form?.isPublished).toBe(false);
+
+      expect(await storage.forms.update("missing", { title: "x" })).toBe(false);
+      expect(await storage.forms.delete("a")).toBe(true);
+      expect(await storage.forms.getById("a")).toBeNull();
+    });
+
+    it("should maintain the response count like the SQL trigger", async () => {
+      await storage.forms.create(makeForm("a", "2024-01-01T00:00:00.000Z"));
+      await storage.responses.create(
+        makeResponse("r1", "a", "2024-01-02T00:00:00.000Z"),
+      );
+      await storage.responses.create(
+        makeResponse("r2", "a", "2024-01-03T00:00:00.000Z"),
+      );
+      expect((await storage.forms.getById("a"))?.responseCount).toBe(2);
+
+      await storage.responses.delete("r1");
+      expect((await storage.forms.getById("a"))?.responseCount).toBe(1);
+    });
+
+    it("should delete versions and responses together with their form", async () => {
+      await storage.forms.create(makeForm("a", "2024-01-01T00:00:00.000Z"));
+      await storage.versions.create(makeVersion("v1", "a", 1));
+      await storage.responses.create({
+        ...makeResponse("r1", "a", "2024-01-02T00:00:00.000Z"),
+        formVersionId: "v1",
+      });
+
+      await storage.forms.delete("a");
+      expect(await storage.responses.getById("r1")).toBeNull();
+      expect(await storage.versions.getById("v1")).toBeNull();
+    });
+
+    it("should store versions and list them newest first", async () => {
+      await storage.forms.create(makeForm("a", "2024-01-01T00:00:00.000Z"));
+      await storage.forms.create(makeForm("b", "2024-01-01T00:00:00.000Z"));
+      await storage.versions.create(makeVersion("v1", "a", 1));
+      await storage.versions.create(makeVersion("v2", "a", 2));
+      await storage.versions.create(makeVersion("v3", "b", 1));
+
+      const versions = await storage.versions.listByForm("a");
+      expect(versions.map((v) => v.id)).toEqual(["v2", "v1"]);
+      expect(versions[0]).not.toHaveProperty("schema");
+      expect((await storage.versions.getById("v1"))?.schema).toContain(
+        '"version":1',
+      );
+
+      await storage.forms.update("a", { publishedVersionId: "v2" });
+      expect((await storage.forms.getById("a"))?.publishedVersionId).toBe("v2");
+    });
+
+    it("should filter, sort and page responses", async () => {
+      await storage.forms.create(makeForm("a", "2024-01-01T00:00:00.000Z"));
+      await storage.forms.create(makeForm("b", "2024-01-01T00:00:00.000Z"));
+      await storage.responses.create(
+        makeResponse("r1", "a", "2024-01-01T00:00:00.000Z", "alice"),
+      );
+      await storage.responses.create(
+        makeResponse("r2", "a", "2024-01-02T00:00:00.000Z", "bob"),
+      );
+      await storage.responses.create(
+        makeResponse("r3", "a", "2024-01-03T00:00:00.000Z", "Alina"),
+      );
+      await storage.responses.create(
+        makeResponse("r4", "b", "2024-01-04T00:00:00.000Z", "alice"),
+      );
+
+      const page = await storage.responses.query("a", query({ pageSize: 2 }));
+      expect(page.totalCount).toBe(3);
+      expect(page.responses.map((r) => r.id)).toEqual(["r3", "r2"]);
+
+      const filtered = await storage.responses.query(
+        "a",
+        query({
+          submittedBy: "ali",
+          fromDate: "2024-01-01T12:00:00.000Z",
+          sortDescending: false,
+        }),
+      );
+      expect(filtered.responses.map((r) => r.id)).toEqual(["r3"]);
+
+      const bySubmitter = await storage.responses.query(
+        "a",
+        query({
+          sortBy: "SubmittedBy",
+          sortDescending: false,
+          pageNumber: 2,
+          pageSize: 2,
+        }),
+      );
+      expect(bySubmitter.responses.map((r) => r.id)).toEqual(["r2"]);
+    });
+
+    it("should filter by submitter as plain text", async () => {
+      await storage.forms.create(makeForm("a", "2024-01-01T00:00:00.000Z"));
+      await storage.responses.create(
+        makeResponse("r1", "a", "2024-01-01T00:00:00.000Z", "ann_lee"),
+      );
+      await storage.responses.create(
+        makeResponse("r2", "a", "2024-01-02T00:00:00.000Z", "annalee"),
+      );
+      await storage.responses.create(
+        makeResponse("r3", "a", "2024-01-03T00:00:00.000Z", "100% ann"),
+      );
+
+      const submittedBy = async (text: string) =>
+        (
+          await storage.responses.query("a", query({ submittedBy: text }))
+        ).responses.map((r) => r.id);
+
+      expect(await submittedBy("n_l")).toEqual(["r1"]);
+      expect(await submittedBy("%")).toEqual(["r3"]);
+      expect(await submittedBy("ann")).toHaveLength(3);
+    });
+  });
+};
+
+describeStorage("memory", () => createMemoryStorage());
+
+describeStorage("json file", (dir) =>
+  createJsonFileStorage(path.join(dir, "forms.json")),
+);
+
+describeStorage(
+  "sqlite",
+  (dir) => createSqliteStorage(path.join(dir, "forms.db")),
+  hasNodeSqlite,
+);
+
+describe("json file storage persistence", () => {
+  it("should reload data written by a previous instance", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "form-storage-"));
+    const filePath = path.join(dir, "forms.json");
+    try {
+      await createJsonFileStorage(filePath).forms.create(
+        makeForm("a", "2024-01-01T00:00:00.000Z"),
+      );
+
+      const reloaded = createJsonFileStorage(filePath);
+      expect((await reloaded.forms.getById("a"))?.title).toBe("Form a");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("getStorageConfig", () => {
+  it("should default to in-memory storage", () => {
+    expect(getStorageConfig({})).toEqual({ driver: "memory", path: undefined });
+  });
+
+  it("should read the driver and path from the environment", () => {
+    expect(
+      getStorageConfig({
+        FORM_STORAGE: "SQLite",
+        FORM_STORAGE_PATH: "/tmp/x.db",
+      }),
+    ).toEqual({ driver: "sqlite", path: "/tmp/x.db" });
+  });
+
+  it("should reject unknown drivers", () => {
+    expect(() => getStorageConfig({ FORM_STORAGE: "mongo" })).toThrow(
+      /Unknown FORM_STORAGE/,
+    );
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Storage contracts for the Express API
+ *
+ * Node equivalents of IFormRepository / IFormResponseRepository. Every
+ * implementation keeps Form.responseCount in sync itself, the way the
+ * TR_UpdateFormResponseCount trigger does for SQL Server, and deleting a
+ * form removes its versions and responses (ON DELETE CASCADE).
+ */
+
+import {
+  Form,
+  FormListItem,
+  FormResponse,
+  FormResponseQuery,
+  FormVersion,
+  FormVersionListItem,
+} from "@shared/api";
+
+export type FormChanges = Partial<
+  Pick<
+    Form,
+    | "title"
+    | "description"
+    | "schema"
+    | "isPublished"
+    | "publishedVersionId"
+    | "updatedAt"
+  >
+>;
+
+export interface FormStore {
+  // Ordered by updatedAt, newest first
+  getAll(): Promise<FormListItem[]>;
+  getById(id: string): Promise<Form | null>;
+  create(form: Form): Promise<void>;
+  update(id: string, changes: FormChanges): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+}
+
+// Versions are never updated, only created
+export interface FormVersionStore {
+  create(version: FormVersion): Promise<void>;
+  getById(id: string): Promise<FormVersion | null>;
+  // Ordered by versionNumber, newest first
+  listByForm(formId: string): Promise<FormVersionListItem[]>;
+}
+
+export interface ResponsePage {
+  responses: FormResponse[];
+  totalCount: number;
+}
+
+export interface ResponseStore {
+  create(response: FormResponse): Promise<void>;
+  getById(id: string): Promise<FormResponse | null>;
+  // Filters, sorts and pages the responses of one form
+  query(formId: string, query: FormResponseQuery): Promise<ResponsePage>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface Storage {
+  forms: FormStore;
+  versions: FormVersionStore;
+  responses: ResponseStore;
+}
+
+export type StorageDriver = "memory" | "json" | "sqlite";
+
+export interface StorageConfig {
+  driver: StorageDriver;
+  // File used by the json and sqlite drivers
+  path?: string;
+}
@@ -0,0 +1,56 @@
+/**
+ * Schema builders
+ *
+ * The smallest valid fields, sections and forms for specs, with whatever a
+ * test is about passed in. Labels default to the id in capitals, e.g. "A",
+ * which is how validation messages name the field.
+ */
+
+import {
+  FieldType,
+  FormField,
+  FormItem,
+  FormSchema,
+  FormSection,
+} from "../form-schema";
+
+export const field = (
+  id: string,
+  type: FieldType = "short-text",
+  overrides: Partial<FormField> = {},
+): FormField => ({
+  id,
+  type,
+  label: id.toUpperCase(),
+  required: false,
+  showDescription: false,
+  properties: {},
+  order: 0,
+  ...overrides,
+});
+
+export const section = (
+  id: string,
+  fields: FormItem[],
+  overrides: Partial<FormSection> = {},
+): FormSection => ({
+  id,
+  title: id.toUpperCase(),
+  description: "",
+  fields,
+  order: 0,
+  ...overrides,
+});
+
+export const schema = (
+  items: FormItem[],
+  overrides: Partial<FormSchema> = {},
+): FormSchema => ({
+  id: "form",
+  title: "Form",
+  description: "",
+  items,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  ...overrides,
+});
@@ -4,9 +4,188 @@
  * and/or small pure JS functions that can be used on both client and server
  */
 
+import { ValidationError } from "./form-validation";
+
 /**
  * Example response type for /api/demo
  */
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * Forms API (/api/forms)
+ *
+ * Mirrors the models in server/FormBuilder.Api/Models/Form.cs so the Express
+ * server and the .NET API can be used interchangeably by the client.
+ * `schema` is the JSON-serialised FormSchema, dates are ISO strings.
+ * `schema` is the builder's working draft; respondents see the FormVersion
+ * referenced by `publishedVersionId` (null until the first publish).
+ */
+export interface Form {
+  id: string;
+  title: string;
+  description: string;
+  schema: string;
+  isPublished: boolean;
+  publishedVersionId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  responseCount: number;
+}
+
+export type FormListItem = Omit<Form, "schema">;
+
+// Same limits as the [StringLength] attributes on the .NET request models
+export const MAX_TITLE_LENGTH = 200;
+export const MAX_DESCRIPTION_LENGTH = 1000;
+
+export interface CreateFormRequest {
+  title: string;
+  description?: string;
+  schema: string;
+  createdBy?: string;
+}
+
+export interface UpdateFormRequest {
+  title: string;
+  description?: string;
+  schema: string;
+  isPublished: boolean;
+}
+
+export interface CloneFormRequest {
+  title: string;
+  description?: string;
+  createdBy?: string;
+}
+
+/**
+ * Immutable snapshot of a form's draft. A "draft" snapshot is recorded on
+ * every save that changes the form, a "published" one on every publish.
+ */
+export type FormVersionKind = "draft" | "published";
+
+export interface FormVersion {
+  id: string;
+  formId: string;
+  versionNumber: number;
+  kind: FormVersionKind;
+  title: string;
+  description: string;
+  schema: string;
+  createdAt: string;
+}
+
+export type FormVersionListItem = Omit<FormVersion, "schema">;
+
+/**
+ * Body returned by create/clone endpoints
+ */
+export interface CreatedResponse {
+  id: string;
+}
+
+/**
+ * Error body returned by every API endpoint on failure
+ */
+export interface ApiErrorResponse {
+  message: string;
+  error?: string;
+  // Per-field problems with a submitted response, keyed like the renderer's
+  errors?: ValidationError[];
+}
+
+/**
+ * Form Responses API (/api/formresponses)
+ *
+ * Mirrors server/FormBuilder.Api/Models/FormResponse.cs.
+ * `responseData` is the JSON-serialised map of field id -> value.
+ * `formVersionId` is the version the respondent filled in (null for
+ * responses stored before versioning).
+ */
+export interface FormResponse {
+  id: string;
+  formId: string;
+  formVersionId: string | null;
+  responseData: string;
+  submittedAt: string;
+  submittedBy: string;
+  ipAddress: string;
+  userAgent: string;
+}
+
+export interface SubmitFormRequest {
+  formId: string;
+  // Defaults to the currently published version
+  formVersionId?: string;
+  responseData: string;
+  submittedBy?: string;
+}
+
+export interface SubmitFormResponse {
+  id: string;
+  message: string;
+}
+
+// An answer checked while the form is filled in, against the field's
+// `validation.asyncCheck`
+export interface AnswerCheckRequest {
+  formId: string;
+  // Defaults to the currently published version
+  formVersionId?: string;
+  fieldId: string;
+  value: unknown;
+}
+
+export interface AnswerCheckResponse {
+  valid: boolean;
+  message?: string;
+}
+
+/**
+ * A single answer merged with its field definition for display
+ */
+export interface ResponseField {
+  fieldId: string;
+  label: string;
+  type: string;
+  value: unknown;
+  displayValue: string;
+  // For a repeatable section (type "repeat"): its fields, once per entry
+  entries?: ResponseField[][];
+}
+
+export interface FormResponseWithTemplate {
+  id: string;
+  formId: string;
+  formVersionId: string | null;
+  versionNumber: number | null;
+  formTitle: string;
+  submittedAt: string;
+  submittedBy: string;
+  fields: ResponseField[];
+}
+
+export interface PaginatedFormResponses {
+  responses: FormResponseWithTemplate[];
+  totalCount: number;
+  pageNumber: number;
+  pageSize: number;
+  totalPages: number;
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+}
+
+export type FormResponseSortBy = "SubmittedAt" | "SubmittedBy";
+
+export interface FormResponseQuery {
+  pageNumber: number;
+  pageSize: number;
+  fromDate?: string;
+  toDate?: string;
+  submittedBy?: string;
+  sortBy: FormResponseSortBy;
+  sortDescending: boolean;
+}
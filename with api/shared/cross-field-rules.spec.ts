@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { validateCrossFieldRules } from "./cross-field-rules";
+import { validateForm } from "./form-validation";
+import { CrossFieldRule, FormField } from "./form-schema";
+import { field, schema } from "./__fixtures__/builders";
+
+const form = (items: FormField[], rules: CrossFieldRule[]) =>
+  schema(items, { rules });
+
+const rule = (
+  kind: CrossFieldRule["kind"],
+  fieldIds: string[],
+  total?: number,
+): CrossFieldRule => ({ id: kind, kind, fieldIds, total });
+
+describe("validateCrossFieldRules", () => {
+  it("should flag the second field when two answers don't match", () => {
+    const schema = form([field("a"), field("b")], [rule("equal", ["a", "b"])]);
+
+    expect(
+      validateCrossFieldRules(schema, { a: "x@y.z", b: "x@y.z " }),
+    ).toEqual([]);
+    expect(validateCrossFieldRules(schema, { a: "x@y.z", b: "x@y" })).toEqual([
+      { fieldId: "b", message: "B must match A", code: "equal" },
+    ]);
+    expect(validateCrossFieldRules(schema, { a: "x@y.z" })).toEqual([]);
+  });
+
+  it("should require the second date to be later", () => {
+    const schema = form(
+      [field("start", "date-picker"), field("end", "date-picker")],
+      [rule("after", ["start", "end"])],
+    );
+
+    expect(
+      validateCrossFieldRules(schema, {
+        start: "2026-05-02",
+        end: "2026-05-01",
+      }),
+    ).toEqual([
+      { fieldId: "end", message: "END must be after START", code: "after" },
+    ]);
+    expect(
+      validateCrossFieldRules(schema, {
+        start: "2026-05-02",
+        end: "2026-05-03",
+      }),
+    ).toEqual([]);
+    expect(
+      validateCrossFieldRules(schema, { start: "soon", end: "2026-05-01" }),
+    ).toEqual([]);
+  });
+
+  it("should flag every field when none of them is answered", () => {
+    const schema = form(
+      [field("phone"), field("email")],
+      [rule("atLeastOne", ["phone", "email"])],
+    );
+
+    expect(
+      validateCrossFieldRules(schema, {}).map((error) => error.fieldId),
+    ).toEqual(["phone", "email"]);
+    expect(validateCrossFieldRules(schema, { email: "x@y.z" })).toEqual([]);
+  });
+
+  it("should add up the numbers once any is answered", () => {
+    const schema = form(
+      [field("a", "number"), field("b", "number"), field("c", "number")],
+      [rule("sumEquals", ["a", "b", "c"], 100)],
+    );
+
+    expect(validateCrossFieldRules(schema, {})).toEqual([]);
+    expect(
+      validateCrossFieldRules(schema, { a: "33.3", b: "33.3", c: "33.4" }),
+    ).toEqual([]);
+    expect(validateCrossFieldRules(schema, { a: "60", b: "30" })).toEqual(
+      ["a", "b", "c"].map((fieldId) => ({
+        fieldId,
+        message: "A, B and C must add up to 100",
+        code: "sumEquals",
+      })),
+    );
+  });
+
+  it("should leave out hidden and deleted fields", () => {
+    const schema = form(
+      [field("a"), field("b")],
+      [rule("equal", ["a", "gone"]), rule("atLeastOne", ["a", "b"])],
+    );
+
+    expect(
+      validateCrossFieldRules(schema, {}, new Set(["a"])).map(
+        (error) => error.fieldId,
+      ),
+    ).toEqual(["b"]);
+  });
+
+  it("should use the rule's own message", () => {
+    const schema = form(
+      [field("a"), field("b")],
+      [{ ...rule("equal", ["a", "b"]), message: "Emails differ" }],
+    );
+
+    expect(validateCrossFieldRules(schema, { a: "1", b: "2" })).toEqual([
+      { fieldId: "b", message: "Emails differ", code: "equal" },
+    ]);
+  });
+});
+
+describe("validateForm with cross-field rules", () => {
+  it("should not flag a field that has errors of its own", () => {
+    const schema = form(
+      [field("a", "number", { properties: { max: 5 } }), field("b", "number")],
+      [rule("sumEquals", ["a", "b"], 10)],
+    );
+
+    expect(validateForm(schema, { a: "8", b: "1" }).errors).toEqual([
+      { fieldId: "a", message: "A must be no more than 5", code: "max" },
+      { fieldId: "b", message: "A and B must add up to 10", code: "sumEquals" },
+    ]);
+  });
+});
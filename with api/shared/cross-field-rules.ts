@@ -0,0 +1,132 @@
+/**
+ * Cross-field Rules
+ *
+ * Form-level checks across the answers to several fields, kept in
+ * `schema.rules`:
+ *  - equal: the second answer must match the first, e.g. a repeated email
+ *  - after: the second date must be later than the first
+ *  - atLeastOne: one of the fields must be answered
+ *  - sumEquals: the numbers must add up to `total`, e.g. percentages to 100
+ *
+ * Fields that are hidden, deleted or answered per entry of a repeatable
+ * section are left out of a rule. Rules only compare answers that were given;
+ * whether a field must be answered is up to the field. Errors go on the
+ * fields the respondent has to change.
+ */
+
+import {
+  CrossFieldRule,
+  FormField,
+  FormSchema,
+  getAllFields,
+  isOtherAnswer,
+} from "./form-schema";
+import type { ValidationError } from "./form-validation";
+import { getRepeatableSections } from "./repeatable-sections";
+import { isEmptyValue } from "./visibility";
+
+const asText = (value: unknown): string =>
+  Array.isArray(value)
+    ? value.map(asText).sort().join("\n")
+    : String(isOtherAnswer(value) ? value.other : value).trim();
+
+const toTime = (value: unknown): number =>
+  value instanceof Date || typeof value === "string"
+    ? new Date(value).getTime()
+    : NaN;
+
+const labelOf = (field: FormField): string => field.label || "Untitled";
+
+const listLabels = (fields: FormField[]): string => {
+  const labels = fields.map(labelOf);
+  return labels.length > 1
+    ? `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}`
+    : labels.join("");
+};
+
+const defaultMessage = (
+  rule: CrossFieldRule,
+  fields: FormField[],
+  field: FormField,
+): string => {
+  switch (rule.kind) {
+    case "equal":
+      return `${labelOf(field)} must match ${labelOf(fields[0])}`;
+    case "after":
+      return `${labelOf(field)} must be after ${labelOf(fields[0])}`;
+    case "atLeastOne":
+      return `Answer at least one of ${listLabels(fields)}`;
+    case "sumEquals":
+      return `${listLabels(fields)} must add up to ${rule.total}`;
+  }
+};
+
+// The fields whose answers break the rule, none when it holds or can't be
+// checked yet
+const findOffendingFields = (
+  rule: CrossFieldRule,
+  fields: FormField[],
+  values: Record<string, any>,
+): FormField[] => {
+  const answered = fields.filter((field) => !isEmptyValue(values[field.id]));
+
+  switch (rule.kind) {
+    case "equal":
+    case "after": {
+      if (fields.length !== 2 || answered.length !== 2) return [];
+      const [first, second] = fields.map((field) => values[field.id]);
+      if (rule.kind === "equal") {
+        return asText(first) === asText(second) ? [] : [fields[1]];
+      }
+      const start = toTime(first);
+      const end = toTime(second);
+      // Answers that aren't dates are reported by the fields' own rules
+      if (isNaN(start) || isNaN(end)) return [];
+      return end > start ? [] : [fields[1]];
+    }
+    case "atLeastOne":
+      return answered.length === 0 ? fields : [];
+    case "sumEquals": {
+      if (answered.length === 0 || typeof rule.total !== "number") return [];
+      const numbers = answered.map((field) => Number(values[field.id]));
+      if (numbers.some(isNaN)) return [];
+      const sum = numbers.reduce((a, b) => a + b, 0);
+      // Allow for rounding, e.g. 33.3 + 33.3 + 33.4
+      return Math.abs(sum - rule.total) < 1e-9 ? [] : fields;
+    }
+  }
+};
+
+/**
+ * Check the form's cross-field rules, one error per offending field with the
+ * rule kind as its code.
+ */
+export const validateCrossFieldRules = (
+  schema: FormSchema,
+  values: Record<string, any>,
+  hidden: Set<string> = new Set(),
+): ValidationError[] => {
+  const repeatedFieldIds = new Set(
+    getRepeatableSections(schema).flatMap((section) =>
+      getAllFields(section.fields).map((field) => field.id),
+    ),
+  );
+  const fieldsById = new Map(
+    getAllFields(schema.items)
+      .filter(
+        (field) => !hidden.has(field.id) && !repeatedFieldIds.has(field.id),
+      )
+      .map((field) => [field.id, field]),
+  );
+
+  return (schema.rules || []).flatMap((rule) => {
+    const fields = rule.fieldIds
+      .map((id) => fieldsById.get(id))
+      .filter(Boolean);
+    return findOffendingFields(rule, fields, values).map((field) => ({
+      fieldId: field.id,
+      message: rule.message || defaultMessage(rule, fields, field),
+      code: rule.kind,
+    }));
+  });
+};
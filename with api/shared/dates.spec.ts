@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatDateAnswer,
+  formatTime,
+  getAnswerDay,
+  getAnswerTime,
+  getDateLimits,
+  getTimeSlots,
+  isDayAllowed,
+  parseDateInput,
+  parseDateTimeAnswer,
+  toDateTimeAnswer,
+} from "./dates";
+
+// A Wednesday
+const today = new Date(2026, 9, 14);
+
+describe("dates", () => {
+  it("should show and read answers in the field's format", () => {
+    expect(formatDateAnswer("2026-10-09", "DD/MM/YYYY")).toBe("09/10/2026");
+    expect(formatDateAnswer("2026-10-09", "MM/DD/YYYY")).toBe("10/09/2026");
+    expect(formatDateAnswer("2026-10-09", "YYYY/MM/DD")).toBe("2026/10/09");
+    expect(parseDateInput("9/10/2026", "DD/MM/YYYY")).toBe("2026-10-09");
+    expect(parseDateInput("2026/10/09", "YYYY/MM/DD")).toBe("2026-10-09");
+  });
+
+  it("should not read incomplete or impossible dates", () => {
+    expect(parseDateInput("09/10/26", "DD/MM/YYYY")).toBeNull();
+    expect(parseDateInput("31/02/2026", "DD/MM/YYYY")).toBeNull();
+    expect(parseDateInput("10/31/2026", "DD/MM/YYYY")).toBeNull();
+    expect(getAnswerDay("2026")).toBeNull();
+    expect(getAnswerDay("next week")).toBeNull();
+  });
+
+  it("should take the narrowest of the field's limits", () => {
+    expect(
+      getDateLimits(
+        {
+          minDate: { type: "date", date: "2026-01-01" },
+          maxDate: { type: "relative", days: 30 },
+          disallowPast: true,
+        },
+        today,
+      ),
+    ).toEqual({ min: "2026-10-14", max: "2026-11-13", weekdaysOnly: false });
+    expect(getDateLimits({ disallowFuture: true }, today)).toEqual({
+      min: undefined,
+      max: "2026-10-14",
+      weekdaysOnly: false,
+    });
+  });
+
+  it("should widen limits counted from today by the slack", () => {
+    expect(
+      getDateLimits(
+        {
+          minDate: { type: "relative", days: 2 },
+          maxDate: { type: "date", date: "2026-12-31" },
+          disallowFuture: true,
+        },
+        today,
+        1,
+      ),
+    ).toEqual({ min: "2026-10-15", max: "2026-10-15", weekdaysOnly: false });
+    expect(getDateLimits({ disallowPast: true }, today, 1).min).toBe(
+      "2026-10-13",
+    );
+    expect(
+      getDateLimits({ minDate: { type: "date", date: "2026-10-14" } }, today, 1)
+        .min,
+    ).toBe("2026-10-14");
+  });
+
+  it("should allow weekdays only when asked to", () => {
+    const limits = getDateLimits({ weekdaysOnly: true }, today);
+
+    expect(isDayAllowed("2026-10-16", limits)).toBe(true);
+    expect(isDayAllowed("2026-10-17", limits)).toBe(false);
+  });
+
+  it("should keep the respondent's day and time in date-times", () => {
+    const answer = toDateTimeAnswer("2026-10-19", "14:30");
+
+    expect(parseDateTimeAnswer(answer)).toEqual({
+      day: "2026-10-19",
+      time: "14:30",
+      offset: expect.stringMatching(/^[+-]\d{2}:\d{2}$/),
+    });
+    // Read where it's ten hours later, it's still the day that was given
+    expect(getAnswerDay("2026-10-19T23:30-10:00")).toBe("2026-10-19");
+    expect(getAnswerTime("2026-10-19T23:30-10:00")).toBe("23:30");
+    expect(getAnswerTime("09:05")).toBe("09:05");
+    expect(getAnswerTime("9:05")).toBeNull();
+  });
+
+  it("should offer times every step within the limits", () => {
+    expect(
+      getTimeSlots({ minuteStep: 30, minTime: "09:00", maxTime: "10:30" }),
+    ).toEqual(["09:00", "09:30", "10:00", "10:30"]);
+    expect(getTimeSlots({})).toHaveLength(96);
+    expect(formatTime("14:05", "12h")).toBe("2:05 PM");
+    expect(formatTime("14:05", "24h")).toBe("14:05");
+  });
+});
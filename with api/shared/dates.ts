@@ -0,0 +1,206 @@
+/**
+ * Dates
+ *
+ * Answers to date fields are stored as ISO days ("2026-10-19") and shown and
+ * typed in the field's DateFormat. Days compare as strings of that shape, so
+ * an answer doesn't move a day with the time zone it's checked in. Answers
+ * stored as full ISO timestamps by older versions are read as their local day.
+ *
+ * Times of day are stored as "HH:mm". Date-times keep the respondent's day,
+ * time and UTC offset, "2026-10-19T14:30+02:00": they read the same wherever
+ * they're shown and still give the exact moment. Date ranges are
+ * { start, end } ISO days.
+ *
+ * Relative bounds count from today where the answer is checked, in the
+ * browser while filling in and on the server when submitted. The server's
+ * today can be a day either side of the respondent's, so it allows a day of
+ * slack.
+ */
+
+import { addDays, format, isValid, isWeekend, parse, parseISO } from "date-fns";
+import type {
+  DateBound,
+  DateFormat,
+  DatePickerProperties,
+  TimeFormat,
+  TimeOptions,
+} from "./form-schema";
+
+export const DEFAULT_DATE_FORMAT: DateFormat = "MM/DD/YYYY";
+export const DEFAULT_TIME_FORMAT: TimeFormat = "12h";
+export const DEFAULT_MINUTE_STEP = 15;
+
+const ISO_DAY = "yyyy-MM-dd";
+
+// An ISO day, optionally followed by a time
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T.*)?$/;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// The day, time and UTC offset of a date-time answer
+const DATE_TIME_PATTERN =
+  /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})(?::\d{2}(?:\.\d+)?)?([+-]\d{2}:\d{2})$/;
+
+// The date-fns pattern of each DateFormat
+const DATE_FNS_PATTERNS: Record<DateFormat, string> = {
+  "MM/DD/YYYY": "MM/dd/yyyy",
+  "DD/MM/YYYY": "dd/MM/yyyy",
+  "YYYY/MM/DD": "yyyy/MM/dd",
+};
+
+export const toIsoDay = (date: Date): string => format(date, ISO_DAY);
+
+/** The answer as a local date, null when it isn't one. */
+export const parseDateAnswer = (value: unknown): Date | null => {
+  const date =
+    value instanceof Date
+      ? value
+      : typeof value === "string" && ISO_DATE_PATTERN.test(value)
+        ? parseISO(value)
+        : null;
+  return date && isValid(date) ? date : null;
+};
+
+export interface DateTimeParts {
+  day: string;
+  time: string;
+  offset: string;
+}
+
+/** The respondent's day, time and UTC offset of a date-time answer. */
+export const parseDateTimeAnswer = (value: unknown): DateTimeParts | null => {
+  const match =
+    typeof value === "string" ? DATE_TIME_PATTERN.exec(value) : null;
+  if (!match || !parseDateAnswer(value)) return null;
+  const [, day, time, offset] = match;
+  return { day, time, offset };
+};
+
+/**
+ * The ISO day of the answer, null when it isn't a date. A date-time's day is
+ * the respondent's, wherever it's read.
+ */
+export const getAnswerDay = (value: unknown): string | null => {
+  const parts = parseDateTimeAnswer(value);
+  if (parts) return parts.day;
+  const date = parseDateAnswer(value);
+  return date ? toIsoDay(date) : null;
+};
+
+/** The "HH:mm" of a time or date-time answer, null when it has none. */
+export const getAnswerTime = (value: unknown): string | null => {
+  if (typeof value === "string" && TIME_PATTERN.test(value)) return value;
+  return parseDateTimeAnswer(value)?.time ?? null;
+};
+
+/** A date-time answer at the day and time where the form is filled in. */
+export const toDateTimeAnswer = (day: string, time: string): string =>
+  format(parseISO(`${day}T${time}`), "yyyy-MM-dd'T'HH:mmxxx");
+
+/** An "HH:mm" time in the field's format, e.g. "2:30 PM" for 12h. */
+export const formatTime = (
+  time: string,
+  timeFormat: TimeFormat = DEFAULT_TIME_FORMAT,
+): string =>
+  TIME_PATTERN.test(time)
+    ? format(
+        parse(time, "HH:mm", new Date()),
+        timeFormat === "12h" ? "h:mm a" : "HH:mm",
+      )
+    : time;
+
+/** The answer in the field's format; anything that isn't a date as it is. */
+export const formatDateAnswer = (
+  value: unknown,
+  dateFormat: DateFormat = DEFAULT_DATE_FORMAT,
+): string => {
+  const date = parseDateAnswer(value);
+  if (!date) return value === undefined || value === null ? "" : String(value);
+  return format(date, DATE_FNS_PATTERNS[dateFormat]);
+};
+
+/**
+ * The ISO day of text typed in the field's format, e.g. "19/10/2026" for
+ * DD/MM/YYYY; null unless it's a real date with a four-digit year.
+ */
+export const parseDateInput = (
+  text: string,
+  dateFormat: DateFormat = DEFAULT_DATE_FORMAT,
+): string | null => {
+  const date = parse(text.trim(), DATE_FNS_PATTERNS[dateFormat], new Date());
+  // date-fns reads "26" as the year 26
+  return isValid(date) && date.getFullYear() >= 1000 ? toIsoDay(date) : null;
+};
+
+export const resolveDateBound = (
+  bound: DateBound,
+  today: Date = new Date(),
+): string | null =>
+  bound.type === "relative"
+    ? toIsoDay(addDays(today, bound.days))
+    : getAnswerDay(bound.date);
+
+export interface DateLimits {
+  min?: string;
+  max?: string;
+  weekdaysOnly: boolean;
+}
+
+/**
+ * The earliest and latest ISO days the field accepts as of today. Where the
+ * field has several, e.g. a minimum date and no dates in the past, the
+ * narrowest applies. Limits counted from today are widened by `slackDays`.
+ */
+export const getDateLimits = (
+  properties: Partial<DatePickerProperties>,
+  today: Date = new Date(),
+  slackDays = 0,
+): DateLimits => {
+  const fromToday = (days: number) => toIsoDay(addDays(today, days));
+  const resolve = (bound: DateBound | undefined, slack: number) => {
+    if (!bound) return null;
+    return bound.type === "relative"
+      ? fromToday(bound.days + slack)
+      : resolveDateBound(bound, today);
+  };
+  const mins = [
+    resolve(properties.minDate, -slackDays),
+    properties.disallowPast ? fromToday(-slackDays) : null,
+  ].filter(Boolean);
+  const maxes = [
+    resolve(properties.maxDate, slackDays),
+    properties.disallowFuture ? fromToday(slackDays) : null,
+  ].filter(Boolean);
+
+  return {
+    min: mins.sort().pop(),
+    max: maxes.sort()[0],
+    weekdaysOnly: !!properties.weekdaysOnly,
+  };
+};
+
+export const isTimeAllowed = (
+  time: string,
+  { minTime, maxTime }: Partial<TimeOptions>,
+): boolean => (!minTime || time >= minTime) && (!maxTime || time <= maxTime);
+
+/** The times a field offers, every `minuteStep` minutes within its limits. */
+export const getTimeSlots = (options: Partial<TimeOptions>): string[] => {
+  const step =
+    options.minuteStep > 0 ? options.minuteStep : DEFAULT_MINUTE_STEP;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const slots: string[] = [];
+  for (let minutes = 0; minutes < 24 * 60; minutes += step) {
+    const time = `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+    if (isTimeAllowed(time, options)) slots.push(time);
+  }
+  return slots;
+};
+
+export const isWeekday = (day: string): boolean => !isWeekend(parseISO(day));
+
+/** Whether the field's limits allow the ISO day. */
+export const isDayAllowed = (day: string, limits: DateLimits): boolean =>
+  (!limits.min || day >= limits.min) &&
+  (!limits.max || day <= limits.max) &&
+  (!limits.weekdaysOnly || isWeekday(day));
@@ -0,0 +1,307 @@
+import { CURRENT_SCHEMA_VERSION } from "./schema-migrations";
+
+export type FieldType =
+  | "short-text"
+  | "long-text"
+  | "date-picker"
+  | "time"
+  | "datetime"
+  | "date-range"
+  | "dropdown"
+  | "file-upload"
+  | "number"
+  | "calculated"
+  | "udf-designation"
+  | "udf-department"
+  | "udf-location"
+  | "udf-blood-group"
+  | "udf-education";
+
+export type DateFormat = "MM/DD/YYYY" | "DD/MM/YYYY" | "YYYY/MM/DD";
+
+export type TimeFormat = "12h" | "24h";
+
+export type SelectionType = "single" | "multi";
+
+export interface DropdownOption {
+  id: string;
+  label: string;
+  value: string;
+}
+
+// The checks an answer goes through, also the `code` of their errors.
+// See shared/form-validation.ts for which field types use which
+export type ValidationRuleKind =
+  | "required"
+  | "text"
+  | "minLength"
+  | "maxLength"
+  | "pattern"
+  | "number"
+  | "min"
+  | "max"
+  | "date"
+  | "minDate"
+  | "maxDate"
+  | "weekday"
+  | "time"
+  | "minTime"
+  | "maxTime"
+  | "dateRange"
+  | "selection"
+  | "option"
+  | "other"
+  | "file"
+  | "fileType"
+  | "fileSize"
+  | "fileCount"
+  | "custom"
+  | "async";
+
+// A field's own settings, overriding the defaults of its type
+export interface FieldValidation {
+  required?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  // Server check run while the answer is typed and again on submit, e.g.
+  // "unique". See server/services/answer-checks.ts
+  asyncCheck?: string;
+  // Replaces the built-in error message of a rule
+  messages?: Partial<Record<ValidationRuleKind, string>>;
+}
+
+export interface BaseFieldProperties {
+  placeholder?: string;
+  validation?: FieldValidation;
+}
+
+// A limit on the answer to a date field: a fixed day ("2026-01-31"), or a
+// number of days from the day the form is filled in, e.g. 30 for a month ahead
+export type DateBound =
+  | { type: "date"; date: string }
+  | { type: "relative"; days: number };
+
+// Answers are stored as ISO days and shown in `dateFormat`, see shared/dates.ts
+export interface DatePickerProperties extends BaseFieldProperties {
+  dateFormat: DateFormat;
+  minDate?: DateBound;
+  maxDate?: DateBound;
+  disallowPast?: boolean; // Today is still allowed
+  disallowFuture?: boolean;
+  weekdaysOnly?: boolean;
+}
+
+// The settings of fields that take a time of day, stored as "HH:mm"
+export interface TimeOptions {
+  timeFormat: TimeFormat;
+  minuteStep?: number; // Minutes between the times offered, 15 if not set
+  minTime?: string; // "HH:mm", both inclusive
+  maxTime?: string;
+}
+
+export interface TimeProperties extends BaseFieldProperties, TimeOptions {}
+
+// Stored with the respondent's UTC offset, see shared/dates.ts. The date
+// limits apply to the day, the time limits to the time on any day
+export interface DateTimeProperties extends DatePickerProperties, TimeOptions {}
+
+// Stored as { start, end } ISO days; the date limits apply to both
+export interface DateRangeProperties extends DatePickerProperties {}
+
+export interface DateRangeAnswer {
+  start?: string;
+  end?: string;
+}
+
+export const isDateRangeAnswer = (value: unknown): value is DateRangeAnswer =>
+  !!value &&
+  typeof value === "object" &&
+  !Array.isArray(value) &&
+  ("start" in value || "end" in value);
+
+export interface DropdownProperties extends BaseFieldProperties {
+  options: DropdownOption[];
+  selectionType: SelectionType;
+  allowOther?: boolean; // Adds an "Other" choice with a text answer
+}
+
+// Stored in place of an option value when "Other" is picked, in the list of
+// values of a multi selection, e.g. ["red", { other: "Teal" }]
+export interface OtherAnswer {
+  other: string;
+}
+
+export const isOtherAnswer = (value: unknown): value is OtherAnswer =>
+  !!value &&
+  typeof value === "object" &&
+  typeof (value as OtherAnswer).other === "string";
+
+export interface NumberProperties extends BaseFieldProperties {
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface FileUploadProperties extends BaseFieldProperties {
+  acceptedTypes?: string[];
+  maxSize?: number;
+  multiple?: boolean;
+}
+
+// Read-only value worked out from other answers, see formula.ts
+export interface CalculatedProperties extends BaseFieldProperties {
+  expression: string; // e.g. "{hours} * {rate}"
+  decimals?: number;
+}
+
+export type FieldProperties =
+  | BaseFieldProperties
+  | DatePickerProperties
+  | TimeProperties
+  | DateTimeProperties
+  | DateRangeProperties
+  | DropdownProperties
+  | NumberProperties
+  | FileUploadProperties
+  | CalculatedProperties;
+
+export type ConditionOperator =
+  | "equals"
+  | "notEquals"
+  | "in"
+  | "contains"
+  | "gt"
+  | "lt"
+  | "isEmpty"
+  | "isNotEmpty";
+
+// Compares the answer to another field; `in` takes a list of values
+export interface VisibilityCondition {
+  fieldId: string;
+  operator: ConditionOperator;
+  value?: string | string[];
+}
+
+export interface VisibilityRule {
+  combinator: "and" | "or";
+  conditions: VisibilityCondition[];
+}
+
+export interface FormField {
+  id: string;
+  type: FieldType;
+  label: string;
+  description?: string;
+  required: boolean;
+  showDescription: boolean;
+  properties: FieldProperties;
+  order: number;
+  visibleWhen?: VisibilityRule; // Always shown when absent
+}
+
+// Route target: a section id, or SUBMIT_FORM to end the form there
+export const SUBMIT_FORM = "submit";
+
+export interface SectionRoute {
+  optionValue: string;
+  goTo: string;
+}
+
+// Branching after a section on the answer to one of its dropdown fields;
+// answers without a route continue to the next section
+export interface SectionNavigation {
+  fieldId: string;
+  routes: SectionRoute[];
+}
+
+// A repeatable section is filled in once per entry, e.g. per past employer.
+// Its answers are stored under the section id as one object per entry
+export interface RepeatSettings {
+  min?: number;
+  max?: number;
+}
+
+export interface FormSection {
+  id: string;
+  title: string;
+  description?: string;
+  fields: FormItem[]; // Fields and subsections, in display order
+  order: number;
+  visibleWhen?: VisibilityRule;
+  navigation?: SectionNavigation;
+  repeat?: RepeatSettings; // Filled in once when absent
+}
+
+// New flexible form item type - can be either a field or a section
+export type FormItem = FormField | FormSection;
+
+export type CrossFieldRuleKind = "equal" | "after" | "atLeastOne" | "sumEquals";
+
+// A form-level check across the answers to several fields, e.g. an end date
+// after a start date. See shared/cross-field-rules.ts
+export interface CrossFieldRule {
+  id: string;
+  kind: CrossFieldRuleKind;
+  fieldIds: string[]; // equal and after compare the second field to the first
+  total?: number; // What sumEquals adds up to
+  message?: string; // Replaces the default message
+}
+
+// Version of the FormSchema shape, one per migration in shared/schema-migrations.ts
+export { CURRENT_SCHEMA_VERSION };
+
+export interface FormSchema {
+  id: string;
+  // Shape the document was saved in; older documents are migrated on load
+  schemaVersion?: number;
+  title: string;
+  description?: string;
+  items: FormItem[]; // Changed from sections to items
+  rules?: CrossFieldRule[]; // Checked after each field's own rules
+  closesAt?: Date; // Submissions are rejected from this moment on
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Utility functions
+export const isFormField = (item: FormItem): item is FormField => {
+  return "type" in item;
+};
+
+export const isFormSection = (item: FormItem): item is FormSection => {
+  return "fields" in item;
+};
+
+// Helper function to get all fields from form items, including those in sections at any depth
+export const getAllFields = (items: FormItem[]): FormField[] => {
+  const fields: FormField[] = [];
+
+  items.forEach((item) => {
+    if (isFormField(item)) {
+      fields.push(item);
+    } else if (isFormSection(item)) {
+      fields.push(...getAllFields(item.fields));
+    }
+  });
+
+  return fields;
+};
+
+// All sections and subsections, each one before the sections nested in it
+export const getAllSections = (items: FormItem[]): FormSection[] => {
+  const sections: FormSection[] = [];
+
+  items.forEach((item) => {
+    if (isFormSection(item)) {
+      sections.push(item, ...getAllSections(item.fields));
+    }
+  });
+
+  return sections;
+};
+
+// Whether the form has stopped accepting submissions
+export const isFormClosed = (schema: FormSchema, now = new Date()): boolean => {
+  return !!schema.closesAt && schema.closesAt.getTime() <= now.getTime();
+};
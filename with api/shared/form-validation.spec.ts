@@ -0,0 +1,230 @@
+import { describe, it, expect } from "vitest";
+import {
+  getFieldRules,
+  registerValidationDefaults,
+  validateField,
+} from "./form-validation";
+import { FieldType, FormField } from "./form-schema";
+import { field } from "./__fixtures__/builders";
+
+// Every test asks the one question, "Q"
+const question = (
+  type: FieldType,
+  properties: FormField["properties"] = {},
+  required = false,
+) => field("q", type, { properties, required });
+
+const codes = (f: FormField, value: any) =>
+  validateField(f, value).map((error) => error.code);
+
+describe("getFieldRules", () => {
+  it("should merge the field's own settings over its type's defaults", () => {
+    expect(getFieldRules(question("short-text"))).toEqual([
+      { kind: "text" },
+      { kind: "maxLength", limit: 255 },
+    ]);
+    expect(
+      getFieldRules(
+        question("short-text", { validation: { minLength: 2, maxLength: 10 } }),
+      ),
+    ).toEqual([
+      { kind: "text" },
+      { kind: "minLength", limit: 2 },
+      { kind: "maxLength", limit: 10 },
+    ]);
+  });
+
+  it("should include the checks the field type needs", () => {
+    expect(
+      getFieldRules(question("number", { min: 1, max: 5 }, true)).map(
+        (rule) => rule.kind,
+      ),
+    ).toEqual(["required", "number", "min", "max"]);
+    expect(
+      getFieldRules(
+        question("dropdown", {
+          options: [],
+          selectionType: "multi",
+          allowOther: true,
+        }),
+      ),
+    ).toEqual([
+      { kind: "selection", multiple: true },
+      { kind: "option", values: [], allowOther: true },
+      { kind: "other" },
+    ]);
+  });
+});
+
+describe("validateField", () => {
+  it("should only check required on unanswered fields", () => {
+    const number = question("number", { min: 1 }, true);
+
+    expect(validateField(number, " ")).toEqual([
+      { fieldId: "q", message: "Q is required", code: "required" },
+    ]);
+    expect(validateField({ ...number, required: false }, "")).toEqual([]);
+  });
+
+  it("should count 0 as an answer and empty lists and ranges as none", () => {
+    expect(codes(question("number", {}, true), 0)).toEqual([]);
+    expect(
+      codes(
+        question("dropdown", { options: [], selectionType: "multi" }, true),
+        [],
+      ),
+    ).toEqual(["required"]);
+    expect(
+      codes(question("date-range", { dateFormat: "DD/MM/YYYY" }, true), {}),
+    ).toEqual(["required"]);
+    expect(
+      codes(question("date-range", { dateFormat: "DD/MM/YYYY" }), {
+        start: "",
+      }),
+    ).toEqual([]);
+  });
+
+  it("should only take text for text fields", () => {
+    const code = question("short-text", {
+      validation: { maxLength: 3, pattern: "^[0-9]+$" },
+    });
+
+    expect(codes(code, "123")).toEqual([]);
+    expect(validateField(code, { x: "zzzzzzzz" })).toEqual([
+      { fieldId: "q", message: "Q must be text", code: "text" },
+    ]);
+    expect(codes(code, ["abcdef"])).toEqual(["text"]);
+  });
+
+  it("should report every failed rule by its code", () => {
+    const text = question("long-text", {
+      validation: { minLength: 5, pattern: "^[a-z]+$" },
+    });
+
+    expect(codes(text, "AB")).toEqual(["minLength", "pattern"]);
+    expect(codes(text, "a".repeat(2001))).toEqual(["maxLength"]);
+  });
+
+  it("should stop at rules the later ones depend on", () => {
+    expect(codes(question("number", { min: 1, max: 5 }), "abc")).toEqual([
+      "number",
+    ]);
+    expect(codes(question("file-upload", { maxSize: 10 }), "cv.pdf")).toEqual([
+      "file",
+    ]);
+  });
+
+  it("should skip a pattern that doesn't compile", () => {
+    const text = question("short-text", { validation: { pattern: "[a-" } });
+
+    expect(getFieldRules(text)).toEqual([
+      { kind: "text" },
+      { kind: "maxLength", limit: 255 },
+    ]);
+    expect(validateField(text, "abc")).toEqual([]);
+  });
+
+  it("should use a field's own message for a rule", () => {
+    const postcode = question("short-text", {
+      validation: {
+        pattern: "^\\d{4}$",
+        messages: { pattern: "Enter a 4 digit postcode" },
+      },
+    });
+
+    expect(validateField(postcode, "12a")).toEqual([
+      { fieldId: "q", message: "Enter a 4 digit postcode", code: "pattern" },
+    ]);
+  });
+
+  it("should check dates against the field's limits", () => {
+    const leave = question("date-picker", {
+      dateFormat: "DD/MM/YYYY",
+      minDate: { type: "date", date: "2026-10-01" },
+      maxDate: { type: "date", date: "2026-12-31" },
+      weekdaysOnly: true,
+    });
+
+    expect(codes(leave, "2026-10-14")).toEqual([]);
+    expect(validateField(leave, "2026-09-30")).toEqual([
+      {
+        fieldId: "q",
+        message: "Q must be on or after 01/10/2026",
+        code: "minDate",
+      },
+    ]);
+    expect(codes(leave, "2027-01-04")).toEqual(["maxDate"]);
+    expect(codes(leave, "2026-10-17")).toEqual(["weekday"]);
+    expect(codes(leave, "14/10/2026")).toEqual(["date"]);
+  });
+
+  it("should check times against the field's limits", () => {
+    const shift = question("datetime", {
+      dateFormat: "MM/DD/YYYY",
+      timeFormat: "12h",
+      minTime: "09:00",
+      maxTime: "17:00",
+    });
+
+    expect(codes(shift, "2026-10-14T09:30+01:00")).toEqual([]);
+    expect(validateField(shift, "2026-10-14T18:00+01:00")).toEqual([
+      {
+        fieldId: "q",
+        message: "Q must be at or before 5:00 PM",
+        code: "maxTime",
+      },
+    ]);
+    expect(codes(shift, "2026-10-14")).toEqual(["time"]);
+    expect(codes(question("time", { timeFormat: "24h" }), "25:00")).toEqual([
+      "time",
+    ]);
+  });
+
+  it("should require a date range to end on or after its start", () => {
+    const stay = question("date-range", {
+      dateFormat: "DD/MM/YYYY",
+      weekdaysOnly: true,
+    });
+
+    expect(codes(stay, { start: "2026-10-12", end: "2026-10-16" })).toEqual([]);
+    expect(codes(stay, { start: "2026-10-16", end: "2026-10-12" })).toEqual([
+      "dateRange",
+    ]);
+    expect(codes(stay, { start: "2026-10-12" })).toEqual(["dateRange"]);
+    expect(codes(stay, { start: "2026-10-12", end: "2026-10-17" })).toEqual([
+      "weekday",
+    ]);
+  });
+
+  it("should accept an other answer only with its text", () => {
+    const colour = question("dropdown", {
+      options: [{ id: "r", label: "Red", value: "red" }],
+      selectionType: "multi",
+      allowOther: true,
+    });
+
+    expect(codes(colour, ["red", { other: "Teal" }])).toEqual([]);
+    expect(codes(colour, ["red", { other: " " }])).toEqual(["other"]);
+    expect(
+      codes(
+        { ...colour, properties: { ...colour.properties, allowOther: false } },
+        [{ other: "Teal" }],
+      ),
+    ).toEqual(["option"]);
+  });
+
+  it("should apply the defaults of registered field types", () => {
+    registerValidationDefaults("rating-scale", {
+      custom: (value) => (value > 5 ? "Rating must be 5 or less" : null),
+    });
+    const rating = {
+      ...question("short-text"),
+      type: "rating-scale" as FieldType,
+    };
+
+    expect(validateField(rating, 6)).toEqual([
+      { fieldId: "q", message: "Rating must be 5 or less", code: "custom" },
+    ]);
+    expect(validateField(rating, 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,561 @@
+/**
+ * Form Validation
+ *
+ * Checks answers against a FormSchema. The renderer runs it while the form is
+ * filled in, and the server runs it again on every submitted response, so
+ * both report the same errors for the same answers.
+ *
+ * Each field is checked against a list of typed rules (see getFieldRules):
+ * the defaults of its type, merged with the field's own
+ * `properties.validation`, plus the checks its type always needs. Errors
+ * carry the rule kind as a stable `code`; their messages can be replaced per
+ * rule with `properties.validation.messages`. The form-level rules comparing
+ * several fields are in shared/cross-field-rules.ts.
+ */
+
+import {
+  BaseFieldProperties,
+  CrossFieldRuleKind,
+  DateFormat,
+  FieldValidation,
+  FormField,
+  FormSchema,
+  FormSection,
+  TimeFormat,
+  ValidationRuleKind,
+  getAllFields,
+  isDateRangeAnswer,
+  isOtherAnswer,
+} from "./form-schema";
+import { getHiddenItemIds, isEmptyValue } from "./visibility";
+import {
+  DEFAULT_DATE_FORMAT,
+  DEFAULT_TIME_FORMAT,
+  formatDateAnswer,
+  formatTime,
+  getAnswerDay,
+  getAnswerTime,
+  getDateLimits,
+  isWeekday,
+  parseDateAnswer,
+} from "./dates";
+import { validateCrossFieldRules } from "./cross-field-rules";
+import {
+  entryFieldKey,
+  getEntries,
+  getMaxEntries,
+  getMinEntries,
+  getRepeatableSections,
+  isBlankEntry,
+} from "./repeatable-sections";
+
+export type ValidationErrorCode =
+  | ValidationRuleKind
+  | CrossFieldRuleKind
+  | "minEntries"
+  | "maxEntries";
+
+export interface ValidationError {
+  fieldId: string;
+  message: string;
+  code: ValidationErrorCode;
+}
+
+export interface ValidationResult {
+  isValid: boolean;
+  errors: ValidationError[];
+}
+
+export type CustomValidator = (value: any) => string | null;
+
+export type ValidationRule = { message?: string } & (
+  | {
+      kind:
+        | "required"
+        | "text"
+        | "number"
+        | "date"
+        | "time"
+        | "dateRange"
+        | "weekday"
+        | "file"
+        | "other";
+    }
+  | {
+      kind:
+        | "minLength"
+        | "maxLength"
+        | "min"
+        | "max"
+        | "fileSize"
+        | "fileCount";
+      limit: number;
+    }
+  | { kind: "pattern"; pattern: string }
+  | { kind: "minDate" | "maxDate"; day: string; dateFormat: DateFormat }
+  | { kind: "minTime" | "maxTime"; time: string; timeFormat: TimeFormat }
+  | { kind: "selection"; multiple: boolean }
+  | { kind: "option"; values: string[]; allowOther: boolean }
+  | { kind: "fileType"; types: string[] }
+  | { kind: "custom"; validate: CustomValidator }
+);
+
+// Code can't be stored in a schema, so custom checks only come from defaults
+export interface ValidationDefaults extends FieldValidation {
+  custom?: CustomValidator;
+}
+
+// Types registered in the browser add theirs with registerValidationDefaults;
+// the server only knows the built-in ones
+const VALIDATION_DEFAULTS: Record<string, ValidationDefaults> = {
+  "short-text": { maxLength: 255 },
+  "long-text": { maxLength: 2000 },
+};
+
+export const registerValidationDefaults = (
+  type: string,
+  defaults: ValidationDefaults,
+): void => {
+  VALIDATION_DEFAULTS[type] = defaults;
+};
+
+/** The field's own validation settings over the defaults of its type. */
+export const getFieldValidation = (field: FormField): ValidationDefaults => {
+  const defaults = VALIDATION_DEFAULTS[field.type] ?? {};
+  const own = (field.properties as BaseFieldProperties).validation ?? {};
+  return {
+    ...defaults,
+    ...own,
+    messages: { ...defaults.messages, ...own.messages },
+  };
+};
+
+// Patterns are typed in the builder, one that doesn't compile isn't checked
+export const isValidPattern = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Built-in types answered with a string. Registered types can store other
+// values, e.g. a number for a rating, so their text rules skip those
+const isTextType = (type: string): boolean =>
+  type === "short-text" || type === "long-text" || type.startsWith("udf-");
+
+export interface ValidationOptions {
+  // Days either side of today that date limits counted from today also
+  // accept, see getDateLimits
+  dateSlackDays?: number;
+}
+
+/** Every rule an answer to the field must pass, in the order they're checked. */
+export const getFieldRules = (
+  field: FormField,
+  { dateSlackDays = 0 }: ValidationOptions = {},
+): ValidationRule[] => {
+  const validation = getFieldValidation(field);
+  const properties = field.properties as any;
+  const rules: ValidationRule[] = [];
+  const limit = (
+    kind: "minLength" | "maxLength" | "min" | "max" | "fileSize",
+    value: number | undefined,
+  ) => {
+    if (typeof value === "number") rules.push({ kind, limit: value });
+  };
+  const timeLimits = () => {
+    const timeFormat = properties.timeFormat || DEFAULT_TIME_FORMAT;
+    if (properties.minTime) {
+      rules.push({ kind: "minTime", time: properties.minTime, timeFormat });
+    }
+    if (properties.maxTime) {
+      rules.push({ kind: "maxTime", time: properties.maxTime, timeFormat });
+    }
+  };
+
+  if (field.required) rules.push({ kind: "required" });
+
+  switch (field.type) {
+    case "number":
+      rules.push({ kind: "number" });
+      limit("min", properties.min);
+      limit("max", properties.max);
+      break;
+
+    case "time":
+      rules.push({ kind: "time" });
+      timeLimits();
+      break;
+
+    case "date-picker":
+    case "datetime":
+    case "date-range": {
+      const dateFormat = properties.dateFormat || DEFAULT_DATE_FORMAT;
+      const limits = getDateLimits(properties, new Date(), dateSlackDays);
+      rules.push({ kind: "date" });
+      if (field.type === "datetime") rules.push({ kind: "time" });
+      if (field.type === "date-range") rules.push({ kind: "dateRange" });
+      if (limits.min) {
+        rules.push({ kind: "minDate", day: limits.min, dateFormat });
+      }
+      if (limits.max) {
+        rules.push({ kind: "maxDate", day: limits.max, dateFormat });
+      }
+      if (limits.weekdaysOnly) rules.push({ kind: "weekday" });
+      if (field.type === "datetime") timeLimits();
+      break;
+    }
+
+    case "dropdown":
+      rules.push({
+        kind: "selection",
+        multiple: properties.selectionType === "multi",
+      });
+      rules.push({
+        kind: "option",
+        values: (properties.options || []).map((option: any) => option.value),
+        allowOther: !!properties.allowOther,
+      });
+      // Picking "Other" needs the text that goes with it
+      if (properties.allowOther) rules.push({ kind: "other" });
+      break;
+
+    case "file-upload":
+      rules.push({ kind: "file" });
+      if (properties.acceptedTypes?.length) {
+        rules.push({ kind: "fileType", types: properties.acceptedTypes });
+      }
+      limit("fileSize", properties.maxSize || undefined);
+      if (!properties.multiple) rules.push({ kind: "fileCount", limit: 1 });
+      break;
+
+    case "calculated":
+      break;
+
+    // Text answers, including the udf-* types and registered ones
+    default:
+      if (isTextType(field.type)) rules.push({ kind: "text" });
+      limit("minLength", validation.minLength || undefined);
+      limit("maxLength", validation.maxLength || undefined);
+      if (validation.pattern && isValidPattern(validation.pattern)) {
+        rules.push({ kind: "pattern", pattern: validation.pattern });
+      }
+  }
+
+  if (validation.custom) {
+    rules.push({ kind: "custom", validate: validation.custom });
+  }
+
+  return rules.map((rule) =>
+    validation.messages[rule.kind]
+      ? { ...rule, message: validation.messages[rule.kind] }
+      : rule,
+  );
+};
+
+// The days of a date or date-time answer, or the ends given of a date range
+const answerDays = (value: any): unknown[] =>
+  isDateRangeAnswer(value)
+    ? [value.start, value.end].filter((day) => day !== undefined)
+    : [value];
+
+// Unanswered, including a date range with neither end picked, e.g. {} once
+// it's cleared. 0 and false are answers
+const isBlank = (field: FormField, value: any): boolean =>
+  isEmptyValue(value) ||
+  (field.type === "date-range" &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    isEmptyValue(value.start) &&
+    isEmptyValue(value.end));
+
+// Whether a non-blank answer passes the rule. Length and pattern rules only
+// apply to text, the text, number and file rules check what the others rely
+// on
+const passes = (rule: ValidationRule, value: any): boolean => {
+  switch (rule.kind) {
+    case "text":
+      return typeof value === "string";
+    case "minLength":
+      return typeof value !== "string" || value.length >= rule.limit;
+    case "maxLength":
+      return typeof value !== "string" || value.length <= rule.limit;
+    case "pattern":
+      return typeof value !== "string" || new RegExp(rule.pattern).test(value);
+    case "number":
+      return !isNaN(Number(value));
+    case "min":
+      return Number(value) >= rule.limit;
+    case "max":
+      return Number(value) <= rule.limit;
+    case "date":
+      return answerDays(value).every((day) => parseDateAnswer(day) !== null);
+    case "time":
+      return getAnswerTime(value) !== null;
+    case "dateRange":
+      return (
+        isDateRangeAnswer(value) &&
+        !!value.start &&
+        !!value.end &&
+        getAnswerDay(value.end) >= getAnswerDay(value.start)
+      );
+    case "minDate":
+      return answerDays(value).every((day) => getAnswerDay(day) >= rule.day);
+    case "maxDate":
+      return answerDays(value).every((day) => getAnswerDay(day) <= rule.day);
+    case "weekday":
+      return answerDays(value).every((day) => isWeekday(getAnswerDay(day)));
+    case "minTime":
+      return getAnswerTime(value) >= rule.time;
+    case "maxTime":
+      return getAnswerTime(value) <= rule.time;
+    case "selection":
+      return Array.isArray(value) === rule.multiple;
+    case "option":
+      return (Array.isArray(value) ? value : [value]).every((option) =>
+        isOtherAnswer(option) ? rule.allowOther : rule.values.includes(option),
+      );
+    case "other":
+      return (Array.isArray(value) ? value : [value]).every(
+        (option) => !isOtherAnswer(option) || option.other.trim() !== "",
+      );
+    case "file":
+      return toFileList(value) !== null;
+    case "fileType": {
+      const accepted = rule.types.map((type) => type.toLowerCase());
+      return toFileList(value).every((file) =>
+        accepted.includes(getExtension(file.name)),
+      );
+    }
+    case "fileSize":
+      return toFileList(value).every((file) => file.size <= rule.limit);
+    case "fileCount":
+      return toFileList(value).length <= rule.limit;
+    default:
+      return true;
+  }
+};
+
+/** The message for a failed rule when the field doesn't set its own. */
+export const getDefaultMessage = (
+  rule: ValidationRule,
+  label: string,
+): string => {
+  switch (rule.kind) {
+    case "required":
+      return `${label} is required`;
+    case "text":
+      return `${label} must be text`;
+    case "minLength":
+      return `${label} must be at least ${rule.limit} characters`;
+    case "maxLength":
+      return `${label} must be no more than ${rule.limit} characters`;
+    case "pattern":
+      return `${label} format is invalid`;
+    case "number":
+      return `${label} must be a valid number`;
+    case "min":
+      return `${label} must be at least ${rule.limit}`;
+    case "max":
+      return `${label} must be no more than ${rule.limit}`;
+    case "date":
+      return `${label} must be a valid date`;
+    case "minDate":
+      return `${label} must be on or after ${formatDateAnswer(rule.day, rule.dateFormat)}`;
+    case "maxDate":
+      return `${label} must be on or before ${formatDateAnswer(rule.day, rule.dateFormat)}`;
+    case "weekday":
+      return `${label} must be a weekday`;
+    case "time":
+      return `${label} must be a valid time`;
+    case "dateRange":
+      return `${label} needs a start date and an end date on or after it`;
+    case "minTime":
+      return `${label} must be at or after ${formatTime(rule.time, rule.timeFormat)}`;
+    case "maxTime":
+      return `${label} must be at or before ${formatTime(rule.time, rule.timeFormat)}`;
+    case "selection":
+      return rule.multiple
+        ? `${label} requires array for multiple selection`
+        : `${label} allows only single selection`;
+    case "option":
+      return `${label} must be one of the listed options`;
+    case "other":
+      return `Please specify your other answer to ${label}`;
+    case "file":
+      return `${label} must be an uploaded file`;
+    case "fileType":
+      return `${label} accepts only ${rule.types.join(", ")} files`;
+    case "fileSize":
+      return `${label} file size must be less than ${formatFileSize(rule.limit)}`;
+    case "fileCount":
+      return `${label} allows only single file upload`;
+    default:
+      return `${label} is invalid`;
+  }
+};
+
+// Rules the later ones can't be checked without
+const PREREQUISITE_RULES: ValidationRuleKind[] = [
+  "text",
+  "number",
+  "date",
+  "time",
+  "file",
+];
+
+export const validateField = (
+  field: FormField,
+  value: any,
+  options: ValidationOptions = {},
+): ValidationError[] => {
+  const rules = getFieldRules(field, options);
+  const toError = (
+    rule: ValidationRule,
+    message?: string,
+  ): ValidationError => ({
+    fieldId: field.id,
+    message: rule.message || message || getDefaultMessage(rule, field.label),
+    code: rule.kind,
+  });
+
+  // Only `required` applies to an unanswered field
+  if (isBlank(field, value)) {
+    const required = rules.find((rule) => rule.kind === "required");
+    return required ? [toError(required)] : [];
+  }
+
+  const errors: ValidationError[] = [];
+  for (const rule of rules) {
+    if (rule.kind === "custom") {
+      const message = rule.validate(value);
+      if (message) errors.push(toError(rule, message));
+    } else if (!passes(rule, value)) {
+      errors.push(toError(rule));
+      if (PREREQUISITE_RULES.includes(rule.kind)) break;
+    }
+  }
+  return errors;
+};
+
+const countEntries = (count: number) =>
+  `${count} ${count === 1 ? "entry" : "entries"}`;
+
+/**
+ * Validates the entries of a repeatable section. Errors about the number of
+ * entries use the section id, errors in an entry its entryFieldKey. Entries
+ * left blank aren't validated and don't count.
+ */
+export const validateEntries = (
+  section: FormSection,
+  values: Record<string, any>,
+  hidden: Set<string> = new Set(),
+  options: ValidationOptions = {},
+): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const entries = getEntries(values, section);
+  const answered = entries.filter((entry) => !isBlankEntry(entry)).length;
+
+  if (answered < getMinEntries(section)) {
+    errors.push({
+      fieldId: section.id,
+      code: "minEntries",
+      message: `${section.title} needs at least ${countEntries(getMinEntries(section))}`,
+    });
+  }
+  if (answered > getMaxEntries(section)) {
+    errors.push({
+      fieldId: section.id,
+      code: "maxEntries",
+      message: `${section.title} allows at most ${countEntries(getMaxEntries(section))}`,
+    });
+  }
+
+  entries.forEach((entry, index) => {
+    if (isBlankEntry(entry)) return;
+    getAllFields(section.fields)
+      .filter((field) => !hidden.has(field.id))
+      .forEach((field) => {
+        validateField(field, entry[field.id], options).forEach((error) =>
+          errors.push({
+            ...error,
+            fieldId: entryFieldKey(section.id, index, field.id),
+          }),
+        );
+      });
+  });
+
+  return errors;
+};
+
+export const validateForm = (
+  schema: FormSchema,
+  values: Record<string, any>,
+  options: ValidationOptions = {},
+): ValidationResult => {
+  const errors: ValidationError[] = [];
+
+  // Legacy shapes are migrated on load (see shared/schema-migrations.ts); fields
+  // hidden by their visibility rules aren't answered
+  const hidden = getHiddenItemIds(schema, values);
+  const repeatable = getRepeatableSections(schema);
+  const repeatedFieldIds = new Set(
+    repeatable.flatMap((section) =>
+      getAllFields(section.fields).map((field) => field.id),
+    ),
+  );
+  const allFields = getAllFields(schema.items).filter(
+    (field) => !hidden.has(field.id) && !repeatedFieldIds.has(field.id),
+  );
+  for (const field of allFields) {
+    const fieldErrors = validateField(field, values[field.id], options);
+    errors.push(...fieldErrors);
+  }
+  // Fields of repeatable sections are answered once per entry
+  for (const section of repeatable.filter((s) => !hidden.has(s.id))) {
+    errors.push(...validateEntries(section, values, hidden, options));
+  }
+  // A field with errors of its own isn't flagged by the form's rules as well
+  const invalid = new Set(errors.map((error) => error.fieldId));
+  errors.push(
+    ...validateCrossFieldRules(schema, values, hidden).filter(
+      (error) => !invalid.has(error.fieldId),
+    ),
+  );
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+};
+
+// A File in the browser, or its { name, size, type } once submitted
+interface FileInfo {
+  name: string;
+  size: number;
+}
+
+const isFileInfo = (value: any): value is FileInfo =>
+  !!value && typeof value.name === "string" && typeof value.size === "number";
+
+// FileList only exists in the browser
+const toFileList = (value: any): FileInfo[] | null => {
+  if (typeof FileList !== "undefined" && value instanceof FileList) {
+    return Array.from(value);
+  }
+  const files = Array.isArray(value) ? value : [value];
+  return files.every(isFileInfo) ? files : null;
+};
+
+const getExtension = (fileName: string): string =>
+  "." + fileName.split(".").pop()?.toLowerCase();
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return "0 Bytes";
+  const k = 1024;
+  const sizes = ["Bytes", "KB", "MB", "GB"];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i];
+};
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildFormulaGraph,
+  computeCalculatedValues,
+  evaluateFormula,
+  getFormulaDependencies,
+  parseFormula,
+} from "./formula";
+import { field, schema, section } from "./__fixtures__/builders";
+
+const number = (id: string) => field(id, "number");
+
+const calculated = (id: string, expression: string) =>
+  field(id, "calculated", { properties: { expression, decimals: 2 } });
+
+describe("evaluateFormula", () => {
+  it("should follow operator precedence and parentheses", () => {
+    expect(evaluateFormula("2 + 3 * 4", {})).toBe(14);
+    expect(evaluateFormula("(2 + 3) * 4", {})).toBe(20);
+    expect(evaluateFormula("-2 * -3 - 10 % 4", {})).toBe(4);
+    expect(evaluateFormula("10 / 4", {})).toBe(2.5);
+  });
+
+  it("should read numbers from answers", () => {
+    const values = { hours: "7.5", rate: 20, tags: ["1", "2", "x"] };
+
+    expect(evaluateFormula("{hours} * {rate}", values)).toBe(150);
+    expect(evaluateFormula("{tags} + {missing}", values)).toBe(3);
+  });
+
+  it("should support the formula functions", () => {
+    const values = { a: "4", b: "", c: ["2", "6"] };
+
+    expect(evaluateFormula("sum({a}, {b}, {c})", values)).toBe(12);
+    expect(evaluateFormula("avg({a}, {b}, {c})", values)).toBe(4);
+    expect(evaluateFormula("max({a}, {c}) - min({a}, {c})", values)).toBe(4);
+    expect(evaluateFormula("count({a}, {b}, {c})", values)).toBe(3);
+    expect(evaluateFormula("round(2 / 3, 2)", values)).toBe(0.67);
+  });
+
+  it("should have no value for invalid formulas or results", () => {
+    expect(evaluateFormula("1 / 0", {})).toBeUndefined();
+    expect(evaluateFormula("avg({a})", {})).toBeUndefined();
+    expect(evaluateFormula("1 +", {})).toBeUndefined();
+  });
+
+  it("should round to the given decimals", () => {
+    expect(evaluateFormula("0.1 + 0.2", {}, 2)).toBe(0.3);
+  });
+});
+
+describe("parseFormula", () => {
+  it("should reject anything but arithmetic", () => {
+    expect(() => parseFormula("alert(1)")).toThrow('Unknown function "alert"');
+    expect(() => parseFormula("{a} ; {b}")).toThrow('Unexpected ";"');
+    expect(() => parseFormula("constructor.constructor('x')()")).toThrow();
+    expect(() => parseFormula("(1 + 2")).toThrow('Expected ")"');
+    expect(() => parseFormula("  ")).toThrow("Formula is empty");
+  });
+
+  it("should only know its own functions", () => {
+    expect(() => parseFormula("constructor(1)")).toThrow(
+      'Unknown function "constructor"',
+    );
+    expect(() => parseFormula("{a} + constructor({a})")).toThrow(
+      'Unknown function "constructor"',
+    );
+    expect(() => parseFormula("__proto__(1)")).toThrow(
+      'Unknown function "__proto__"',
+    );
+  });
+
+  it("should list the referenced fields", () => {
+    expect(getFormulaDependencies("{a} * sum({b}, {a})")).toEqual(["a", "b"]);
+    expect(getFormulaDependencies("{a} *")).toEqual([]);
+  });
+});
+
+describe("buildFormulaGraph", () => {
+  it("should order formulas after the formulas they read", () => {
+    const graph = buildFormulaGraph(
+      schema([
+        calculated("total", "{subtotal} + {tax}"),
+        calculated("tax", "{subtotal} * 0.1"),
+        calculated("subtotal", "{hours} * {rate}"),
+        number("hours"),
+        number("rate"),
+      ]),
+    );
+
+    expect(graph.order).toEqual(["subtotal", "tax", "total"]);
+    expect(graph.errors).toEqual({});
+  });
+
+  it("should report cycles, unknown fields and syntax errors", () => {
+    const graph = buildFormulaGraph(
+      schema([
+        calculated("a", "{b} + 1"),
+        calculated("b", "{a} * 2"),
+        calculated("self", "{self}"),
+        calculated("lost", "{deleted}"),
+        calculated("broken", "1 +"),
+        calculated("fine", "{lost} + 1"),
+      ]),
+    );
+
+    expect(graph.errors).toEqual({
+      a: "Circular reference: A → B → A",
+      b: "Circular reference: A → B → A",
+      self: "Circular reference: SELF → SELF",
+      lost: "Unknown field {deleted}",
+      broken: "Formula ends unexpectedly",
+    });
+  });
+});
+
+describe("computeCalculatedValues", () => {
+  const form = schema([
+    number("hours"),
+    number("rate"),
+    number("bonus"),
+    calculated("pay", "{hours} * {rate}"),
+    calculated("total", "{pay} + {bonus}"),
+    calculated("extra", "{bonus} * 2"),
+  ]);
+
+  it("should fill in every formula", () => {
+    expect(
+      computeCalculatedValues(form, { hours: "8", rate: "10", bonus: "5" }),
+    ).toEqual({
+      hours: "8",
+      rate: "10",
+      bonus: "5",
+      pay: 80,
+      total: 85,
+      extra: 10,
+    });
+  });
+
+  it("should only recompute formulas that depend on the change", () => {
+    // extra is stale on purpose: it doesn't read hours, so it's left alone
+    const values = { hours: "9", rate: "10", pay: 80, total: 80, extra: 99 };
+
+    expect(computeCalculatedValues(form, values, "hours")).toEqual({
+      ...values,
+      pay: 90,
+      total: 90,
+    });
+  });
+
+  it("should leave formulas without answers or with errors empty", () => {
+    const broken = schema([
+      number("a"),
+      calculated("b", "{a} + 1"),
+      calculated("c", "{c}"),
+    ]);
+
+    expect(computeCalculatedValues(broken, { b: 5, c: 1 })).toEqual({});
+  });
+
+  it("should total every entry of a repeatable section", () => {
+    const form = schema([
+      section("employers", [number("years")], { repeat: { min: 1 } }),
+      calculated("total", "sum({years})"),
+    ]);
+    const values = { employers: [{ years: "3" }, { years: "4" }] };
+
+    expect(computeCalculatedValues(form, values).total).toBe(7);
+  });
+});
@@ -0,0 +1,439 @@
+/**
+ * Formula
+ *
+ * Parses and evaluates the expressions of calculated fields, e.g.
+ * `{hours} * {rate}` or `sum({q1}, {q2}, {q3})`. Expressions are parsed into
+ * a small syntax tree and evaluated by walking it, never with `eval`, so a
+ * formula can only do arithmetic on answers.
+ *
+ * Supported: numbers, `{fieldId}` references, + - * / %, parentheses and the
+ * functions in FORMULA_FUNCTIONS. A reference reads every number in the
+ * answer (a multi-select gives one per option); in arithmetic they are added
+ * up and an unanswered field counts as 0. A field of a repeatable section
+ * reads its answers in every entry, so `sum({amount})` totals all entries.
+ */
+
+import {
+  CalculatedProperties,
+  FormField,
+  FormSchema,
+  getAllFields,
+} from "./form-schema";
+import { flattenEntries, getRepeatableSections } from "./repeatable-sections";
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+type FormulaNode =
+  | { kind: "number"; value: number }
+  | { kind: "ref"; fieldId: string }
+  | { kind: "negate"; operand: FormulaNode }
+  | { kind: "binary"; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+type Token =
+  | { kind: "number"; value: number }
+  | { kind: "ref"; fieldId: string }
+  | { kind: "name"; name: string }
+  | { kind: "symbol"; symbol: string };
+
+const SYMBOLS = "+-*/%(),";
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (SYMBOLS.includes(char)) {
+      tokens.push({ kind: "symbol", symbol: char });
+      i++;
+    } else if (char === "{") {
+      const end = expression.indexOf("}", i);
+      if (end < 0) throw new FormulaError("Missing } after field reference");
+      const fieldId = expression.slice(i + 1, end).trim();
+      if (!fieldId) throw new FormulaError("Empty field reference {}");
+      tokens.push({ kind: "ref", fieldId });
+      i = end + 1;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^[0-9]*\.?[0-9]+(e[+-]?[0-9]+)?/i.exec(
+        expression.slice(i),
+      );
+      if (!match) throw new FormulaError(`Invalid number at "${char}"`);
+      tokens.push({ kind: "number", value: Number(match[0]) });
+      i += match[0].length;
+    } else if (/[a-z_]/i.test(char)) {
+      const name = /^[a-z_][a-z0-9_]*/i.exec(expression.slice(i))[0];
+      tokens.push({ kind: "name", name: name.toLowerCase() });
+      i += name.length;
+    } else {
+      throw new FormulaError(`Unexpected "${char}"`);
+    }
+  }
+
+  return tokens;
+};
+
+const flatten = (lists: number[][]): number[] => lists.flat();
+
+const total = (numbers: number[]): number =>
+  numbers.reduce((sum, number) => sum + number, 0);
+
+/** Functions a formula may call; each takes any number of arguments. */
+export const FORMULA_FUNCTIONS: Record<string, (args: number[][]) => number> = {
+  sum: (args) => total(flatten(args)),
+  avg: (args) => {
+    const numbers = flatten(args);
+    return numbers.length ? total(numbers) / numbers.length : NaN;
+  },
+  min: (args) => {
+    const numbers = flatten(args);
+    return numbers.length ? Math.min(...numbers) : NaN;
+  },
+  max: (args) => {
+    const numbers = flatten(args);
+    return numbers.length ? Math.max(...numbers) : NaN;
+  },
+  count: (args) => flatten(args).length,
+  abs: ([value = []]) => Math.abs(total(value)),
+  round: ([value = [], digits = []]) => {
+    const factor = 10 ** total(digits);
+    return Math.round(total(value) * factor) / factor;
+  },
+};
+
+// Only the table's own names, not e.g. "constructor" from Object.prototype
+const getFormulaFunction = (name: string) =>
+  Object.prototype.hasOwnProperty.call(FORMULA_FUNCTIONS, name)
+    ? FORMULA_FUNCTIONS[name]
+    : undefined;
+
+// Recursive descent, lowest precedence first:
+// expression = term (("+" | "-") term)*
+// term       = unary (("*" | "/" | "%") unary)*
+// unary      = "-" unary | primary
+// primary    = number | ref | name "(" arguments ")" | "(" expression ")"
+const parse = (tokens: Token[]): FormulaNode => {
+  let position = 0;
+
+  const peekSymbol = (...symbols: string[]) => {
+    const token = tokens[position];
+    return token?.kind === "symbol" && symbols.includes(token.symbol)
+      ? token.symbol
+      : null;
+  };
+
+  const expect = (symbol: string) => {
+    if (!peekSymbol(symbol)) throw new FormulaError(`Expected "${symbol}"`);
+    position++;
+  };
+
+  const binary = (
+    operand: () => FormulaNode,
+    ...operators: string[]
+  ): FormulaNode => {
+    let node = operand();
+    let operator: string | null;
+    while ((operator = peekSymbol(...operators))) {
+      position++;
+      node = { kind: "binary", operator, left: node, right: operand() };
+    }
+    return node;
+  };
+
+  const expression = (): FormulaNode =>
+    binary(() => binary(unary, "*", "/", "%"), "+", "-");
+
+  const unary = (): FormulaNode => {
+    if (peekSymbol("-")) {
+      position++;
+      return { kind: "negate", operand: unary() };
+    }
+    if (peekSymbol("+")) {
+      position++;
+      return unary();
+    }
+    return primary();
+  };
+
+  const primary = (): FormulaNode => {
+    const token = tokens[position];
+    if (!token) throw new FormulaError("Formula ends unexpectedly");
+    position++;
+
+    switch (token.kind) {
+      case "number":
+        return { kind: "number", value: token.value };
+      case "ref":
+        return { kind: "ref", fieldId: token.fieldId };
+      case "name": {
+        if (!getFormulaFunction(token.name)) {
+          throw new FormulaError(`Unknown function "${token.name}"`);
+        }
+        expect("(");
+        const args: FormulaNode[] = [];
+        if (!peekSymbol(")")) {
+          args.push(expression());
+          while (peekSymbol(",")) {
+            position++;
+            args.push(expression());
+          }
+        }
+        expect(")");
+        return { kind: "call", name: token.name, args };
+      }
+      default:
+        if (token.symbol === "(") {
+          const node = expression();
+          expect(")");
+          return node;
+        }
+        throw new FormulaError(`Unexpected "${token.symbol}"`);
+    }
+  };
+
+  const node = expression();
+  if (position < tokens.length) {
+    throw new FormulaError("Unexpected text after the formula");
+  }
+  return node;
+};
+
+/** Parses an expression, throwing a FormulaError when it isn't valid. */
+export const parseFormula = (expression: string): FormulaNode => {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) throw new FormulaError("Formula is empty");
+  return parse(tokens);
+};
+
+const collectReferences = (node: FormulaNode, refs: Set<string>) => {
+  switch (node.kind) {
+    case "ref":
+      refs.add(node.fieldId);
+      break;
+    case "negate":
+      collectReferences(node.operand, refs);
+      break;
+    case "binary":
+      collectReferences(node.left, refs);
+      collectReferences(node.right, refs);
+      break;
+    case "call":
+      node.args.forEach((arg) => collectReferences(arg, refs));
+      break;
+  }
+};
+
+/** Field ids the expression reads; none when it doesn't parse. */
+export const getFormulaDependencies = (expression: string): string[] => {
+  try {
+    const refs = new Set<string>();
+    collectReferences(parseFormula(expression), refs);
+    return [...refs];
+  } catch {
+    return [];
+  }
+};
+
+// Numbers in an answer: a numeric string or number, or each of a list's items
+const toNumbers = (value: unknown): number[] =>
+  (Array.isArray(value) ? value : [value])
+    .filter((item) => item !== null && item !== undefined && item !== "")
+    .map(Number)
+    .filter((number) => !isNaN(number));
+
+const evaluate = (node: FormulaNode, values: Record<string, any>): number[] => {
+  switch (node.kind) {
+    case "number":
+      return [node.value];
+    case "ref":
+      return toNumbers(values[node.fieldId]);
+    case "negate":
+      return [-total(evaluate(node.operand, values))];
+    case "call":
+      return [
+        getFormulaFunction(node.name)(
+          node.args.map((arg) => evaluate(arg, values)),
+        ),
+      ];
+    case "binary": {
+      const left = total(evaluate(node.left, values));
+      const right = total(evaluate(node.right, values));
+      switch (node.operator) {
+        case "+":
+          return [left + right];
+        case "-":
+          return [left - right];
+        case "*":
+          return [left * right];
+        case "/":
+          return [left / right];
+        default:
+          return [left % right];
+      }
+    }
+  }
+};
+
+/**
+ * The expression's value for these answers, or undefined when it can't be
+ * worked out (invalid formula, or a result like a division by zero).
+ */
+export const evaluateFormula = (
+  expression: string,
+  values: Record<string, any>,
+  decimals?: number,
+): number | undefined => {
+  let result: number;
+  try {
+    result = total(evaluate(parseFormula(expression), values));
+  } catch {
+    return undefined;
+  }
+  if (!isFinite(result)) return undefined;
+  return decimals === undefined ? result : Number(result.toFixed(decimals));
+};
+
+export interface FormulaGraph {
+  // Calculated field ids, each after the calculated fields it reads
+  order: string[];
+  // Field id to the calculated fields that read it directly
+  dependents: Map<string, string[]>;
+  // Calculated field id to why it can't be computed
+  errors: Record<string, string>;
+}
+
+const isCalculated = (field: FormField) => field.type === "calculated";
+
+const expressionOf = (field: FormField) =>
+  (field.properties as CalculatedProperties).expression || "";
+
+/**
+ * Parses every calculated field of the form, orders them so each comes after
+ * the formulas it reads, and reports invalid formulas, references to fields
+ * that don't exist and formulas that depend on themselves.
+ */
+export const buildFormulaGraph = (schema: FormSchema): FormulaGraph => {
+  const fields = getAllFields(schema.items);
+  const fieldIds = new Set(fields.map((field) => field.id));
+  const formulas = fields.filter(isCalculated);
+  const labelOf = (id: string) =>
+    fields.find((field) => field.id === id)?.label || id;
+
+  const errors: Record<string, string> = {};
+  const references = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>();
+
+  // A formula has one value per form, not one per entry
+  getRepeatableSections(schema).forEach((section) => {
+    getAllFields(section.fields)
+      .filter(isCalculated)
+      .forEach((field) => {
+        errors[field.id] = "Calculated fields can't be in a repeatable section";
+      });
+  });
+
+  formulas.forEach((field) => {
+    try {
+      const refs = new Set<string>();
+      collectReferences(parseFormula(expressionOf(field)), refs);
+      const missing = [...refs].find((id) => !fieldIds.has(id));
+      if (missing && !errors[field.id]) {
+        errors[field.id] = `Unknown field {${missing}}`;
+      }
+      references.set(field.id, [...refs]);
+      refs.forEach((id) =>
+        dependents.set(id, [...(dependents.get(id) || []), field.id]),
+      );
+    } catch (error) {
+      errors[field.id] =
+        error instanceof FormulaError ? error.message : "Invalid formula";
+      references.set(field.id, []);
+    }
+  });
+
+  // Depth-first topological sort; meeting a field that is still being
+  // visited means the path back to it is a cycle
+  const order: string[] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const visit = (id: string, path: string[]) => {
+    if (state.get(id) === "done" || !references.has(id)) return;
+    if (state.get(id) === "visiting") {
+      const cycle = path.slice(path.indexOf(id));
+      const description = [...cycle, id].map(labelOf).join(" → ");
+      cycle.forEach((member) => {
+        errors[member] = `Circular reference: ${description}`;
+      });
+      return;
+    }
+    state.set(id, "visiting");
+    references.get(id).forEach((ref) => visit(ref, [...path, id]));
+    state.set(id, "done");
+    order.push(id);
+  };
+  formulas.forEach((field) => visit(field.id, []));
+
+  return { order, dependents, errors };
+};
+
+/**
+ * Answers with the calculated fields filled in. With `changedFieldId` only
+ * the formulas that depend on that field, directly or through other
+ * formulas, are recomputed. Formulas with errors have no value, nor do those
+ * whose referenced fields are all unanswered.
+ */
+export const computeCalculatedValues = (
+  schema: FormSchema,
+  values: Record<string, any>,
+  changedFieldId?: string,
+  graph: FormulaGraph = buildFormulaGraph(schema),
+): Record<string, any> => {
+  let affected: Set<string> | null = null;
+  if (changedFieldId !== undefined) {
+    affected = new Set();
+    const queue = [...(graph.dependents.get(changedFieldId) || [])];
+    while (queue.length) {
+      const id = queue.shift();
+      if (affected.has(id)) continue;
+      affected.add(id);
+      queue.push(...(graph.dependents.get(id) || []));
+    }
+    if (affected.size === 0) return values;
+  }
+
+  const fields = new Map(
+    getAllFields(schema.items).map((field) => [field.id, field]),
+  );
+  const result = { ...values };
+  // Formulas read repeated fields across entries, and earlier formulas
+  const answers = flattenEntries(schema, values);
+
+  graph.order.forEach((id) => {
+    if (affected && !affected.has(id)) return;
+    const field = fields.get(id);
+    const properties = field.properties as CalculatedProperties;
+    const refs = getFormulaDependencies(properties.expression);
+    const answered =
+      refs.length === 0 || refs.some((ref) => toNumbers(answers[ref]).length);
+
+    const value =
+      graph.errors[id] || !answered
+        ? undefined
+        : evaluateFormula(properties.expression, answers, properties.decimals);
+    if (value === undefined) {
+      delete result[id];
+    } else {
+      result[id] = value;
+    }
+    answers[id] = value;
+  });
+
+  return result;
+};
@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  entryFieldKey,
+  flattenEntries,
+  getEntryCount,
+  removeBlankEntries,
+} from "./repeatable-sections";
+import { validateForm } from "./form-validation";
+import { getHiddenItemIds } from "./visibility";
+import { RepeatSettings } from "./form-schema";
+import { field, schema, section } from "./__fixtures__/builders";
+
+const employers = (repeat: RepeatSettings = { min: 1, max: 2 }) =>
+  section(
+    "employers",
+    [field("name", "short-text", { required: true }), field("years", "number")],
+    { title: "Employers", repeat },
+  );
+
+describe("flattenEntries", () => {
+  it("should list a repeated field's answers across entries", () => {
+    const values = {
+      employers: [{ name: "Acme", years: "3" }, { name: "" }, { years: "2" }],
+    };
+
+    expect(flattenEntries(schema([employers()]), values)).toEqual({
+      ...values,
+      name: ["Acme"],
+      years: ["3", "2"],
+    });
+  });
+});
+
+describe("nested sections", () => {
+  it("should keep subsection answers in the entry and ignore inner repeats", () => {
+    const form = schema([
+      {
+        ...employers(),
+        fields: [
+          field("name"),
+          section(
+            "contact",
+            [field("phone", "short-text", { required: true })],
+            { order: 1, repeat: { min: 2 } },
+          ),
+        ],
+      },
+    ]);
+    const values = { employers: [{ name: "Acme" }, { phone: "555" }] };
+
+    expect(flattenEntries(form, values).phone).toEqual(["555"]);
+    expect(validateForm(form, values).errors).toEqual([
+      {
+        fieldId: entryFieldKey("employers", 0, "phone"),
+        message: "PHONE is required",
+        code: "required",
+      },
+    ]);
+  });
+});
+
+describe("getEntryCount", () => {
+  it("should show at least one entry, or the minimum", () => {
+    expect(getEntryCount({}, employers({}))).toBe(1);
+    expect(getEntryCount({}, employers({ min: 3 }))).toBe(3);
+    expect(getEntryCount({ employers: [{}, {}] }, employers({}))).toBe(2);
+  });
+});
+
+describe("removeBlankEntries", () => {
+  it("should drop entries without any answer", () => {
+    const values = { employers: [{ name: " " }, { name: "Acme" }, {}] };
+
+    expect(removeBlankEntries(schema([employers()]), values)).toEqual({
+      employers: [{ name: "Acme" }],
+    });
+  });
+});
+
+describe("validating entries", () => {
+  it("should check the number of answered entries", () => {
+    const form = schema([employers()]);
+    const tooMany = {
+      employers: [{ name: "a" }, { name: "b" }, { name: "c" }],
+    };
+
+    expect(validateForm(form, { employers: [{}] }).errors).toEqual([
+      {
+        fieldId: "employers",
+        message: "Employers needs at least 1 entry",
+        code: "minEntries",
+      },
+    ]);
+    expect(validateForm(form, tooMany).errors).toEqual([
+      {
+        fieldId: "employers",
+        message: "Employers allows at most 2 entries",
+        code: "maxEntries",
+      },
+    ]);
+  });
+
+  it("should validate each entry's answers", () => {
+    const form = schema([employers()]);
+    const values = { employers: [{ name: "Acme" }, { years: "2" }] };
+
+    expect(validateForm(form, values).errors).toEqual([
+      {
+        fieldId: entryFieldKey("employers", 1, "name"),
+        message: "NAME is required",
+        code: "required",
+      },
+    ]);
+  });
+
+  it("should skip hidden repeatable sections", () => {
+    const form = schema([
+      field("employed", "dropdown", {
+        properties: {
+          options: [
+            { id: "yes", label: "Yes", value: "yes" },
+            { id: "no", label: "No", value: "no" },
+          ],
+          selectionType: "single",
+        },
+      }),
+      {
+        ...employers(),
+        visibleWhen: {
+          combinator: "and",
+          conditions: [
+            { fieldId: "employed", operator: "equals", value: "yes" },
+          ],
+        },
+      },
+    ]);
+
+    expect(validateForm(form, { employed: "no" }).isValid).toBe(true);
+    expect(validateForm(form, { employed: "yes" }).isValid).toBe(false);
+  });
+});
+
+describe("reading repeated fields", () => {
+  it("should match visibility rules against any entry", () => {
+    const form = schema([
+      employers(),
+      field("reference", "short-text", {
+        visibleWhen: {
+          combinator: "and",
+          conditions: [{ fieldId: "name", operator: "in", value: ["Acme"] }],
+        },
+      }),
+    ]);
+
+    expect(
+      getHiddenItemIds(form, { employers: [{ name: "Initech" }] }),
+    ).toEqual(new Set(["reference"]));
+    expect(
+      getHiddenItemIds(form, {
+        employers: [{ name: "Initech" }, { name: "acme" }],
+      }).size,
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Repeatable Sections
+ *
+ * A section with `repeat` settings is answered once per entry. Its answers
+ * are stored under the section id as an array with one object per entry,
+ * keyed by field id:
+ *
+ *   { "employers": [{ "name": "Acme", "years": "3" }, { "name": "Initech" }] }
+ *
+ * Subsections of a repeatable section are part of each entry, so their answers
+ * sit in the same entry object; a `repeat` nested inside one is ignored.
+ *
+ * Visibility rules, branching and formulas that read a field of a repeatable
+ * section see the list of its answers across all entries.
+ */
+
+import {
+  FormItem,
+  FormSchema,
+  FormSection,
+  getAllFields,
+  isFormSection,
+} from "./form-schema";
+import { isEmptyValue } from "./visibility";
+
+export type RepeatEntry = Record<string, any>;
+
+export const isRepeatable = (section: FormSection): boolean => !!section.repeat;
+
+export const getMinEntries = (section: FormSection): number =>
+  Math.max(0, section.repeat?.min ?? 0);
+
+export const getMaxEntries = (section: FormSection): number =>
+  section.repeat?.max ?? Infinity;
+
+export const getEntries = (
+  values: Record<string, any>,
+  section: FormSection,
+): RepeatEntry[] => {
+  const entries = values[section.id];
+  return Array.isArray(entries) ? entries : [];
+};
+
+/**
+ * Entries to show the respondent: the stored ones, padded to the minimum and
+ * to one so there's always somewhere to start answering.
+ */
+export const getEntryCount = (
+  values: Record<string, any>,
+  section: FormSection,
+): number =>
+  Math.max(getEntries(values, section).length, getMinEntries(section), 1);
+
+export const isBlankEntry = (entry: RepeatEntry | undefined): boolean =>
+  !entry || Object.values(entry).every(isEmptyValue);
+
+/** Repeatable sections at any depth, except those inside another one. */
+export const getRepeatableSections = (schema: FormSchema): FormSection[] => {
+  const sections: FormSection[] = [];
+  const visit = (items: FormItem[]) =>
+    items.forEach((item) => {
+      if (!isFormSection(item)) return;
+      if (isRepeatable(item)) sections.push(item);
+      else visit(item.fields);
+    });
+  visit(schema.items);
+  return sections;
+};
+
+// Key for an answer in one entry, used for its validation errors
+export const entryFieldKey = (
+  sectionId: string,
+  index: number,
+  fieldId: string,
+): string => `${sectionId}.${index}.${fieldId}`;
+
+/**
+ * Answers with each field of a repeatable section also listed under its own
+ * id: the non-empty answers of every entry, multi-select answers flattened.
+ */
+export const flattenEntries = (
+  schema: FormSchema,
+  values: Record<string, any>,
+): Record<string, any> => {
+  const repeatable = getRepeatableSections(schema);
+  if (repeatable.length === 0) return values;
+
+  const flattened = { ...values };
+  repeatable.forEach((section) => {
+    const entries = getEntries(values, section);
+    getAllFields(section.fields).forEach((field) => {
+      flattened[field.id] = entries
+        .map((entry) => entry?.[field.id])
+        .filter((value) => !isEmptyValue(value))
+        .flat();
+    });
+  });
+  return flattened;
+};
+
+/** Answers without the entries of repeatable sections that were left blank. */
+export const removeBlankEntries = (
+  schema: FormSchema,
+  values: Record<string, any>,
+): Record<string, any> => {
+  const result = { ...values };
+  getRepeatableSections(schema).forEach((section) => {
+    if (section.id in values) {
+      result[section.id] = getEntries(values, section).filter(
+        (entry) => !isBlankEntry(entry),
+      );
+    }
+  });
+  return result;
+};
@@ -0,0 +1,74 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, it, expect } from "vitest";
+import {
+  CURRENT_SCHEMA_VERSION,
+  SCHEMA_MIGRATIONS,
+  SchemaVersionError,
+  migrateFormSchema,
+} from "./schema-migrations";
+import { formSchemaSchema } from "./schemas";
+
+// Stored documents, one before/after pair per migration version
+const fixture = (name: string) =>
+  JSON.parse(
+    readFileSync(
+      path.join(__dirname, "__fixtures__", "schema-migrations", `${name}.json`),
+      "utf8",
+    ),
+  );
+
+describe("schema migrations", () => {
+  it("should be numbered one after another up to the current version", () => {
+    expect(SCHEMA_MIGRATIONS.map((migration) => migration.version)).toEqual(
+      Array.from({ length: CURRENT_SCHEMA_VERSION }, (_, i) => i + 1),
+    );
+  });
+
+  describe.each(SCHEMA_MIGRATIONS)("version $version", (migration) => {
+    it("should turn the fixture into the expected document", () => {
+      const before = fixture(`${migration.version}-before`);
+      const snapshot = JSON.stringify(before);
+
+      expect(migration.migrate(before)).toEqual(
+        fixture(`${migration.version}-after`),
+      );
+      expect(JSON.stringify(before)).toBe(snapshot);
+    });
+
+    it("should leave its own output alone", () => {
+      const after = fixture(`${migration.version}-after`);
+      expect(migration.migrate(after)).toEqual(after);
+    });
+  });
+});
+
+describe("migrateFormSchema", () => {
+  it("should upgrade the API seed data to the current shape", () => {
+    const schema = migrateFormSchema(fixture("seed-form"));
+
+    expect(schema.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect("sections" in schema).toBe(false);
+    expect(schema.items.map((item) => item.id)).toEqual([
+      "section-1",
+      "section-2",
+    ]);
+    expect(formSchemaSchema.safeParse(schema).success).toBe(true);
+  });
+
+  it("should only run the migrations after the document's version", () => {
+    const current = { ...fixture("2-after"), schemaVersion: 2 };
+    expect(migrateFormSchema(current)).toBe(current);
+
+    expect(migrateFormSchema(fixture("1-before"))).toEqual({
+      ...fixture("1-after"),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+    });
+  });
+
+  it("should refuse documents from a newer version", () => {
+    expect(() =>
+      migrateFormSchema({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 }),
+    ).toThrow(SchemaVersionError);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Schema Migrations
+ *
+ * Stored FormSchema documents carry the `schemaVersion` they were saved with.
+ * Older documents are upgraded on load by running the migrations after their
+ * version in order; documents without a version count as version 0.
+ *
+ * Migrations work on plain JSON and must not change once released: add a new
+ * migration, with its own fixtures, rather than editing an old one.
+ */
+
+export class SchemaVersionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaVersionError";
+  }
+}
+
+type SchemaDocument = Record<string, any>;
+
+export interface SchemaMigration {
+  // Version the document is at after this migration
+  version: number;
+  description: string;
+  migrate: (schema: SchemaDocument) => SchemaDocument;
+}
+
+// Field types of the legacy API seed data
+const LEGACY_FIELD_TYPES: Record<string, string> = {
+  text: "short-text",
+  email: "short-text",
+  phone: "short-text",
+  tel: "short-text",
+  url: "short-text",
+  textarea: "long-text",
+  select: "dropdown",
+  radio: "dropdown",
+  checkbox: "dropdown",
+  date: "date-picker",
+  file: "file-upload",
+};
+
+const EMAIL_PATTERN = "^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$";
+
+// Option ids are derived from the field so migrating twice gives the same ids
+const toOption = (fieldId: string) => (option: any, index: number) => {
+  const id = `${fieldId}-option-${index + 1}`;
+  if (typeof option !== "object" || option === null) {
+    return { id, label: String(option), value: String(option) };
+  }
+  return {
+    ...option,
+    id: option.id ?? id,
+    label: String(option.label ?? option.value ?? ""),
+    value: String(option.value ?? option.label ?? ""),
+  };
+};
+
+const migrateLegacyField = (field: SchemaDocument, index: number) => {
+  const { placeholder, options, ...rest } = field;
+  const type = LEGACY_FIELD_TYPES[field.type] ?? field.type;
+  const properties: SchemaDocument = { ...field.properties };
+
+  if (placeholder !== undefined && properties.placeholder === undefined) {
+    properties.placeholder = placeholder;
+  }
+  if (type === "dropdown") {
+    // A lone checkbox was a yes/no question
+    const list =
+      properties.options ??
+      options ??
+      (field.type === "checkbox" ? ["Yes", "No"] : []);
+    properties.options = Array.isArray(list)
+      ? list.map(toOption(field.id))
+      : list;
+    if (!properties.selectionType) {
+      properties.selectionType =
+        field.type === "checkbox" && options ? "multi" : "single";
+    }
+  }
+  if (type === "date-picker" && !properties.dateFormat) {
+    properties.dateFormat = "MM/DD/YYYY";
+  }
+  if (field.type === "email") {
+    properties.validation = {
+      ...properties.validation,
+      pattern: EMAIL_PATTERN,
+    };
+  }
+
+  return {
+    ...rest,
+    type,
+    label: field.label ?? "",
+    required: !!field.required,
+    showDescription: field.showDescription ?? false,
+    properties,
+    order: field.order ?? index,
+  };
+};
+
+// Anything malformed is passed through untouched, for validation to report
+const migrateLegacyItems = (items: unknown): unknown =>
+  Array.isArray(items)
+    ? items.map((item, index) => {
+        if (typeof item !== "object" || item === null) return item;
+        return Array.isArray(item.fields)
+          ? { ...item, fields: migrateLegacyItems(item.fields) }
+          : migrateLegacyField(item, index);
+      })
+    : items;
+
+/** Ordered by version; each one upgrades from the version before it. */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 1,
+    description: "Move the legacy `sections` list into `items`",
+    migrate: ({ sections, ...schema }) => ({
+      ...schema,
+      items:
+        schema.items ??
+        (Array.isArray(sections) ? sections : []).map(
+          (section: SchemaDocument, index: number) =>
+            typeof section === "object" && section !== null
+              ? {
+                  ...section,
+                  title: section.title ?? "",
+                  fields: section.fields ?? [],
+                  order: section.order ?? index,
+                }
+              : section,
+        ),
+    }),
+  },
+  {
+    version: 2,
+    description:
+      "Convert seed data field types, top level placeholders and string options",
+    migrate: (schema) => ({
+      ...schema,
+      items: migrateLegacyItems(schema.items ?? []),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION =
+  SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = (schema: SchemaDocument): number =>
+  typeof schema.schemaVersion === "number" ? schema.schemaVersion : 0;
+
+/** Upgrades a stored schema document to CURRENT_SCHEMA_VERSION. */
+export const migrateFormSchema = (schema: SchemaDocument): SchemaDocument => {
+  const version = getSchemaVersion(schema);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(
+      `This form was saved by a newer version of the builder (schema version ${version})`,
+    );
+  }
+
+  return SCHEMA_MIGRATIONS.filter(
+    (migration) => migration.version > version,
+  ).reduce(
+    (document, migration) => ({
+      ...migration.migrate(document),
+      schemaVersion: migration.version,
+    }),
+    schema,
+  );
+};
@@ -0,0 +1,163 @@
+import { describe, it, expect } from "vitest";
+import {
+  SchemaValidationError,
+  assertValidDocument,
+  describeSchemaIssues,
+  formConfigSchema,
+  formSchemaSchema,
+} from "./schemas";
+
+const field = (id: string, type: string, properties: object = {}) => ({
+  id,
+  type,
+  label: id,
+  required: false,
+  showDescription: false,
+  properties,
+  order: 0,
+});
+
+const form = (items: unknown[]) => ({
+  id: "form",
+  schemaVersion: 2,
+  title: "Form",
+  items,
+  createdAt: "2024-03-01T10:00:00.000Z",
+  updatedAt: "2024-03-01T10:00:00.000Z",
+});
+
+const issuesOf = (document: unknown) => {
+  const result = formSchemaSchema.safeParse(document);
+  return result.success ? [] : describeSchemaIssues(result.error);
+};
+
+describe("formSchemaSchema", () => {
+  it("should accept sections, subsections and extension field types", () => {
+    const document = form([
+      field("name", "short-text"),
+      {
+        id: "details",
+        title: "Details",
+        fields: [
+          field("born", "date-picker", { dateFormat: "DD/MM/YYYY" }),
+          { id: "inner", title: "Inner", fields: [], order: 1 },
+        ],
+        order: 1,
+        repeat: { min: 1 },
+      },
+      field("stars", "rating-scale", { minValue: 1, maxValue: 5 }),
+    ]);
+
+    expect(issuesOf(document)).toEqual([]);
+    expect(formSchemaSchema.parse(document).items[2]).toEqual(
+      document.items[2],
+    );
+  });
+
+  it("should check the time settings of time and date-time fields", () => {
+    expect(
+      issuesOf(
+        form([
+          field("start", "time", { timeFormat: "24h", minTime: "9:00" }),
+          field("due", "datetime", { dateFormat: "MM/DD/YYYY" }),
+          field("stay", "date-range", {
+            dateFormat: "DD/MM/YYYY",
+            minDate: { type: "relative", days: 1 },
+          }),
+        ]),
+      ),
+    ).toEqual([
+      "items[0].properties.minTime: Expected HH:mm",
+      "items[1].properties.timeFormat: Required",
+    ]);
+  });
+
+  it("should check the properties matching the field type", () => {
+    expect(
+      issuesOf(
+        form([
+          field("role", "dropdown", { options: [], selectionType: "many" }),
+          field("size", "number", { min: "1" }),
+        ]),
+      ),
+    ).toEqual([
+      "items[0].properties.selectionType: Invalid enum value. Expected 'single' | 'multi', received 'many'",
+      "items[1].properties.min: Expected number, received string",
+    ]);
+  });
+
+  it("should point at problems nested in sections", () => {
+    expect(
+      issuesOf(
+        form([
+          {
+            id: "s",
+            title: "S",
+            order: 0,
+            fields: [
+              {
+                id: "t",
+                title: "T",
+                order: 0,
+                fields: [field("", "calculated", {})],
+              },
+            ],
+          },
+        ]),
+      ),
+    ).toEqual([
+      "items[0].fields[0].fields[0].id: String must contain at least 1 character(s)",
+      "items[0].fields[0].fields[0].properties.expression: Required",
+    ]);
+  });
+
+  it("should reject documents that aren't form schemas", () => {
+    expect(issuesOf({ ...form([]), items: "none", updatedAt: "soon" })).toEqual(
+      ["items: Expected array, received string", "updatedAt: Invalid date"],
+    );
+    expect(issuesOf([])).toEqual(["Expected object, received array"]);
+  });
+});
+
+describe("formConfigSchema", () => {
+  const config = {
+    version: "1.0.0",
+    fields: [
+      {
+        type: "short-text",
+        label: "Short Text",
+        icon: "📝",
+        category: "input",
+        component: { component: "Input", propMapping: { value: "value" } },
+      },
+    ],
+  };
+
+  it("should accept a field configuration", () => {
+    expect(() =>
+      assertValidDocument(formConfigSchema, config, "Invalid configuration"),
+    ).not.toThrow();
+  });
+
+  it("should list every problem with its path", () => {
+    const broken = {
+      ...config,
+      fields: [
+        {
+          ...config.fields[0],
+          category: "other",
+          component: { component: "Input" },
+        },
+      ],
+    };
+
+    expect(() =>
+      assertValidDocument(formConfigSchema, broken, "Invalid configuration"),
+    ).toThrow(SchemaValidationError);
+    expect(() =>
+      assertValidDocument(formConfigSchema, broken, "Invalid configuration"),
+    ).toThrow(
+      "Invalid configuration: fields[0].category: Invalid enum value. Expected 'input' | 'udf' | 'special', received 'other'; fields[0].component.propMapping: Required",
+    );
+  });
+});
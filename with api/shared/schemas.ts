@@ -0,0 +1,343 @@
+/**
+ * Form Document Schemas
+ *
+ * Runtime checks for the JSON documents the client and server exchange: the
+ * FormSchema stored with each form and version, and the field configuration
+ * the client loads into ConfigService. The TypeScript types are in
+ * shared/form-schema.ts and client/lib/config-service.ts; these schemas
+ * mirror them for JSON that hasn't been checked yet.
+ *
+ * Objects keep keys they don't know, so a document isn't stripped of data a
+ * newer builder added.
+ */
+
+import { z } from "zod";
+
+const conditionOperatorSchema = z.enum([
+  "equals",
+  "notEquals",
+  "in",
+  "contains",
+  "gt",
+  "lt",
+  "isEmpty",
+  "isNotEmpty",
+]);
+
+const visibilityRuleSchema = z
+  .object({
+    combinator: z.enum(["and", "or"]),
+    conditions: z.array(
+      z
+        .object({
+          fieldId: z.string().min(1),
+          operator: conditionOperatorSchema,
+          value: z.union([z.string(), z.array(z.string())]).optional(),
+        })
+        .passthrough(),
+    ),
+  })
+  .passthrough();
+
+const basePropertiesSchema = z
+  .object({
+    placeholder: z.string().optional(),
+    validation: z
+      .object({
+        required: z.boolean().optional(),
+        minLength: z.number().optional(),
+        maxLength: z.number().optional(),
+        pattern: z.string().optional(),
+        asyncCheck: z.string().optional(),
+        messages: z.record(z.string()).optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+const fieldBaseSchema = z
+  .object({
+    id: z.string().min(1),
+    label: z.string(),
+    description: z.string().optional(),
+    required: z.boolean(),
+    showDescription: z.boolean(),
+    order: z.number(),
+    visibleWhen: visibilityRuleSchema.optional(),
+  })
+  .passthrough();
+
+const dateBoundSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("date"), date: z.string().date() }),
+  z.object({ type: z.literal("relative"), days: z.number().int() }),
+]);
+
+const datePropertiesSchema = basePropertiesSchema.extend({
+  dateFormat: z.enum(["MM/DD/YYYY", "DD/MM/YYYY", "YYYY/MM/DD"]),
+  minDate: dateBoundSchema.optional(),
+  maxDate: dateBoundSchema.optional(),
+  disallowPast: z.boolean().optional(),
+  disallowFuture: z.boolean().optional(),
+  weekdaysOnly: z.boolean().optional(),
+});
+
+const timeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Expected HH:mm");
+
+// The fields of TimeOptions
+const timeOptionsShape = {
+  timeFormat: z.enum(["12h", "24h"]),
+  minuteStep: z.number().int().min(1).max(60).optional(),
+  minTime: timeSchema.optional(),
+  maxTime: timeSchema.optional(),
+};
+
+const fieldOf = <T extends [string, ...string[]]>(
+  types: T,
+  properties: z.AnyZodObject,
+) => fieldBaseSchema.extend({ type: z.enum(types), properties });
+
+// One member per *Properties interface, keyed on the field types that use it
+export const formFieldSchema = z.discriminatedUnion("type", [
+  fieldOf(
+    [
+      "short-text",
+      "long-text",
+      "udf-designation",
+      "udf-department",
+      "udf-location",
+      "udf-blood-group",
+      "udf-education",
+    ],
+    basePropertiesSchema,
+  ),
+  fieldOf(["date-picker", "date-range"], datePropertiesSchema),
+  fieldOf(["time"], basePropertiesSchema.extend(timeOptionsShape)),
+  fieldOf(["datetime"], datePropertiesSchema.extend(timeOptionsShape)),
+  fieldOf(
+    ["dropdown"],
+    basePropertiesSchema.extend({
+      options: z.array(
+        z
+          .object({ id: z.string(), label: z.string(), value: z.string() })
+          .passthrough(),
+      ),
+      selectionType: z.enum(["single", "multi"]),
+      allowOther: z.boolean().optional(),
+    }),
+  ),
+  fieldOf(
+    ["number"],
+    basePropertiesSchema.extend({
+      min: z.number().optional(),
+      max: z.number().optional(),
+      step: z.number().optional(),
+    }),
+  ),
+  fieldOf(
+    ["file-upload"],
+    basePropertiesSchema.extend({
+      acceptedTypes: z.array(z.string()).optional(),
+      maxSize: z.number().optional(),
+      multiple: z.boolean().optional(),
+    }),
+  ),
+  fieldOf(
+    ["calculated"],
+    basePropertiesSchema.extend({
+      expression: z.string(),
+      decimals: z.number().int().min(0).optional(),
+    }),
+  ),
+]);
+
+export const formSectionSchema: z.ZodTypeAny = z.lazy(() =>
+  z
+    .object({
+      id: z.string().min(1),
+      title: z.string(),
+      description: z.string().optional(),
+      fields: z.array(formItemSchema),
+      order: z.number(),
+      visibleWhen: visibilityRuleSchema.optional(),
+      navigation: z
+        .object({
+          fieldId: z.string().min(1),
+          routes: z.array(
+            z
+              .object({ optionValue: z.string(), goTo: z.string() })
+              .passthrough(),
+          ),
+        })
+        .passthrough()
+        .optional(),
+      repeat: z
+        .object({
+          min: z.number().int().min(0).optional(),
+          max: z.number().int().min(1).optional(),
+        })
+        .passthrough()
+        .optional(),
+    })
+    .passthrough(),
+);
+
+// Types added with registerFieldType or the field configuration only get
+// the checks every field shares
+const extensionFieldSchema = fieldBaseSchema.extend({
+  type: z.string().min(1),
+  properties: basePropertiesSchema,
+});
+
+// Sections are told apart from fields by their `fields` list, as in
+// isFormSection. Checking the item against just one schema keeps the errors
+// about that one, instead of a union error listing every alternative.
+const itemSchemaFor = (item: any): z.ZodTypeAny => {
+  if (item && typeof item === "object" && "fields" in item) {
+    return formSectionSchema;
+  }
+  const isExtension =
+    typeof item?.type === "string" &&
+    !formFieldSchema.optionsMap.has(item.type);
+  return isExtension ? extensionFieldSchema : formFieldSchema;
+};
+
+export const formItemSchema: z.ZodTypeAny = z
+  .unknown()
+  .superRefine((item, ctx) => {
+    const result = itemSchemaFor(item).safeParse(item);
+    if (!result.success) {
+      result.error.issues.forEach((issue) =>
+        ctx.addIssue(issue as z.IssueData),
+      );
+    }
+  });
+
+const dateSchema = z.union([
+  z.date(),
+  z.string().refine((value) => !isNaN(Date.parse(value)), "Invalid date"),
+]);
+
+const crossFieldRuleSchema = z
+  .object({
+    id: z.string().min(1),
+    kind: z.enum(["equal", "after", "atLeastOne", "sumEquals"]),
+    fieldIds: z.array(z.string()),
+    total: z.number().optional(),
+    message: z.string().optional(),
+  })
+  .passthrough();
+
+// The form's id and title are stored with the form too, and documents
+// written by the API seed data only have them there
+export const formSchemaSchema = z
+  .object({
+    id: z.string().optional(),
+    schemaVersion: z.number().int().min(1).optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    items: z.array(formItemSchema),
+    rules: z.array(crossFieldRuleSchema).optional(),
+    closesAt: dateSchema.optional(),
+    createdAt: dateSchema.optional(),
+    updatedAt: dateSchema.optional(),
+  })
+  .passthrough();
+
+const fieldDefinitionSchema = z
+  .object({
+    type: z.string().min(1),
+    label: z.string().min(1),
+    icon: z.string(),
+    category: z.enum(["input", "udf", "special"]),
+    description: z.string().optional(),
+    component: z
+      .object({
+        component: z.string().min(1),
+        propMapping: z.record(z.string()),
+        defaultProps: z.record(z.any()).optional(),
+        wrapperProps: z.record(z.any()).optional(),
+      })
+      .passthrough(),
+    validation: z
+      .object({
+        required: z.boolean().optional(),
+        minLength: z.number().optional(),
+        maxLength: z.number().optional(),
+        pattern: z.string().optional(),
+        custom: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    defaultProperties: z.record(z.any()).optional(),
+  })
+  .passthrough();
+
+export const formConfigSchema = z
+  .object({
+    version: z.string().min(1),
+    fields: z.array(fieldDefinitionSchema),
+    theme: z
+      .object({
+        primaryColor: z.string().optional(),
+        secondaryColor: z.string().optional(),
+        fontFamily: z.string().optional(),
+      })
+      .passthrough()
+      .optional(),
+    metadata: z
+      .object({
+        name: z.string(),
+        description: z.string(),
+        lastUpdated: z.string(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+
+// e.g. ["items", 0, "fields", 2, "type"] -> "items[0].fields[2].type"
+const formatPath = (path: (string | number)[]): string =>
+  path
+    .map((key, i) =>
+      typeof key === "number" ? `[${key}]` : i === 0 ? key : `.${key}`,
+    )
+    .join("");
+
+/** One "path: message" line per problem, e.g. "items[0].label: Required". */
+export const describeSchemaIssues = (error: z.ZodError): string[] =>
+  error.issues.map((issue) =>
+    issue.path.length > 0
+      ? `${formatPath(issue.path)}: ${issue.message}`
+      : issue.message,
+  );
+
+export class SchemaValidationError extends Error {
+  constructor(
+    message: string,
+    public issues: string[],
+  ) {
+    super(`${message}: ${issues.join("; ")}`);
+    this.name = "SchemaValidationError";
+  }
+}
+
+/**
+ * Check an untrusted document against one of the schemas above, throwing a
+ * SchemaValidationError that lists every problem with its path.
+ */
+export const assertValidDocument = (
+  schema: z.ZodTypeAny,
+  document: unknown,
+  message: string,
+): void => {
+  const result = schema.safeParse(document);
+  if (!result.success) {
+    throw new SchemaValidationError(
+      message,
+      describeSchemaIssues(result.error),
+    );
+  }
+};
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { getRouteTarget, getSectionPath } from "./section-flow";
+import { getHiddenItemIds } from "./visibility";
+import { validateForm } from "./form-validation";
+import {
+  FormField,
+  FormSchema,
+  FormSection,
+  SUBMIT_FORM,
+  SectionNavigation,
+} from "./form-schema";
+
+const field = (id: string, required = false): FormField => ({
+  id,
+  type: "dropdown",
+  label: id,
+  required,
+  showDescription: false,
+  properties: {
+    options: ["yes", "no", "quit"].map((value) => ({
+      id: value,
+      label: value,
+      value,
+    })),
+    selectionType: "single",
+  },
+  order: 0,
+});
+
+const section = (
+  id: string,
+  fields: FormField[],
+  navigation?: SectionNavigation,
+): FormSection => ({ id, title: id, fields, order: 0, navigation });
+
+const schema = (sections: FormSection[]): FormSchema => ({
+  id: "form",
+  title: "Form",
+  items: sections,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+});
+
+// start --(yes)--> details --> end, start --(no)--> end, start --(quit)--> submit
+const survey = (required = false) =>
+  schema([
+    section("start", [field("attended")], {
+      fieldId: "attended",
+      routes: [
+        { optionValue: "no", goTo: "end" },
+        { optionValue: "quit", goTo: SUBMIT_FORM },
+      ],
+    }),
+    section("details", [field("rating", required)]),
+    section("end", [field("comments")]),
+  ]);
+
+describe("getRouteTarget", () => {
+  it("should return the routed target or null", () => {
+    const [start] = survey().items as FormSection[];
+
+    expect(getRouteTarget(start, { attended: "no" })).toBe("end");
+    expect(getRouteTarget(start, { attended: "yes" })).toBeNull();
+    expect(getRouteTarget(start, {})).toBeNull();
+  });
+
+  it("should match multi-select answers", () => {
+    const [start] = survey().items as FormSection[];
+    expect(getRouteTarget(start, { attended: ["maybe", "quit"] })).toBe(
+      SUBMIT_FORM,
+    );
+  });
+});
+
+describe("getSectionPath", () => {
+  it("should follow routes and fall through to the next section", () => {
+    expect(getSectionPath(survey(), {})).toEqual(["start", "details", "end"]);
+    expect(getSectionPath(survey(), { attended: "no" })).toEqual([
+      "start",
+      "end",
+    ]);
+    expect(getSectionPath(survey(), { attended: "quit" })).toEqual(["start"]);
+  });
+
+  it("should stop instead of looping on a route back", () => {
+    const form = schema([
+      section("a", [field("q")]),
+      section("b", [field("r")], {
+        fieldId: "r",
+        routes: [{ optionValue: "again", goTo: "a" }],
+      }),
+    ]);
+
+    expect(getSectionPath(form, { r: "again" })).toEqual(["a", "b"]);
+  });
+
+  it("should continue past routes to deleted or hidden sections", () => {
+    const form = survey();
+    const [start] = form.items as FormSection[];
+    start.navigation.routes[0].goTo = "deleted";
+
+    expect(getSectionPath(form, { attended: "no" })).toEqual([
+      "start",
+      "details",
+      "end",
+    ]);
+    expect(getSectionPath(survey(), {}, new Set(["details"]))).toEqual([
+      "start",
+      "end",
+    ]);
+  });
+});
+
+describe("skipped sections", () => {
+  it("should be hidden along with their fields", () => {
+    expect([...getHiddenItemIds(survey(), { attended: "no" })].sort()).toEqual([
+      "details",
+      "rating",
+    ]);
+  });
+
+  it("should not be validated", () => {
+    expect(validateForm(survey(true), { attended: "no" }).isValid).toBe(true);
+    expect(validateForm(survey(true), { attended: "yes" }).isValid).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Section Flow
+ *
+ * Follows section navigation rules to find the sections a respondent passes
+ * through. Routes may only skip ahead; a route back to a section already on
+ * the path ends it, so a misconfigured form can't loop.
+ */
+
+import {
+  FormSchema,
+  FormSection,
+  SUBMIT_FORM,
+  getAllFields,
+  isFormSection,
+} from "./form-schema";
+
+/**
+ * Where the respondent goes after a section: the routed target for its
+ * navigation answer, or null to continue with the next section.
+ */
+export const getRouteTarget = (
+  section: FormSection,
+  values: Record<string, any>,
+): string | null => {
+  const navigation = section.navigation;
+  if (!navigation) return null;
+
+  const answer = values[navigation.fieldId];
+  const selected = Array.isArray(answer) ? answer : [answer];
+  const route = navigation.routes.find((r) => selected.includes(r.optionValue));
+  return route?.goTo || null;
+};
+
+/**
+ * Ids of the sections on the respondent's path, in order. Only top level
+ * sections are steps; their subsections come along. Sections in `hidden`, or
+ * without any shown field, are passed over.
+ */
+export const getSectionPath = (
+  schema: FormSchema,
+  values: Record<string, any>,
+  hidden: Set<string> = new Set(),
+): string[] => {
+  const sections = schema.items.filter(
+    (item): item is FormSection =>
+      isFormSection(item) &&
+      !hidden.has(item.id) &&
+      getAllFields(item.fields).some((field) => !hidden.has(field.id)),
+  );
+
+  const path: string[] = [];
+  let index = 0;
+  while (index < sections.length) {
+    const section = sections[index];
+    if (path.includes(section.id)) break;
+    path.push(section.id);
+
+    const target = getRouteTarget(section, values);
+    if (target === SUBMIT_FORM) break;
+
+    const targetIndex = sections.findIndex((s) => s.id === target);
+    // Unknown targets, e.g. a deleted section, fall back to the next one
+    index = targetIndex >= 0 ? targetIndex : index + 1;
+  }
+
+  return path;
+};
@@ -0,0 +1,190 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateCondition,
+  getHiddenItemIds,
+  isRuleSatisfied,
+  omitHiddenValues,
+} from "./visibility";
+import {
+  FormField,
+  FormItem,
+  FormSchema,
+  FormSection,
+  VisibilityRule,
+} from "./form-schema";
+import { validateForm } from "./form-validation";
+
+const field = (
+  id: string,
+  visibleWhen?: VisibilityRule,
+  required = false,
+): FormField => ({
+  id,
+  type: "short-text",
+  label: id,
+  required,
+  showDescription: false,
+  properties: {},
+  order: 0,
+  visibleWhen,
+});
+
+const section = (
+  id: string,
+  fields: FormItem[],
+  visibleWhen?: VisibilityRule,
+): FormSection => ({ id, title: id, fields, order: 0, visibleWhen });
+
+const schema = (items: FormItem[]): FormSchema => ({
+  id: "form",
+  title: "Form",
+  items,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+});
+
+const when = (
+  fieldId: string,
+  operator: VisibilityRule["conditions"][number]["operator"],
+  value?: string | string[],
+): VisibilityRule => ({
+  combinator: "and",
+  conditions: [{ fieldId, operator, value }],
+});
+
+describe("evaluateCondition", () => {
+  const check = (
+    operator: VisibilityRule["conditions"][number]["operator"],
+    answer: unknown,
+    value?: string | string[],
+  ) => evaluateCondition({ fieldId: "q", operator, value }, { q: answer });
+
+  it("should compare text ignoring case and whitespace", () => {
+    expect(check("equals", " Yes ", "yes")).toBe(true);
+    expect(check("equals", "No", "yes")).toBe(false);
+    expect(check("notEquals", undefined, "yes")).toBe(true);
+  });
+
+  it("should treat multi-select answers as sets", () => {
+    expect(check("equals", ["b", "a"], ["a", "b"])).toBe(true);
+    expect(check("contains", ["a", "b"], "b")).toBe(true);
+    expect(check("in", ["c", "b"], ["a", "b"])).toBe(true);
+    expect(check("in", "z", ["a", "b"])).toBe(false);
+  });
+
+  it("should match substrings with contains", () => {
+    expect(check("contains", "Engineering team", "engineer")).toBe(true);
+    expect(check("contains", "", "engineer")).toBe(false);
+  });
+
+  it("should compare numbers and dates with gt and lt", () => {
+    expect(check("gt", "10", "9")).toBe(true);
+    expect(check("lt", 3, "4")).toBe(true);
+    expect(check("gt", "2024-05-02T00:00:00.000Z", "2024-05-01")).toBe(true);
+    expect(check("gt", "abc", "1")).toBe(false);
+  });
+
+  it("should detect empty answers", () => {
+    expect(check("isEmpty", "  ")).toBe(true);
+    expect(check("isEmpty", [])).toBe(true);
+    expect(check("isNotEmpty", ["a"])).toBe(true);
+  });
+});
+
+describe("isRuleSatisfied", () => {
+  const rule = (combinator: "and" | "or"): VisibilityRule => ({
+    combinator,
+    conditions: [
+      { fieldId: "a", operator: "equals", value: "1" },
+      { fieldId: "b", operator: "equals", value: "2" },
+    ],
+  });
+
+  it("should combine conditions with and/or", () => {
+    expect(isRuleSatisfied(rule("and"), { a: "1", b: "3" })).toBe(false);
+    expect(isRuleSatisfied(rule("or"), { a: "1", b: "3" })).toBe(true);
+  });
+
+  it("should treat missing or empty rules as visible", () => {
+    expect(isRuleSatisfied(undefined, {})).toBe(true);
+    expect(isRuleSatisfied({ combinator: "and", conditions: [] }, {})).toBe(
+      true,
+    );
+  });
+});
+
+describe("getHiddenItemIds", () => {
+  it("should hide fields and whole sections", () => {
+    const form = schema([
+      field("role"),
+      field("team", when("role", "equals", "manager")),
+      section("details", [field("reports")], when("role", "isNotEmpty")),
+    ]);
+
+    expect([...getHiddenItemIds(form, {})].sort()).toEqual([
+      "details",
+      "reports",
+      "team",
+    ]);
+    expect([...getHiddenItemIds(form, { role: "Manager" })]).toEqual([]);
+  });
+
+  it("should cascade through fields that depend on hidden fields", () => {
+    const form = schema([
+      field("a"),
+      field("b", when("a", "equals", "yes")),
+      field("c", when("b", "isNotEmpty")),
+    ]);
+
+    // b keeps a stale answer after a changes, c must still disappear
+    const hidden = getHiddenItemIds(form, { a: "no", b: "stale" });
+    expect([...hidden].sort()).toEqual(["b", "c"]);
+    expect(omitHiddenValues({ a: "no", b: "stale" }, hidden)).toEqual({
+      a: "no",
+    });
+  });
+
+  it("should hide everything nested in a hidden section", () => {
+    const details = (visibleWhen?: VisibilityRule) =>
+      section(
+        "details",
+        [
+          field("reports"),
+          section("team", [field("size", when("reports", "isNotEmpty"))]),
+          section("budget", [field("amount")], when("role", "equals", "lead")),
+        ],
+        visibleWhen,
+      );
+
+    expect([
+      ...getHiddenItemIds(schema([field("role"), details()]), { reports: "2" }),
+    ]).toEqual(["budget", "amount"]);
+    expect(
+      [
+        ...getHiddenItemIds(
+          schema([field("role"), details(when("role", "isNotEmpty"))]),
+          { reports: "2" },
+        ),
+      ].sort(),
+    ).toEqual(["amount", "budget", "details", "reports", "size", "team"]);
+  });
+
+  it("should ignore conditions on deleted fields", () => {
+    const form = schema([field("a", when("gone", "equals", "x"))]);
+    expect(getHiddenItemIds(form, {}).size).toBe(0);
+  });
+});
+
+describe("validateForm with visibility rules", () => {
+  it("should not require hidden fields", () => {
+    const form = schema([
+      field("contact"),
+      field("email", when("contact", "equals", "email"), true),
+    ]);
+
+    expect(validateForm(form, { contact: "phone" }).isValid).toBe(true);
+    expect(validateForm(form, { contact: "email" }).errors).toEqual([
+      { fieldId: "email", message: "email is required", code: "required" },
+    ]);
+  });
+});
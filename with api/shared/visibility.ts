@@ -0,0 +1,171 @@
+/**
+ * Visibility
+ *
+ * Evaluates `visibleWhen` rules against the current answers. A hidden field
+ * counts as unanswered, so items whose rules depend on it are re-evaluated
+ * with that answer removed. Conditions that point at a field which no longer
+ * exists are ignored. Sections that section navigation skips are hidden too.
+ * A field of a repeatable section is checked against its answers in every
+ * entry, and items within an entry are shown or hidden for all entries alike.
+ */
+
+import {
+  FormItem,
+  FormSchema,
+  VisibilityCondition,
+  VisibilityRule,
+  getAllFields,
+  isFormSection,
+  isOtherAnswer,
+} from "./form-schema";
+import { getSectionPath } from "./section-flow";
+import { flattenEntries } from "./repeatable-sections";
+
+export const isEmptyValue = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && value.trim() === "") ||
+  (Array.isArray(value) && value.length === 0);
+
+// Text comparisons ignore case and surrounding whitespace. An "Other" answer
+// compares by its text
+const normalize = (value: unknown): string =>
+  String(isOtherAnswer(value) ? value.other : value)
+    .trim()
+    .toLowerCase();
+
+const asList = (value: unknown): string[] => {
+  if (isEmptyValue(value)) return [];
+  return (Array.isArray(value) ? value : [value]).map(normalize);
+};
+
+// Numbers compare numerically, anything else that parses as a date by time
+const toComparable = (value: unknown): number => {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "") return NaN;
+  const number = Number(value);
+  return isNaN(number) ? Date.parse(value) : number;
+};
+
+const compare = (
+  answer: unknown,
+  expected: unknown,
+  check: (a: number, b: number) => boolean,
+): boolean => {
+  const a = toComparable(answer);
+  const b = toComparable(expected);
+  return !isNaN(a) && !isNaN(b) && check(a, b);
+};
+
+const sameValues = (a: string[], b: string[]): boolean =>
+  a.length === b.length &&
+  [...a].sort().join("\n") === [...b].sort().join("\n");
+
+export const evaluateCondition = (
+  condition: VisibilityCondition,
+  values: Record<string, any>,
+): boolean => {
+  const answer = values[condition.fieldId];
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case "isEmpty":
+      return isEmptyValue(answer);
+    case "isNotEmpty":
+      return !isEmptyValue(answer);
+    case "equals":
+      return (
+        !isEmptyValue(answer) && sameValues(asList(answer), asList(expected))
+      );
+    case "notEquals":
+      return !sameValues(asList(answer), asList(expected));
+    case "in": {
+      const allowed = asList(expected);
+      return asList(answer).some((value) => allowed.includes(value));
+    }
+    case "contains":
+      if (isEmptyValue(answer) || isEmptyValue(expected)) return false;
+      return Array.isArray(answer)
+        ? asList(answer).includes(normalize(expected))
+        : normalize(answer).includes(normalize(expected));
+    case "gt":
+      return compare(answer, expected, (a, b) => a > b);
+    case "lt":
+      return compare(answer, expected, (a, b) => a < b);
+    default:
+      return true;
+  }
+};
+
+/** True when the rule is absent, has no conditions, or is satisfied. */
+export const isRuleSatisfied = (
+  rule: VisibilityRule | undefined,
+  values: Record<string, any>,
+): boolean => {
+  if (!rule || rule.conditions.length === 0) return true;
+  return rule.combinator === "or"
+    ? rule.conditions.some((condition) => evaluateCondition(condition, values))
+    : rule.conditions.every((condition) =>
+        evaluateCondition(condition, values),
+      );
+};
+
+export const omitHiddenValues = (
+  values: Record<string, any>,
+  hidden: Set<string>,
+): Record<string, any> =>
+  Object.fromEntries(
+    Object.entries(values).filter(([fieldId]) => !hidden.has(fieldId)),
+  );
+
+/**
+ * Ids of the sections and fields that are hidden for these answers, whether
+ * by a visibility rule or because the section isn't on the respondent's
+ * path. Fields in a hidden section are included.
+ */
+export const getHiddenItemIds = (
+  schema: FormSchema,
+  values: Record<string, any>,
+): Set<string> => {
+  const fieldIds = new Set(getAllFields(schema.items).map((field) => field.id));
+  const applies = (rule: VisibilityRule | undefined) =>
+    rule && {
+      ...rule,
+      conditions: rule.conditions.filter((c) => fieldIds.has(c.fieldId)),
+    };
+
+  const flattened = flattenEntries(schema, values);
+  let hidden = new Set<string>();
+  // Hiding a field can in turn hide the items that depend on it. A dependency
+  // chain settles within one pass per field; rules that keep flipping each
+  // other (isEmpty on one another) stop at the same bound
+  for (let pass = 0; pass <= fieldIds.size; pass++) {
+    const answers = omitHiddenValues(flattened, hidden);
+    const next = new Set<string>();
+    // A hidden section hides everything nested in it
+    const hide = (item: FormItem) => {
+      next.add(item.id);
+      if (isFormSection(item)) item.fields.forEach(hide);
+    };
+    const visit = (item: FormItem) => {
+      if (!isRuleSatisfied(applies(item.visibleWhen), answers)) {
+        hide(item);
+      } else if (isFormSection(item)) {
+        item.fields.forEach(visit);
+      }
+    };
+    schema.items.forEach(visit);
+
+    const path = getSectionPath(schema, answers, next);
+    schema.items.forEach((item) => {
+      if (isFormSection(item) && !path.includes(item.id)) hide(item);
+    });
+
+    const settled =
+      next.size === hidden.size && [...next].every((id) => hidden.has(id));
+    hidden = next;
+    if (settled) break;
+  }
+
+  return hidden;
+};
@@ -1,7 +1,7 @@
 import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
-import { createServer } from "./server";
+import type { Express } from "express";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -26,10 +26,18 @@ function expressPlugin(): Plugin {
     name: "express-plugin",
     apply: "serve", // Only apply during development (serve mode)
     configureServer(server) {
-      const app = createServer();
+      // Loaded through Vite rather than imported here, so the server resolves
+      // @shared like the client does
+      let app: Promise<Express> | undefined;
+      const loadApp = () =>
+        (app ??= server
+          .ssrLoadModule("/server/index.ts")
+          .then(({ createServer }) => createServer()));
 
       // Add Express app as middleware to Vite dev server
-      server.middlewares.use(app);
+      server.middlewares.use((req, res, next) => {
+        loadApp().then((expressApp) => expressApp(req, res, next), next);
+      });
     },
   };
 }